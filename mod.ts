@@ -251,9 +251,18 @@
  */
 
 export * from "./src/async-object-mapper.ts";
+export * from "./src/async-union-object-mapper.ts";
+export * from "./src/bidirectional-mapper.ts";
+export * from "./src/documentation.ts";
+export * from "./src/lineage.ts";
 export * from "./src/map-from.ts";
 export * from "./src/map-from-async.ts";
+export * from "./src/mapping-error.ts";
+export * from "./src/ndjson.ts";
 export * from "./src/object-mapper.ts";
 export * from "./src/omit-property.ts";
+export * from "./src/profiler.ts";
+export * from "./src/tracing.ts";
+export * from "./src/union-object-mapper.ts";
 export * as asyncTypes from "./src/async-types.ts";
 export * as types from "./src/types.ts";
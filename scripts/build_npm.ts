@@ -10,11 +10,15 @@ await emptyDir("./npm");
 
 await build({
   compilerOptions: {
-    // Targets NodeJS v20
-    "lib": ["ES2023"],
+    // Targets NodeJS v20. "DOM" provides the types for Web Streams, which
+    //  NodeJS has as globals.
+    "lib": ["ES2023", "DOM"],
     target: "ES2022",
   },
-  entryPoints: ["./mod.ts"],
+  entryPoints: ["./mod.ts", {
+    name: "./testing",
+    path: "./testing.ts",
+  }],
   outDir: "./npm",
   package: {
     // package.json properties
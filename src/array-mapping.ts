@@ -0,0 +1,217 @@
+import { withCallScope } from "./call-scope.ts";
+import { mapWithConcurrencyLimit } from "./concurrency.ts";
+import {
+  collectMappingErrors,
+  prependMappingPath,
+} from "./error-collection.ts";
+import { withLineageElement } from "./lineage-recording.ts";
+import {
+  AggregateMappingError,
+  type AnyObjectMapper,
+  type MappingError,
+} from "./mapping-error.ts";
+import { withPathSegment } from "./span-scope.ts";
+import type { MapOptions } from "./types.ts";
+
+/**
+ * Map one element of the input to the `array()` method of a mapper, adding
+ *  its index to the path of any {@linkcode MappingError}.
+ *
+ * @private
+ */
+export function mapElement<TInput, TOutput>(
+  item: TInput,
+  index: number,
+  options: MapOptions | undefined,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => TOutput,
+): TOutput {
+  try {
+    return map(item, options);
+  } catch (error) {
+    throw prependMappingPath(error, index, mapper);
+  }
+}
+
+/**
+ * Map every element of the input to the `array()` method of a mapper, with
+ *  `map`, which maps a single input object like the mapper's `map()` method.
+ *
+ * @private
+ */
+export function mapArray<TInput, TOutput>(
+  input: Iterable<TInput>,
+  options: MapOptions | undefined,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => TOutput,
+): TOutput[] {
+  options = withLineageElement(options);
+  if (options?.collectErrors) {
+    return mapArrayCollectingErrors(input, options, mapper, map);
+  } else if (Array.isArray(input)) {
+    // This approach might be faster than using the iterator protocol ("for of" loop)
+    return input.map((item: TInput, index) =>
+      mapElement(item, index, options, mapper, map)
+    );
+  } else {
+    const output = [];
+    let index = 0;
+    for (const item of input) {
+      output.push(mapElement(item, index++, options, mapper, map));
+    }
+    return output;
+  }
+}
+
+/**
+ * Map every element of the input to {@linkcode mapArray}, even after an
+ *  element fails to map. Throws an {@linkcode AggregateMappingError} if any
+ *  element fails.
+ *
+ * @private
+ */
+function mapArrayCollectingErrors<TInput, TOutput>(
+  input: Iterable<TInput>,
+  options: MapOptions,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => TOutput,
+): TOutput[] {
+  const output = [];
+  const errors: MappingError[] = [];
+  let index = 0;
+  for (const item of input) {
+    try {
+      output.push(map(item, options));
+    } catch (error) {
+      errors.push(...collectMappingErrors(error, index, mapper));
+    }
+    index++;
+  }
+  if (errors.length > 0) {
+    throw new AggregateMappingError(errors);
+  }
+  return output;
+}
+
+/**
+ * Map one element of the input to the `array()` method of an async mapper,
+ *  adding its index to the path of any {@linkcode MappingError}.
+ *
+ * @private
+ */
+export async function mapElementAsync<TInput, TOutput>(
+  item: TInput,
+  index: number,
+  options: MapOptions | undefined,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => Promise<TOutput>,
+): Promise<TOutput> {
+  try {
+    return await map(item, withPathSegment(options, index));
+  } catch (error) {
+    options?.signal?.throwIfAborted();
+    throw prependMappingPath(error, index, mapper);
+  }
+}
+
+/**
+ * Map every element of the input to the `array()` method of an async mapper,
+ *  with `map`, which maps a single input object like the mapper's `map()`
+ *  method.
+ *
+ * @private
+ */
+export async function mapArrayAsync<TInput, TOutput>(
+  input: Iterable<TInput>,
+  options: MapOptions | undefined,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => Promise<TOutput>,
+): Promise<TOutput[]> {
+  const scopedOptions = withLineageElement(withCallScope(options));
+  scopedOptions.signal?.throwIfAborted();
+  if (scopedOptions.collectErrors) {
+    return mapArrayAsyncCollectingErrors(input, scopedOptions, mapper, map);
+  } else if (scopedOptions.concurrency !== undefined) {
+    return mapWithConcurrencyLimit(
+      input,
+      scopedOptions.concurrency,
+      (item, index) => mapElementAsync(item, index, scopedOptions, mapper, map),
+    );
+  } else if (Array.isArray(input)) {
+    // This approach might be faster than using the iterator protocol ("for of" loop)
+    return Promise.all(
+      input.map((item: TInput, index) =>
+        mapElementAsync(item, index, scopedOptions, mapper, map)
+      ),
+    );
+  } else {
+    const output = [];
+    let index = 0;
+    for (const item of input) {
+      output.push(
+        await mapElementAsync(item, index++, scopedOptions, mapper, map),
+      );
+    }
+    return output;
+  }
+}
+
+/**
+ * Map every element of the input to {@linkcode mapArrayAsync}, even after an
+ *  element fails to map. Rejects with an {@linkcode AggregateMappingError} if
+ *  any element fails.
+ *
+ * @private
+ */
+async function mapArrayAsyncCollectingErrors<TInput, TOutput>(
+  input: Iterable<TInput>,
+  options: MapOptions,
+  mapper: AnyObjectMapper,
+  map: (item: TInput, options: MapOptions | undefined) => Promise<TOutput>,
+): Promise<TOutput[]> {
+  let results: PromiseSettledResult<TOutput>[];
+  if (options.concurrency !== undefined) {
+    results = await mapWithConcurrencyLimit(
+      input,
+      options.concurrency,
+      (item, index) =>
+        map(item, withPathSegment(options, index)).then(
+          (value) => ({ status: "fulfilled", value }),
+          (reason) => ({ status: "rejected", reason }),
+        ),
+    );
+  } else if (Array.isArray(input)) {
+    results = await Promise.allSettled(
+      input.map((item: TInput, index) =>
+        map(item, withPathSegment(options, index))
+      ),
+    );
+  } else {
+    results = [];
+    let index = 0;
+    for (const item of input) {
+      try {
+        const value = await map(item, withPathSegment(options, index++));
+        results.push({ status: "fulfilled", value });
+      } catch (reason) {
+        results.push({ status: "rejected", reason });
+      }
+    }
+  }
+  // An aborted call rejects with the abort reason, rather than the errors
+  //  caused by aborting.
+  options.signal?.throwIfAborted();
+  const output: TOutput[] = [];
+  const errors: MappingError[] = [];
+  for (const [index, result] of results.entries()) {
+    if (result.status === "fulfilled") {
+      output.push(result.value);
+    } else {
+      errors.push(...collectMappingErrors(result.reason, index, mapper));
+    }
+  }
+  if (errors.length > 0) {
+    throw new AggregateMappingError(errors);
+  }
+  return output;
+}
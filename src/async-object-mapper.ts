@@ -1,5 +1,53 @@
+import { mapArrayAsync, mapElementAsync } from "./array-mapping.ts";
+import { AsyncUnionObjectMapper } from "./async-union-object-mapper.ts";
+import { withCallScope } from "./call-scope.ts";
+import {
+  awaitDependencies,
+  getOutputOrder,
+  pickDependencies,
+  sortByDependencies,
+  toOutputOrder,
+} from "./derived.ts";
+import {
+  collectMappingErrors,
+  prependMappingPath,
+  toAsyncMappingResult,
+} from "./error-collection.ts";
+import { createInputPathReader, isInputPath } from "./input-path.ts";
+import type { MappingLineage } from "./lineage.ts";
+import {
+  createLineageOptions,
+  isRecordingLineage,
+  LineageRecorder,
+  wrapSchemaMapForLineage,
+} from "./lineage-recording.ts";
+import { wrapSchemaValue } from "./middleware.ts";
+import { streamWithConcurrencyLimit } from "./concurrency.ts";
+import {
+  AggregateMappingError,
+  type MappingError,
+  type MappingResult,
+} from "./mapping-error.ts";
 import { OmitProperty } from "./omit-property.ts";
-import type { ExactReturn, OptionalArgIfUndefined } from "./types.ts";
+import {
+  describeMapperFunction,
+  describeSchema,
+} from "./schema-description.ts";
+import { traceSpan } from "./span-scope.ts";
+import { createMappingTransformStream } from "./transform-stream.ts";
+import { findUnusedInputPaths } from "./unused-inputs.ts";
+import type {
+  AllowOmitIfOptional,
+  DerivedProperty,
+  ExactReturn,
+  MapOptions,
+  MapperCall,
+  MapperMiddleware,
+  ObjectMapperSchema,
+  OptionalArgIfUndefined,
+  SchemaDescription,
+  TransformStreamOptions,
+} from "./types.ts";
 import {
   AsyncMapperFunction,
   AsyncMapperSchemaValue,
@@ -20,6 +68,7 @@ interface AsyncObjectMapperFunctionBeingBuilt<
   (
     value: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput>>;
 
   schema: AsyncObjectMapperSchema<TInput, TOutput, TContext>;
@@ -41,6 +90,101 @@ function isAsyncMapperFunction<
   return typeof value === "function";
 }
 
+/**
+ * A {@linkcode DerivedProperty} in an {@linkcode AsyncObjectMapperSchema}.
+ *
+ * @private
+ */
+type SchemaDerivedProperty<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+> = DerivedProperty<
+  TInput,
+  TOutput,
+  TContext,
+  never,
+  Promise<
+    | ExactReturn<TOutput[keyof TOutput]>
+    | AllowOmitIfOptional<TOutput, keyof TOutput>
+  >
+>;
+
+/**
+ * Used to determine if a {@linkcode AsyncMapperSchemaValue} is a derived
+ *  property, from {@linkcode mapFromAsync.derived}.
+ *
+ * @private
+ */
+function isDerivedProperty<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+>(
+  value: AsyncMapperSchemaValue<TInput, TOutput, TContext>,
+): value is SchemaDerivedProperty<TInput, TOutput, TContext> {
+  return typeof value === "object";
+}
+
+/**
+ * Call a mapper function, or derive a property from the output mapped so
+ *  far. The result is only a promise if the function returned one, or if the
+ *  {@linkcode MapOptions#tracer} option is set, in which case the call is
+ *  recorded in a property span.
+ *
+ * @private
+ */
+function callMapperFunction<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+>(
+  key: string,
+  getter:
+    | AsyncMapperFunction<TInput, TOutput, TContext>
+    | SchemaDerivedProperty<TInput, TOutput, TContext>,
+  input: TInput,
+  context: OptionalArgIfUndefined<TContext>,
+  options: MapOptions,
+  output: Readonly<Record<PropertyKey, unknown>>,
+): unknown {
+  const call = (options: MapOptions): unknown =>
+    isDerivedProperty(getter)
+      ? getter.derive(
+        pickDependencies(output, getter.dependencies),
+        input,
+        context,
+        options,
+      )
+      : getter(input, context, options);
+  return options.tracer
+    ? traceSpan(options.tracer, options, key, call)
+    : call(options);
+}
+
+/**
+ * Used to determine if a value returned by a mapper function has to be
+ *  awaited. Mapper functions reused from an {@linkcode ObjectMapper} return
+ *  their values directly.
+ *
+ * @private
+ */
+function isPromiseLike(value: unknown): value is PromiseLike<unknown> {
+  return (
+    (typeof value === "object" || typeof value === "function") &&
+    value !== null &&
+    typeof (value as { then?: unknown }).then === "function"
+  );
+}
+
+/**
+ * Passed to mapper functions when {@linkcode AsyncObjectMapper#map} is called
+ *  without any options.
+ *
+ * @private
+ */
+const noOptions: MapOptions = Object.freeze({});
+
 /**
  * Convert from one type of object to another.
  *
@@ -99,9 +243,54 @@ export class AsyncObjectMapper<
     };
   }
 
+  /**
+   * Create an instance from a schema whose type is already known, like one
+   *  built at runtime by another mapper. Unlike
+   *  {@linkcode AsyncObjectMapper.create}, this doesn't reject extra
+   *  properties, so use that instead for schemas written as object literals.
+   *
+   * The schema can also be an {@linkcode ObjectMapperSchema}, like in
+   *  {@linkcode ObjectMapper#toAsync}.
+   *
+   * @private
+   */
+  public static fromSchema<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >(
+    schema:
+      | AsyncObjectMapperSchema<TInput, TOutput, TContext>
+      | ObjectMapperSchema<TInput, TOutput, TContext>,
+  ): AsyncObjectMapper<TInput, TOutput, TContext> {
+    // Mapper functions of an ObjectMapperSchema return their values directly,
+    //  which map() handles like the values of awaited promises.
+    return new AsyncObjectMapper<TInput, TOutput, TContext>(
+      schema as AsyncObjectMapperSchema<TInput, TOutput, TContext>,
+    );
+  }
+
+  /**
+   * Create an {@linkcode AsyncUnionObjectMapper} factory function, for
+   *  mapping a discriminated union. Invoke it immediately, with the name of
+   *  the discriminant property and an object with a schema or mapper for
+   *  every variant.
+   *
+   * Every variant of the input union must be handled, and each schema's input
+   *  type is narrowed to its variant.
+   */
+  public static union<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >() {
+    return AsyncUnionObjectMapper.create<TInput, TOutput, TContext>();
+  }
+
   /**
    * For faster runtime performance, the object mapper schema is converted to
-   *  a Map instance.
+   *  a Map instance. Input paths are converted to functions that read the
+   *  path.
    * @private
    */
   protected readonly schemaMap: Map<
@@ -109,6 +298,20 @@ export class AsyncObjectMapper<
     AsyncMapperSchemaValue<TInput, TOutput, TContext>
   >;
 
+  /**
+   * The middleware added with {@linkcode AsyncObjectMapper#use}, in the order
+   *  it was added.
+   * @private
+   */
+  protected readonly middleware: MapperMiddleware<TInput, TContext>[] = [];
+
+  /**
+   * The keys of the schema, in schema order, if derived properties are
+   *  mapped in a different order. Otherwise `undefined`.
+   * @private
+   */
+  protected readonly outputOrder: readonly (keyof TOutput)[] | undefined;
+
   protected constructor(
     /**
      * Defines how to populate property on the output type.
@@ -118,10 +321,21 @@ export class AsyncObjectMapper<
     this.schemaMap = new Map<
       keyof TOutput,
       AsyncMapperSchemaValue<TInput, TOutput, TContext>
-    >(Object.entries(schema) as [
-      keyof TOutput,
-      AsyncMapperSchemaValue<TInput, TOutput, TContext>,
-    ][]);
+    >(
+      sortByDependencies(
+        Object.entries(schema).map(([key, value]) => [
+          key,
+          isInputPath(value) ? createInputPathReader(value) : value,
+        ]) as [
+          keyof TOutput,
+          AsyncMapperSchemaValue<TInput, TOutput, TContext>,
+        ][],
+      ),
+    );
+    this.outputOrder = getOutputOrder(
+      Object.keys(schema) as (keyof TOutput)[],
+      this.schemaMap.keys(),
+    );
   }
 
   /**
@@ -131,6 +345,7 @@ export class AsyncObjectMapper<
   array(
     input: Iterable<TInput>,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput[]>>;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -141,6 +356,7 @@ export class AsyncObjectMapper<
   array(
     input: Iterable<TInput> | null,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput[]> | null>;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -151,6 +367,7 @@ export class AsyncObjectMapper<
   array(
     input: Iterable<TInput> | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput[]> | undefined>;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -161,6 +378,7 @@ export class AsyncObjectMapper<
   array(
     input: Iterable<TInput> | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput[]> | null | undefined>;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -171,95 +389,588 @@ export class AsyncObjectMapper<
   async array(
     input: Iterable<TInput> | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput[]> | null | undefined> {
     if (input === undefined || input === null) {
       return input;
-    } else if (Array.isArray(input)) {
-      // This approach might be faster than using the iterator protocol ("for of" loop)
-      return Promise.all(input.map((item) => this.map(item, context)));
-    } else {
-      const output = [];
-      for (const item of input) {
-        output.push(await this.map(item, context));
-      }
-      return output;
     }
+    return await mapArrayAsync(
+      input,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
+  }
+
+  /**
+   * Map input objects from an iterable or async iterable, like a database
+   *  cursor or a paged API reader, yielding each output object in input
+   *  order.
+   *
+   * By default, input objects are read and mapped one at a time, as the
+   *  output is consumed. Set the {@linkcode MapOptions#concurrency} option to
+   *  map up to that many input objects ahead of the consumer. If the consumer
+   *  stops early, like by breaking out of a `for await` loop, the source is
+   *  closed.
+   *
+   * If a mapper function rejects, the error is thrown to the consumer as a
+   *  {@linkcode MappingError}, with the element's index at the start of its
+   *  path, and the source is closed.
+   *
+   * @example ```ts
+   * const objectMapper = AsyncObjectMapper.create<{ id: number }, { name: string }>()({
+   *   name: async (input) => `User ${input.id}`,
+   * });
+   *
+   * async function* readRows() {
+   *   yield { id: 1 };
+   *   yield { id: 2 };
+   * }
+   *
+   * for await (const output of objectMapper.stream(readRows(), undefined, { concurrency: 10 })) {
+   *   console.log(output);
+   * }
+   * // --> { name: "User 1" }
+   * // --> { name: "User 2" }
+   * ```
+   */
+  stream(
+    source: Iterable<TInput> | AsyncIterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): AsyncGenerator<ExactReturn<TOutput>, void, undefined> {
+    const scopedOptions = withCallScope(options);
+    return streamWithConcurrencyLimit(
+      source,
+      scopedOptions.concurrency ?? 1,
+      (item, index) => this.mapElement(item, index, context, scopedOptions),
+    );
+  }
+
+  /**
+   * Create a `TransformStream` that maps each input object written to it,
+   *  for use in a Web Streams pipeline, like
+   *  `readable.pipeThrough(objectMapper.toTransformStream())`.
+   *
+   * Input objects are mapped one at a time, in order. If a mapper function
+   *  rejects, the stream is errored with a {@linkcode MappingError}, with the
+   *  element's index at the start of its path. Set the high-water marks in
+   *  the options to queue more input or output objects before applying
+   *  backpressure.
+   *
+   * See {@linkcode NdjsonParseStream} and {@linkcode NdjsonStringifyStream}
+   *  for reading and writing newline-delimited JSON.
+   */
+  toTransformStream(
+    context: OptionalArgIfUndefined<TContext>,
+    options?: TransformStreamOptions,
+  ): TransformStream<TInput, ExactReturn<TOutput>> {
+    const scopedOptions = withCallScope(options);
+    return createMappingTransformStream(
+      (item: TInput, index) =>
+        this.mapElement(item, index, context, scopedOptions),
+      options,
+    );
+  }
+
+  /**
+   * Map one element of the input to {@linkcode AsyncObjectMapper#array},
+   *  adding its index to the path of any {@linkcode MappingError}.
+   * @private
+   */
+  protected mapElement(
+    item: TInput,
+    index: number,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput>> {
+    return mapElementAsync(
+      item,
+      index,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
   }
 
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    */
   map(
     input: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput>>;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null`, it will be returned as-is.
    */
   map(
     input: TInput | null,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput> | null>;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `undefined`, it will be returned as-is.
    */
   map(
     input: TInput | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput> | undefined>;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
    */
   map(
     input: TInput | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput> | null | undefined>;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   *
+   * If a mapper function throws or rejects, the error is wrapped in a
+   *  {@linkcode MappingError}, recording the path to the output property.
+   *  If the {@linkcode MapOptions#collectErrors} option is set, every property
+   *  is mapped, and all errors are thrown together in an
+   *  {@linkcode AggregateMappingError}.
+   *
+   * If the {@linkcode MapOptions#signal} option is aborted, no more mapper
+   *  functions are started, and the call rejects with the abort reason.
+   *
+   * If the {@linkcode MapOptions#tracer} option is set, a span is recorded
+   *  for the call, and for each property mapped by a mapper function.
    */
   async map(
     input: TInput | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions = noOptions,
   ): Promise<ExactReturn<TOutput> | null | undefined> {
     if (input === null || input === undefined) {
       return input;
     }
+    options = withCallScope(options);
+    options.signal?.throwIfAborted();
+    if (options.tracer) {
+      return await traceSpan(
+        options.tracer,
+        options,
+        undefined,
+        (options) => this.mapWithMiddleware(input, context, options),
+      );
+    }
+    return await this.mapWithMiddleware(input, context, options);
+  }
+
+  /**
+   * Map every property of the input object, running the
+   *  {@linkcode MapperMiddleware#beforeMap} and
+   *  {@linkcode MapperMiddleware#afterMap} hooks around it.
+   * @private
+   */
+  protected async mapWithMiddleware(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): Promise<ExactReturn<TOutput>> {
+    if (this.middleware.length === 0) {
+      return this.mapProperties(input, context, options);
+    }
+    const call: MapperCall<TInput, TContext> = {
+      mapper: this,
+      input,
+      context: context as TContext,
+      options,
+    };
+    for (const middleware of this.middleware) {
+      middleware.beforeMap?.(call);
+    }
+    const output = await this.mapProperties(input, context, options);
+    for (const middleware of this.middleware.toReversed()) {
+      middleware.afterMap?.(call, output as Record<string, unknown>);
+    }
+    return output;
+  }
+
+  /**
+   * Map every property of the input object, without running the
+   *  {@linkcode MapperMiddleware#beforeMap} and
+   *  {@linkcode MapperMiddleware#afterMap} hooks.
+   * @private
+   */
+  protected async mapProperties(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): Promise<ExactReturn<TOutput>> {
+    if (options.collectErrors) {
+      return this.mapCollectingErrors(input, context, options);
+    }
+    if (options.concurrentProperties) {
+      return this.mapConcurrently(input, context, options);
+    }
+    const schemaMap: ReadonlyMap<
+      keyof TOutput,
+      AsyncMapperSchemaValue<TInput, TOutput, TContext>
+    > = isRecordingLineage(options)
+      ? wrapSchemaMapForLineage(this.schemaMap)
+      : this.schemaMap;
     // Unsafe stuff happens here
     const output: Record<string, unknown> = {};
-    for (const [key, getterOrString] of this.schemaMap) {
-      if (!isAsyncMapperFunction(getterOrString)) {
+    for (const [key, getterOrString] of schemaMap) {
+      if (
+        !isAsyncMapperFunction(getterOrString) &&
+        !isDerivedProperty(getterOrString)
+      ) {
         output[key as string] = input[getterOrString];
       } else {
-        const mappedValue = await getterOrString(input, context);
+        options.signal?.throwIfAborted();
+        let mappedValue: unknown;
+        try {
+          mappedValue = callMapperFunction(
+            key as string,
+            getterOrString,
+            input,
+            context,
+            options,
+            output,
+          );
+          if (isPromiseLike(mappedValue)) {
+            mappedValue = await mappedValue;
+          }
+        } catch (error) {
+          options.signal?.throwIfAborted();
+          throw prependMappingPath(error, key as string, this);
+        }
         if (mappedValue !== OmitProperty) {
           output[key as string] = mappedValue;
         }
       }
     }
-    return output as ExactReturn<TOutput>;
+    return this.toSchemaOrder(output);
+  }
+
+  /**
+   * Copy an output object into schema order, if derived properties were
+   *  mapped out of order.
+   * @private
+   */
+  protected toSchemaOrder(
+    output: Record<string, unknown>,
+  ): ExactReturn<TOutput> {
+    return (this.outputOrder
+      ? toOutputOrder(output, this.outputOrder)
+      : output) as ExactReturn<TOutput>;
+  }
+
+  /**
+   * Map every property of the input object, starting every mapper function at
+   *  once. Rejects with the first error, as soon as any mapper function
+   *  rejects.
+   * @private
+   */
+  protected async mapConcurrently(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): Promise<ExactReturn<TOutput>> {
+    const pendingValues = new Map<keyof TOutput, Promise<unknown>>();
+    const mapProperty = async (
+      key: keyof TOutput,
+      getterOrString: AsyncMapperSchemaValue<TInput, TOutput, TContext>,
+    ): Promise<unknown> => {
+      if (
+        !isAsyncMapperFunction(getterOrString) &&
+        !isDerivedProperty(getterOrString)
+      ) {
+        return input[getterOrString];
+      }
+      // Derived properties wait for their dependencies. If a dependency
+      //  rejects, the whole call has already rejected with its error.
+      const partialOutput = isDerivedProperty(getterOrString)
+        ? await awaitDependencies(pendingValues, getterOrString.dependencies)
+        : {};
+      try {
+        return await callMapperFunction(
+          key as string,
+          getterOrString,
+          input,
+          context,
+          options,
+          partialOutput,
+        );
+      } catch (error) {
+        options.signal?.throwIfAborted();
+        throw prependMappingPath(error, key as string, this);
+      }
+    };
+    for (const [key, getterOrString] of this.schemaMap) {
+      pendingValues.set(key, mapProperty(key, getterOrString));
+    }
+    return this.assembleOutput(await Promise.all(pendingValues.values()));
+  }
+
+  /**
+   * Map every property of the input object, even after a mapper function
+   *  rejects. Rejects with an {@linkcode AggregateMappingError} if any mapper
+   *  function rejects.
+   *
+   * If the {@linkcode MapOptions#concurrentProperties} option is set, every
+   *  mapper function is started at once.
+   * @private
+   */
+  protected async mapCollectingErrors(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): Promise<ExactReturn<TOutput>> {
+    const pendingValues = new Map<keyof TOutput, Promise<unknown>>();
+    const mapProperty = async (
+      key: keyof TOutput,
+      getterOrString: AsyncMapperSchemaValue<TInput, TOutput, TContext>,
+    ): Promise<unknown> => {
+      if (
+        !isAsyncMapperFunction(getterOrString) &&
+        !isDerivedProperty(getterOrString)
+      ) {
+        return input[getterOrString];
+      }
+      let partialOutput = {};
+      if (isDerivedProperty(getterOrString)) {
+        try {
+          partialOutput = await awaitDependencies(
+            pendingValues,
+            getterOrString.dependencies,
+          );
+        } catch {
+          // The property can't be derived, but the error is already reported
+          //  for its dependency.
+          return OmitProperty;
+        }
+      }
+      options.signal?.throwIfAborted();
+      return await callMapperFunction(
+        key as string,
+        getterOrString,
+        input,
+        context,
+        options,
+        partialOutput,
+      );
+    };
+    const startMapping = (
+      [key, getterOrString]: [
+        keyof TOutput,
+        AsyncMapperSchemaValue<TInput, TOutput, TContext>,
+      ],
+    ): Promise<unknown> => {
+      const mappedValue = mapProperty(key, getterOrString);
+      pendingValues.set(key, mappedValue);
+      return mappedValue;
+    };
+    let results: PromiseSettledResult<unknown>[];
+    if (options.concurrentProperties) {
+      results = await Promise.allSettled(
+        Array.from(this.schemaMap, startMapping),
+      );
+    } else {
+      results = [];
+      for (const entry of this.schemaMap) {
+        try {
+          const value = await startMapping(entry);
+          results.push({ status: "fulfilled", value });
+        } catch (reason) {
+          results.push({ status: "rejected", reason });
+        }
+      }
+    }
+    // An aborted call rejects with the abort reason, rather than the errors
+    //  caused by aborting.
+    options.signal?.throwIfAborted();
+    const mappedValues: unknown[] = [];
+    const errors: MappingError[] = [];
+    let index = 0;
+    for (const key of this.schemaMap.keys()) {
+      const result = results[index++];
+      if (result.status === "fulfilled") {
+        mappedValues.push(result.value);
+      } else {
+        errors.push(
+          ...collectMappingErrors(result.reason, key as string, this),
+        );
+      }
+    }
+    if (errors.length > 0) {
+      throw new AggregateMappingError(errors);
+    }
+    return this.assembleOutput(mappedValues);
+  }
+
+  /**
+   * Build an output object from the value mapped for each property in the
+   *  schema, in schema order, even if derived properties were mapped out of
+   *  order. Values from mapper functions that returned
+   *  {@linkcode OmitProperty} are left out.
+   * @private
+   */
+  protected assembleOutput(mappedValues: unknown[]): ExactReturn<TOutput> {
+    const output: Record<string, unknown> = {};
+    let index = 0;
+    for (const [key, getterOrString] of this.schemaMap) {
+      const mappedValue = mappedValues[index++];
+      if (
+        (!isAsyncMapperFunction(getterOrString) &&
+          !isDerivedProperty(getterOrString)) ||
+        mappedValue !== OmitProperty
+      ) {
+        output[key as string] = mappedValue;
+      }
+    }
+    return this.toSchemaOrder(output);
+  }
+
+  /**
+   * Maps an input object to an output object, like
+   *  {@linkcode AsyncObjectMapper#map}, but doesn't stop at the first error.
+   *
+   * Every property in the schema is mapped, even after a mapper function
+   *  rejects. If any mapper function rejects, the result contains every
+   *  failure, including those from nested mappers that were passed the
+   *  mapping options.
+   */
+  tryMap(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<MappingResult<ExactReturn<TOutput>>> {
+    return toAsyncMappingResult(() =>
+      this.map(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, like
+   *  {@linkcode AsyncObjectMapper#array}, but doesn't stop at the first error.
+   *
+   * Every element is mapped, even after an element fails to map. If any
+   *  element fails, the result contains every failure. Each failure's path
+   *  starts with the element's index, like `[3].price`.
+   */
+  tryArray(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<MappingResult<ExactReturn<TOutput[]>>> {
+    return toAsyncMappingResult(() =>
+      this.array(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Add middleware, whose hooks run on every call to
+   *  {@linkcode AsyncObjectMapper#map}, including calls made by
+   *  {@linkcode AsyncObjectMapper#array} and the other methods that map input
+   *  objects. See {@linkcode MapperMiddleware}.
+   *
+   * The {@linkcode MapperMiddleware#property} hook's `next()` returns a
+   *  promise, and the hook can return a promise. Middleware runs in the order
+   *  it was added: the first middleware's property hook is the outermost, and
+   *  its {@linkcode MapperMiddleware#afterMap} hook runs last.
+   *
+   * Returns this instance, so it can be chained after
+   *  {@linkcode AsyncObjectMapper.create}.
+   *
+   * @example ```ts
+   * const objectMapper = AsyncObjectMapper.create<
+   *   { id: string },
+   *   { id: string }
+   * >()({
+   *   id: "id",
+   * }).use({
+   *   async property(property, next) {
+   *     const start = performance.now();
+   *     const value = await next();
+   *     console.log(`Mapped ${property.key} in ${performance.now() - start}ms`);
+   *     return value;
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: MapperMiddleware<TInput, TContext>): this {
+    if (this.middleware.length === 0) {
+      for (const [key, value] of this.schemaMap) {
+        this.schemaMap.set(
+          key,
+          wrapSchemaValue(this, key as string, value, this.middleware, true),
+        );
+      }
+    }
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Describe where each output property gets its value from. See
+   *  {@linkcode ObjectMapper#describe}.
+   */
+  describe(): SchemaDescription<TOutput> {
+    return describeSchema<TOutput>(this.schema);
+  }
+
+  /**
+   * Map an example input object, and record which input properties each
+   *  output property reads. See {@linkcode ObjectMapper#traceLineage}.
+   */
+  async traceLineage(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<MappingLineage> {
+    const recorder = new LineageRecorder();
+    await this.map(input, context, createLineageOptions(recorder));
+    return recorder.toLineage();
+  }
+
+  /**
+   * Map some example input objects, one at a time, and return the paths of
+   *  their properties that no output property reads. See
+   *  {@linkcode ObjectMapper#findUnusedInputs}.
+   */
+  async findUnusedInputs(
+    samples: Iterable<TInput> | AsyncIterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<string[]> {
+    const inputs: TInput[] = [];
+    const lineages: MappingLineage[] = [];
+    for await (const input of samples) {
+      inputs.push(input);
+      lineages.push(await this.traceLineage(input, context));
+    }
+    return findUnusedInputPaths(inputs, lineages);
   }
 
   /**
@@ -270,8 +981,9 @@ export class AsyncObjectMapper<
       (
         value,
         context,
-      ) => this.map(value, context);
+        options,
+      ) => this.map(value, context, options);
     func.schema = this.schema;
-    return func;
+    return describeMapperFunction(func, { kind: "nested", mapper: this });
   }
 }
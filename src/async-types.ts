@@ -7,11 +7,19 @@
  * @module
  */
 
+import type { AsyncObjectMapper } from "./async-object-mapper.ts";
 import {
   AllowInputKeyIfInputCanExtendOutput,
+  AllowInputPathIfInputCanExtendOutput,
   AllowOmitIfOptional,
+  DerivedProperty,
   ExactReturn,
+  MapOptions,
+  ObjectMapperSchema,
   OptionalArgIfUndefined,
+  UnionDiscriminantKey,
+  UnionOutputVariant,
+  UnionVariant,
 } from "./types.ts";
 
 /**
@@ -19,6 +27,7 @@ import {
  *  promise of an output. This is used as part of an {@linkcode AsyncObjectMapperSchema}.
  * @param input The input object.
  * @param context The context object. If the `TContext` type parameter is `undefined`, you can omit this argument.
+ * @param options The options for the current mapping call. Pass these to any nested mapper.
  * @returns The output value, OR the special symbol {@linkcode OmitProperty}`, indicating that the property should be omitted
  *   completely.
  */
@@ -31,6 +40,7 @@ export interface AsyncMapperFunction<
   <TInputSubset extends TInput, TContextSubset extends TContext>(
     input: TInputSubset,
     context: OptionalArgIfUndefined<TContextSubset>,
+    options: MapOptions,
   ): Promise<
     | ExactReturn<TOutput[TOutputKey]>
     | AllowOmitIfOptional<TOutput, TOutputKey>
@@ -38,12 +48,20 @@ export interface AsyncMapperFunction<
 }
 
 /**
- * A mapper function, or input property name, used in an {@linkcode AsyncObjectMapperSchema}.
+ * A mapper function, input property name, input path, or derived property,
+ *  used in an {@linkcode AsyncObjectMapperSchema}.
  *
  * In an {@linkcode AsyncObjectMapperSchema}, each property value can be either:
  * - An {@linkcode AsyncMapperFunction}
  * - A property name from the input object. The property value must be compatible
  *   with the output property.
+ * - A dotted path into the input object, like `"address.city"` or
+ *   `"items.0.sku"`. The value at the end of the path must be compatible with
+ *   the output property. If an object along the path is `null` or `undefined`,
+ *   the output property is `undefined`.
+ * - A {@linkcode DerivedProperty} from {@linkcode mapFromAsync.derived}, which
+ *   maps the property from other output properties. It can't depend on
+ *   itself.
  */
 export type AsyncMapperSchemaValue<
   TInput extends object,
@@ -52,7 +70,18 @@ export type AsyncMapperSchemaValue<
   TOutputKey extends keyof TOutput = keyof TOutput,
 > =
   | AsyncMapperFunction<TInput, TOutput, TContext, TOutputKey>
-  | AllowInputKeyIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>;
+  | AllowInputKeyIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>
+  | AllowInputPathIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>
+  | DerivedProperty<
+    TInput,
+    TOutput,
+    TContext,
+    Exclude<keyof TOutput, TOutputKey>,
+    Promise<
+      | ExactReturn<TOutput[TOutputKey]>
+      | AllowOmitIfOptional<TOutput, TOutputKey>
+    >
+  >;
 
 /**
  * An object, where every property name must match a property name in the desired output type.
@@ -84,7 +113,137 @@ export interface AsyncObjectMapperFunction<
   (
     value: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): Promise<ExactReturn<TOutput>>;
 
   readonly schema: AsyncObjectMapperSchema<TInput, TOutput, TContext>;
 }
+
+/**
+ * The {@linkcode AsyncObjectMapper} returned by
+ *  {@linkcode ObjectMapper#toAsync}. Its schema is the
+ *  {@linkcode ObjectMapperSchema} of the synchronous mapper, whose mapper
+ *  functions return their values directly.
+ */
+export type SyncBackedAsyncObjectMapper<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+> =
+  & Omit<AsyncObjectMapper<TInput, TOutput, TContext>, "schema">
+  & {
+    readonly schema: ObjectMapperSchema<TInput, TOutput, TContext>;
+  };
+
+/**
+ * An object, with a property for every possible value of the `TKey`
+ *  discriminant of `TInput`. Each property value maps that variant of the
+ *  input union to the output type, and must be either:
+ *
+ * - An {@linkcode AsyncObjectMapperSchema}, where the input type is narrowed
+ *   to the variant.
+ * - An {@linkcode AsyncObjectMapper} instance for the variant.
+ */
+export type AsyncUnionObjectMapperVariants<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TKey extends UnionDiscriminantKey<TInput>,
+> = {
+  [TTag in TInput[TKey] & (string | number)]-?:
+    | AsyncObjectMapperSchema<
+      UnionVariant<TInput, TKey, TTag>,
+      UnionOutputVariant<TOutput, TKey, TTag>,
+      TContext
+    >
+    | AsyncObjectMapper<
+      UnionVariant<TInput, TKey, TTag>,
+      UnionOutputVariant<TOutput, TKey, TTag>,
+      TContext
+    >;
+};
+
+/**
+ * A callable function, equivalent to calling
+ *  {@linkcode AsyncUnionObjectMapper#map}. It also exposes
+ *  {@linkcode AsyncUnionObjectMapperFunction#discriminant} and
+ *  {@linkcode AsyncUnionObjectMapperFunction#variants} as readonly
+ *  properties.
+ */
+export interface AsyncUnionObjectMapperFunction<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+  TKey extends UnionDiscriminantKey<TInput> = UnionDiscriminantKey<TInput>,
+> {
+  (
+    value: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput>>;
+
+  readonly discriminant: TKey;
+
+  readonly variants: AsyncUnionObjectMapperVariants<
+    TInput,
+    TOutput,
+    TContext,
+    TKey
+  >;
+}
+
+/**
+ * Options for {@linkcode mapFromAsync.batched}.
+ */
+export interface BatchedMapperOptions {
+  /**
+   * The maximum number of unique keys to load in one batch. When a batch is
+   *  full, it's loaded straight away, and a new batch is started. Must be a
+   *  positive integer, or `Infinity`. Defaults to `Infinity`.
+   */
+  readonly maxBatchSize?: number;
+
+  /**
+   * How long to wait for more keys after the first key of a batch, in
+   *  milliseconds. Defaults to 0, which collects every key requested before
+   *  the next macrotask, like every element of an array mapped with
+   *  {@linkcode AsyncObjectMapper#array}.
+   */
+  readonly batchWindowMs?: number;
+}
+
+/**
+ * The value to use when a mapper function wrapped by
+ *  {@linkcode mapFromAsync.timeout} times out. Either a constant, like `null`
+ *  or {@linkcode OmitProperty}, or a function that's called with the timeout
+ *  error and returns (a promise of) the value.
+ */
+export type MapperFallback<TFallback> =
+  | TFallback
+  | ((error: unknown) => TFallback | Promise<TFallback>);
+
+/**
+ * Options for {@linkcode mapFromAsync.retry}.
+ */
+export interface RetryOptions {
+  /**
+   * The maximum number of times to call the mapper function, including the
+   *  first call. Must be a positive integer.
+   */
+  readonly attempts: number;
+
+  /**
+   * How long to wait before each retry, in milliseconds. Either a number of
+   *  milliseconds, or a function that's called with the number of the attempt
+   *  that failed (starting from 1) and its error. Defaults to 0.
+   */
+  readonly backoff?: number | ((attempt: number, error: unknown) => number);
+
+  /**
+   * Return `false` to stop retrying after an error, like an error that won't
+   *  go away by trying again. Called with the error, and the number of the
+   *  attempt that failed (starting from 1). By default, every error is
+   *  retried.
+   */
+  readonly retryIf?: (error: unknown, attempt: number) => boolean;
+}
@@ -0,0 +1,359 @@
+import { AsyncObjectMapper } from "./async-object-mapper.ts";
+import type {
+  AsyncObjectMapperSchema,
+  AsyncUnionObjectMapperFunction,
+  AsyncUnionObjectMapperVariants,
+} from "./async-types.ts";
+import { mapArrayAsync } from "./array-mapping.ts";
+import { toAsyncMappingResult } from "./error-collection.ts";
+import type { MappingResult } from "./mapping-error.ts";
+import { describeMapperFunction } from "./schema-description.ts";
+import type {
+  ExactReturn,
+  MapOptions,
+  OptionalArgIfUndefined,
+  UnionDiscriminantKey,
+} from "./types.ts";
+import { createUnknownVariantError, toVariantName } from "./union-variants.ts";
+
+/**
+ * An internal type used by {@linkcode AsyncUnionObjectMapper.toFunction()}
+ *
+ * @private
+ */
+interface AsyncUnionObjectMapperFunctionBeingBuilt<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TKey extends UnionDiscriminantKey<TInput>,
+> {
+  (
+    value: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput>>;
+
+  discriminant: TKey;
+
+  variants: AsyncUnionObjectMapperVariants<TInput, TOutput, TContext, TKey>;
+}
+
+/**
+ * Passed to variant mappers when {@linkcode AsyncUnionObjectMapper#map} is
+ *  called without any options.
+ *
+ * @private
+ */
+const noOptions: MapOptions = Object.freeze({});
+
+/**
+ * Convert from a discriminated union of object types to another type, using
+ *  an {@linkcode AsyncObjectMapper} for each variant.
+ *
+ * Instantiate an instance with {@linkcode AsyncObjectMapper.union}, passing
+ *  the name of the discriminant property, and an
+ *  {@linkcode AsyncUnionObjectMapperVariants} object with a schema or mapper
+ *  for every possible value of the discriminant. Each schema's input type is
+ *  narrowed to its variant of the union.
+ *
+ * @example ```ts
+ * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+ *
+ * type Pet =
+ *   | { kind: "cat"; name: string; livesLeft: number }
+ *   | { kind: "dog"; name: string; goodBoy: boolean };
+ *
+ * const petMapper = AsyncObjectMapper.union<Pet, { description: string }>()("kind", {
+ *   cat: { description: async (input) => `${input.name} has ${input.livesLeft} lives left` },
+ *   dog: { description: async (input) => `${input.name} is a good boy: ${input.goodBoy}` },
+ * });
+ *
+ * const output = await petMapper.map({ kind: "dog", name: "Rex", goodBoy: true });
+ * console.log(output);
+ * // --> { description: "Rex is a good boy: true" }
+ * ```
+ *
+ * @group runtime
+ */
+export class AsyncUnionObjectMapper<
+  // The variance annotations let TypeScript compare instances by their type
+  //  arguments, rather than structurally, through every variant's schema.
+  in out TInput extends object,
+  in out TOutput extends object,
+  in out TContext extends object | undefined = undefined,
+  in out TKey extends UnionDiscriminantKey<TInput> = UnionDiscriminantKey<
+    TInput
+  >,
+> {
+  /**
+   * Create an AsyncUnionObjectMapper factory function. Invoke it
+   *  immediately, with the name of the discriminant property and an object
+   *  with a schema or mapper for every variant, to create an
+   *  AsyncUnionObjectMapper instance.
+   *
+   * {@linkcode AsyncObjectMapper.union} is an alias of this method.
+   */
+  public static create<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >() {
+    return function <TKey extends UnionDiscriminantKey<TInput>>(
+      discriminant: TKey,
+      variants: AsyncUnionObjectMapperVariants<TInput, TOutput, TContext, TKey>,
+    ): AsyncUnionObjectMapper<TInput, TOutput, TContext, TKey> {
+      return new AsyncUnionObjectMapper<TInput, TOutput, TContext, TKey>(
+        discriminant,
+        variants,
+      );
+    };
+  }
+
+  /**
+   * Each variant's mapper, keyed by its name. See
+   *  {@linkcode toVariantName}.
+   * @private
+   */
+  protected readonly variantMappers: Map<
+    string,
+    AsyncObjectMapper<TInput, TOutput, TContext>
+  >;
+
+  protected constructor(
+    /**
+     * The name of the input property that determines which variant to use.
+     */
+    public readonly discriminant: TKey,
+    /**
+     * An object, where each property is named after a value of the
+     *  discriminant property, and each value is a schema or mapper for that
+     *  variant.
+     */
+    public readonly variants: AsyncUnionObjectMapperVariants<
+      TInput,
+      TOutput,
+      TContext,
+      TKey
+    >,
+  ) {
+    this.variantMappers = new Map(
+      Object.entries(variants).map(([name, schemaOrMapper]) => [
+        name,
+        schemaOrMapper instanceof AsyncObjectMapper
+          ? schemaOrMapper
+          // Each variant's schema was checked by `AsyncUnionObjectMapper.create()`
+          : AsyncObjectMapper.fromSchema(
+            schemaOrMapper as AsyncObjectMapperSchema<
+              TInput,
+              TOutput,
+              TContext
+            >,
+          ),
+      ]),
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   */
+  array(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput[]>>;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | null,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput[]> | null>;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `undefined`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput[]> | undefined>;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null` or `undefined`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput[]> | null | undefined>;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null` or `undefined`, it will be returned as-is.
+   */
+  async array(
+    input: Iterable<TInput> | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput[]> | null | undefined> {
+    if (input === undefined || input === null) {
+      return input;
+    }
+    return await mapArrayAsync(
+      input,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
+  }
+
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   */
+  map(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput>>;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null`, it will be returned as-is.
+   */
+  map(
+    input: TInput | null,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput> | null>;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `undefined`, it will be returned as-is.
+   */
+  map(
+    input: TInput | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput> | undefined>;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   */
+  map(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): Promise<ExactReturn<TOutput> | null | undefined>;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   *
+   * Rejects with a {@linkcode MappingError}, with the discriminant property
+   *  as its path, if the input's discriminant doesn't match any variant.
+   *  Errors from the variant's mapper are passed through unchanged, since
+   *  the variant's output properties are this mapper's output properties.
+   */
+  async map(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions = noOptions,
+  ): Promise<ExactReturn<TOutput> | null | undefined> {
+    if (input === null || input === undefined) {
+      return input;
+    }
+    return await this.getVariantMapper(input, options).map(
+      input,
+      context,
+      options,
+    );
+  }
+
+  /**
+   * Find the mapper for the variant of an input object.
+   * @private
+   */
+  protected getVariantMapper(
+    input: TInput,
+    options: MapOptions,
+  ): AsyncObjectMapper<TInput, TOutput, TContext> {
+    const tag = input[this.discriminant];
+    const name = toVariantName(tag);
+    const variantMapper = name === undefined
+      ? undefined
+      : this.variantMappers.get(name);
+    if (!variantMapper) {
+      throw createUnknownVariantError(this.discriminant, tag, this, options);
+    }
+    return variantMapper;
+  }
+
+  /**
+   * Maps an input object to an output object, like
+   *  {@linkcode AsyncUnionObjectMapper#map}, but doesn't stop at the first
+   *  error. See {@linkcode AsyncObjectMapper#tryMap}.
+   */
+  tryMap(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<MappingResult<ExactReturn<TOutput>>> {
+    return toAsyncMappingResult(() =>
+      this.map(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, like
+   *  {@linkcode AsyncUnionObjectMapper#array}, but doesn't stop at the first
+   *  error. See {@linkcode AsyncObjectMapper#tryArray}.
+   */
+  tryArray(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): Promise<MappingResult<ExactReturn<TOutput[]>>> {
+    return toAsyncMappingResult(() =>
+      this.array(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Wrap this instance in a function, with `discriminant` and `variants`
+   *  properties.
+   */
+  toFunction(): AsyncUnionObjectMapperFunction<
+    TInput,
+    TOutput,
+    TContext,
+    TKey
+  > {
+    const func: AsyncUnionObjectMapperFunctionBeingBuilt<
+      TInput,
+      TOutput,
+      TContext,
+      TKey
+    > = (
+      value,
+      context,
+      options,
+    ) => this.map(value, context, options);
+    func.discriminant = this.discriminant;
+    func.variants = this.variants;
+    return describeMapperFunction(func, { kind: "nested", mapper: this });
+  }
+}
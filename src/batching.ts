@@ -0,0 +1,163 @@
+import type { BatchedMapperOptions } from "./async-types.ts";
+import { type CallScope, getCallScope } from "./call-scope.ts";
+import { unwrapRecordingInput } from "./lineage-recording.ts";
+import type { MapOptions } from "./types.ts";
+
+/**
+ * A key waiting to be loaded, and how to settle the promises returned for it.
+ *
+ * @private
+ */
+interface PendingLoad<TValue> {
+  readonly promise: Promise<TValue>;
+  resolve(value: TValue): void;
+  reject(error: unknown): void;
+}
+
+/**
+ * Keys collected by a batched mapper function, waiting to be loaded together.
+ *
+ * @private
+ */
+interface Batch<TKey, TValue, TContext> {
+  readonly context: TContext;
+  readonly loads: Map<TKey, PendingLoad<TValue>>;
+  timer?: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Create a mapper function that loads values for many inputs at once. See
+ *  {@linkcode mapFromAsync.batched}.
+ *
+ * @private
+ */
+export function createBatchedMapperFunction<TInput, TKey, TValue, TContext>(
+  keyFn: (input: TInput, context: TContext) => TKey,
+  batchLoadFn: (
+    keys: TKey[],
+    context: TContext,
+  ) => Promise<ReadonlyArray<TValue | Error>>,
+  batchOptions: BatchedMapperOptions = {},
+): (input: TInput, context: TContext, options: MapOptions) => Promise<TValue> {
+  const { maxBatchSize = Infinity, batchWindowMs = 0 } = batchOptions;
+  if (
+    maxBatchSize !== Infinity &&
+    !(Number.isSafeInteger(maxBatchSize) && maxBatchSize >= 1)
+  ) {
+    throw new RangeError(
+      `The maxBatchSize option must be a positive integer or Infinity, but was ${maxBatchSize}`,
+    );
+  }
+
+  const dispatch = (
+    batches: Map<TContext, Batch<TKey, TValue, TContext>>,
+    batch: Batch<TKey, TValue, TContext>,
+  ): void => {
+    clearTimeout(batch.timer);
+    if (batches.get(batch.context) === batch) {
+      batches.delete(batch.context);
+    }
+    const keys = Array.from(batch.loads.keys());
+    const rejectAll = (error: unknown): void => {
+      for (const load of batch.loads.values()) {
+        load.reject(error);
+      }
+    };
+    let resultsPromise: Promise<ReadonlyArray<TValue | Error>>;
+    try {
+      resultsPromise = Promise.resolve(batchLoadFn(keys, batch.context));
+    } catch (error) {
+      rejectAll(error);
+      return;
+    }
+    resultsPromise.then((results) => {
+      if (!Array.isArray(results) || results.length !== keys.length) {
+        throw new Error(
+          `The batch load function must return an array with one result per key, but returned ${
+            Array.isArray(results) ? results.length : typeof results
+          } results for ${keys.length} keys`,
+        );
+      }
+      for (const [index, key] of keys.entries()) {
+        const result = results[index];
+        const load = batch.loads.get(key)!;
+        if (result instanceof Error) {
+          load.reject(result);
+        } else {
+          load.resolve(result);
+        }
+      }
+    }).catch(rejectAll);
+  };
+
+  function batched(
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ): Promise<TValue> {
+    const batches = getBatches<TKey, TValue, TContext>(
+      getCallScope(options),
+      batched,
+    );
+    const key = unwrapRecordingInput(keyFn(input, context));
+    let batch = batches.get(context);
+    if (!batch) {
+      const newBatch: Batch<TKey, TValue, TContext> = {
+        context,
+        loads: new Map(),
+      };
+      newBatch.timer = setTimeout(
+        () => dispatch(batches, newBatch),
+        batchWindowMs,
+      );
+      batches.set(context, newBatch);
+      batch = newBatch;
+    }
+    let load = batch.loads.get(key);
+    if (!load) {
+      load = createPendingLoad<TValue>();
+      batch.loads.set(key, load);
+      if (batch.loads.size >= maxBatchSize) {
+        dispatch(batches, batch);
+      }
+    }
+    return load.promise;
+  }
+  return batched;
+}
+
+/**
+ * Return the waiting batches of a batched mapper function in a call scope, by
+ *  the context they were collected with, so calls with different contexts
+ *  never share a batch.
+ *
+ * @private
+ */
+function getBatches<TKey, TValue, TContext>(
+  scope: CallScope,
+  batchedFunction: object,
+): Map<TContext, Batch<TKey, TValue, TContext>> {
+  let batches = scope.get(batchedFunction) as
+    | Map<TContext, Batch<TKey, TValue, TContext>>
+    | undefined;
+  if (!batches) {
+    batches = new Map();
+    scope.set(batchedFunction, batches);
+  }
+  return batches;
+}
+
+/**
+ * Create a promise, with functions to settle it.
+ *
+ * @private
+ */
+function createPendingLoad<TValue>(): PendingLoad<TValue> {
+  let resolve!: (value: TValue) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<TValue>((resolvePromise, rejectPromise) => {
+    resolve = resolvePromise;
+    reject = rejectPromise;
+  });
+  return { promise, resolve, reject };
+}
@@ -0,0 +1,228 @@
+import { ObjectMapper } from "./object-mapper.ts";
+import type {
+  AllowInputKeyIfInterchangeable,
+  BidirectionalMapperFunctions,
+  BidirectionalMapperSchema,
+  MapperFunction,
+  MapperSchemaValue,
+  ObjectMapperSchema,
+} from "./types.ts";
+
+/**
+ * A {@linkcode BidirectionalMapperSchema}, where the input keys mapped back
+ *  by the `from` side of each {@linkcode BidirectionalMapperFunctions} pair
+ *  are inferred as `TFromKeys`.
+ *
+ * `TFromKeys` is inferred from the keys of each `from` object, so it's
+ *  inferred even when the schema has mapper functions without type
+ *  annotations.
+ *
+ * @private
+ */
+type InferableBidirectionalMapperSchema<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TFromKeys extends keyof TInput,
+> = {
+  [TOutputKey in keyof TOutput]-?:
+    | AllowInputKeyIfInterchangeable<TInput, TOutput[TOutputKey]>
+    | {
+      readonly to: MapperFunction<TInput, TOutput, TContext, TOutputKey>;
+      readonly from:
+        & {
+          readonly [TInputKey in TFromKeys]?: MapperSchemaValue<
+            TOutput,
+            TInput,
+            TContext,
+            TInputKey
+          >;
+        }
+        & BidirectionalMapperFunctions<TInput, TOutput, TContext>["from"];
+    };
+};
+
+/**
+ * The input property names in a {@linkcode BidirectionalMapperSchema}.
+ *
+ * @private
+ */
+type InputKeysOf<TSchema> = {
+  [K in keyof TSchema]: TSchema[K] extends PropertyKey ? TSchema[K] : never;
+}[keyof TSchema];
+
+/**
+ * An empty tuple if every input property is mapped back, otherwise a tuple
+ *  naming the missing input properties. Used as a rest parameter, so missing
+ *  properties are reported as a type error.
+ *
+ * @private
+ */
+type CheckEveryInputKeyIsMappedBack<TMissingKeys> = [TMissingKeys] extends
+  [never] ? []
+  : [inputPropertiesNotMappedBack: TMissingKeys];
+
+/**
+ * Convert from one type of object to another, and back again.
+ *
+ * Instantiate an instance with a {@linkcode BidirectionalMapperSchema}, which
+ *  describes how to map the input type to the output type. The reverse
+ *  schema is built automatically: each input property name in the schema
+ *  maps back from the output property it populates. Output properties that
+ *  use mapper functions must provide a `{ to, from }` pair, where `from`
+ *  describes how to map the output object back to input properties.
+ *
+ * Every input property must be mapped back by the reverse schema. If any are
+ *  missing, {@linkcode BidirectionalMapper.create} will report a type error.
+ *
+ * Use {@linkcode BidirectionalMapper#forward} and
+ *  {@linkcode BidirectionalMapper#reverse}, which are regular
+ *  {@linkcode ObjectMapper} instances.
+ *
+ * @example ```ts
+ * interface UserEntity {
+ *   firstName: string;
+ *   lastName: string;
+ *   username: string;
+ * }
+ *
+ * interface UserDto {
+ *   fullName: string;
+ *   login: string;
+ * }
+ *
+ * const userMapper = BidirectionalMapper.create<UserEntity, UserDto>()({
+ *   fullName: {
+ *     to: (input) => `${input.firstName} ${input.lastName}`,
+ *     from: {
+ *       firstName: (output) => output.fullName.split(" ")[0],
+ *       lastName: (output) => output.fullName.split(" ").slice(1).join(" "),
+ *     },
+ *   },
+ *   login: "username",
+ * });
+ *
+ * const dto = userMapper.forward.map({
+ *   firstName: "Bob",
+ *   lastName: "Terwilliger",
+ *   username: "bterwilliger",
+ * });
+ * // --> { fullName: "Bob Terwilliger", login: "bterwilliger" }
+ *
+ * const entity = userMapper.reverse.map(dto);
+ * // --> { firstName: "Bob", lastName: "Terwilliger", username: "bterwilliger" }
+ * ```
+ *
+ * @group runtime
+ */
+export class BidirectionalMapper<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+> {
+  /**
+   * Create a BidirectionalMapper factory function. Invoke it immediately,
+   *  with a bidirectional mapper schema, to create a BidirectionalMapper
+   *  instance.
+   *
+   * Like {@linkcode ObjectMapper.create}, the schema must only have properties
+   *  that exist in the output type. The schema must also map back to every
+   *  property in the input type.
+   *
+   * @example ```ts
+   * // const mapper = BidirectionalMapper.create<{ in1: string; in2: string }, { out1: string }>()({
+   * //   out1: "in1", // error, nothing maps back to "in2"
+   * // });
+   * ```
+   */
+  public static create<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >() {
+    return function <
+      TSchema extends object,
+      TFromKeys extends keyof TInput = never,
+    >(
+      schema:
+        & {
+          [K in keyof TSchema]: K extends keyof TOutput ? TSchema[K] : never;
+        }
+        & InferableBidirectionalMapperSchema<
+          TInput,
+          TOutput,
+          TContext,
+          TFromKeys
+        >,
+      ..._check: CheckEveryInputKeyIsMappedBack<
+        Exclude<keyof TInput, InputKeysOf<TSchema> | TFromKeys>
+      >
+    ): BidirectionalMapper<TInput, TOutput, TContext> {
+      return new BidirectionalMapper<TInput, TOutput, TContext>(
+        schema as BidirectionalMapperSchema<TInput, TOutput, TContext>,
+      );
+    };
+  }
+
+  /**
+   * Maps the input type to the output type.
+   */
+  public readonly forward: ObjectMapper<TInput, TOutput, TContext>;
+
+  /**
+   * Maps the output type back to the input type.
+   */
+  public readonly reverse: ObjectMapper<TOutput, TInput, TContext>;
+
+  protected constructor(
+    /**
+     * An object, where each property is named after a property on the output
+     *  type, and each value is either a string of a property name from the
+     *  input type, or a `{ to, from }` pair of mapper functions.
+     */
+    public readonly schema: BidirectionalMapperSchema<
+      TInput,
+      TOutput,
+      TContext
+    >,
+  ) {
+    const forwardSchema: Record<string, unknown> = {};
+    const reverseSchema: Record<string, unknown> = {};
+    const addReverseEntry = (inputKey: string, value: unknown): void => {
+      if (Object.hasOwn(reverseSchema, inputKey)) {
+        throw new Error(
+          `Input property "${inputKey}" is mapped back from more than one output property`,
+        );
+      }
+      reverseSchema[inputKey] = value;
+    };
+    for (const [outputKey, value] of Object.entries(schema)) {
+      if (typeof value === "string") {
+        forwardSchema[outputKey] = value;
+        addReverseEntry(value, outputKey);
+      } else {
+        const { to, from } = value as BidirectionalMapperFunctions<
+          TInput,
+          TOutput,
+          TContext
+        >;
+        forwardSchema[outputKey] = to;
+        for (const [inputKey, reverseValue] of Object.entries(from)) {
+          addReverseEntry(
+            inputKey,
+            reverseValue as MapperSchemaValue<TOutput, TInput, TContext>,
+          );
+        }
+      }
+    }
+    // The schemas are built at runtime from a schema that
+    //  `BidirectionalMapper.create()` already checked, with a value for every
+    //  key.
+    this.forward = ObjectMapper.fromSchema(
+      forwardSchema as ObjectMapperSchema<TInput, TOutput, TContext>,
+    );
+    this.reverse = ObjectMapper.fromSchema(
+      reverseSchema as ObjectMapperSchema<TOutput, TInput, TContext>,
+    );
+  }
+}
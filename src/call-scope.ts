@@ -0,0 +1,57 @@
+import type { MapOptions } from "./types.ts";
+
+const callScopeKey = Symbol("callScope");
+
+/**
+ * State kept for the length of one top-level mapping call, keyed by the mapper
+ *  function that owns it. Functions from {@linkcode mapFromAsync.batched} keep
+ *  their waiting batches here, and functions from
+ *  {@linkcode mapFromAsync.shared} keep their results.
+ *
+ * @private
+ */
+export type CallScope = Map<object, unknown>;
+
+/**
+ * {@linkcode MapOptions}, with the scope of the top-level mapping call they
+ *  were passed to.
+ *
+ * @private
+ */
+interface ScopedMapOptions extends MapOptions {
+  readonly [callScopeKey]?: CallScope;
+}
+
+/**
+ * Return options for a top-level mapping call, with a new call scope, so
+ *  functions from {@linkcode mapFromAsync.batched} and
+ *  {@linkcode mapFromAsync.shared} only share state with other calls made while
+ *  mapping the same input. The scope is released with the options, once the
+ *  call finishes.
+ *
+ * If the options already have a call scope, because they were passed on from
+ *  a parent mapper, they're returned as-is.
+ *
+ * @private
+ */
+export function withCallScope(options: MapOptions | undefined): MapOptions {
+  if (options && callScopeKey in options) {
+    return options;
+  }
+  const scopedOptions: ScopedMapOptions = {
+    ...options,
+    [callScopeKey]: new Map(),
+  };
+  return scopedOptions;
+}
+
+/**
+ * Return the call scope of some options. If they don't have one, like when a
+ *  mapper function is called directly, a new scope is returned, which isn't
+ *  shared with any other call.
+ *
+ * @private
+ */
+export function getCallScope(options: MapOptions | undefined): CallScope {
+  return (withCallScope(options) as ScopedMapOptions)[callScopeKey]!;
+}
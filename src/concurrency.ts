@@ -0,0 +1,130 @@
+/**
+ * Throw a `RangeError` if a {@linkcode MapOptions#concurrency} limit isn't a
+ *  positive integer or `Infinity`.
+ *
+ * @private
+ */
+function assertValidConcurrency(concurrency: number): void {
+  if (
+    concurrency !== Infinity &&
+    (!Number.isSafeInteger(concurrency) || concurrency < 1)
+  ) {
+    throw new RangeError(
+      `The concurrency option must be a positive integer or Infinity, but was ${concurrency}`,
+    );
+  }
+}
+
+/**
+ * Map each item of an iterable with an async function, with at most
+ *  `concurrency` items in flight at once. The results are in the same order
+ *  as the items, regardless of the order the promises settle in.
+ *
+ * Items are read from the iterable as they're needed, so a lazy iterable is
+ *  never read far ahead of the items being mapped.
+ *
+ * If any promise rejects, the returned promise rejects with that error, no
+ *  more items are started, and the iterable is closed by calling its
+ *  iterator's `return()` method.
+ *
+ * @private
+ */
+export async function mapWithConcurrencyLimit<TItem, TResult>(
+  items: Iterable<TItem>,
+  concurrency: number,
+  mapItem: (item: TItem, index: number) => Promise<TResult>,
+): Promise<TResult[]> {
+  assertValidConcurrency(concurrency);
+  if (concurrency === Infinity) {
+    items = Array.from(items);
+  }
+  const iterator = items[Symbol.iterator]();
+  const results: TResult[] = [];
+  let nextIndex = 0;
+  let sourceDone = false;
+  let failed = false;
+  const mapNextItems = async (): Promise<void> => {
+    while (!failed) {
+      const next = iterator.next();
+      if (next.done) {
+        sourceDone = true;
+        return;
+      }
+      const index = nextIndex++;
+      try {
+        results[index] = await mapItem(next.value, index);
+      } catch (error) {
+        if (!failed) {
+          failed = true;
+          if (!sourceDone) {
+            iterator.return?.();
+          }
+        }
+        throw error;
+      }
+    }
+  };
+  const workerCount = Array.isArray(items)
+    ? Math.min(concurrency, items.length)
+    : concurrency;
+  await Promise.all(Array.from({ length: workerCount }, mapNextItems));
+  return results;
+}
+
+/**
+ * Map each item of an iterable or async iterable with a (possibly async)
+ *  function, yielding the results in the same order as the items.
+ *
+ * Up to `concurrency` items are mapped ahead of the consumer. Items are only
+ *  read from the source when there's room for them, so a slow consumer
+ *  applies backpressure to the source.
+ *
+ * If the consumer stops early, like by breaking out of a `for await` loop,
+ *  the source is closed by calling its `return()` method. If any item fails
+ *  to map, the error is thrown to the consumer, and the source is closed.
+ *
+ * @private
+ */
+export async function* streamWithConcurrencyLimit<TItem, TResult>(
+  source: Iterable<TItem> | AsyncIterable<TItem>,
+  concurrency: number,
+  mapItem: (item: TItem, index: number) => TResult | Promise<TResult>,
+): AsyncGenerator<TResult, void, undefined> {
+  assertValidConcurrency(concurrency);
+  const iterator: Iterator<TItem> | AsyncIterator<TItem> =
+    Symbol.asyncIterator in source
+      ? source[Symbol.asyncIterator]()
+      : source[Symbol.iterator]();
+  const pending: Promise<TResult>[] = [];
+  let index = 0;
+  let sourceDone = false;
+  try {
+    while (true) {
+      while (!sourceDone && pending.length < concurrency) {
+        const next = await iterator.next();
+        if (next.done) {
+          sourceDone = true;
+        } else {
+          const itemIndex = index++;
+          const result = Promise.resolve().then(() =>
+            mapItem(next.value, itemIndex)
+          );
+          // Rejections are handled when the result is yielded. This stops
+          //  results that reject while waiting from being reported as
+          //  unhandled.
+          result.catch(() => {});
+          pending.push(result);
+        }
+      }
+      const result = pending.shift();
+      if (!result) {
+        return;
+      }
+      yield await result;
+    }
+  } finally {
+    if (!sourceDone) {
+      await iterator.return?.();
+    }
+  }
+}
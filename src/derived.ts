@@ -0,0 +1,161 @@
+import { OmitProperty } from "./omit-property.ts";
+
+/**
+ * The shape shared by every {@linkcode DerivedProperty}, whatever its types.
+ *
+ * @private
+ */
+interface AnyDerivedProperty {
+  readonly dependencies: readonly PropertyKey[];
+}
+
+/**
+ * Used to determine if a schema value is a {@linkcode DerivedProperty},
+ *  rather than a mapper function or a property name.
+ *
+ * @private
+ */
+function isAnyDerivedProperty(value: unknown): value is AnyDerivedProperty {
+  return typeof value === "object" && value !== null;
+}
+
+/**
+ * Order the entries of a schema so that each derived property comes after
+ *  the properties it depends on. Other entries keep their schema order. This
+ *  is only the order properties are mapped in: use
+ *  {@linkcode getOutputOrder} to build outputs in schema order.
+ *
+ * Throws an `Error` if derived properties depend on each other in a cycle, or
+ *  on a property that isn't in the schema.
+ *
+ * @private
+ */
+export function sortByDependencies<TKey extends PropertyKey, TValue>(
+  entries: readonly (readonly [TKey, TValue])[],
+): [TKey, TValue][] {
+  const values = new Map(entries);
+  const sorted: [TKey, TValue][] = [];
+  const visited = new Set<TKey>();
+  const visiting: TKey[] = [];
+  const visit = (key: TKey): void => {
+    if (visited.has(key)) {
+      return;
+    }
+    const cycleStart = visiting.indexOf(key);
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), key].map(String);
+      throw new Error(
+        `Derived properties can't depend on each other in a cycle: ${
+          cycle.join(" -> ")
+        }`,
+      );
+    }
+    const value = values.get(key)!;
+    if (isAnyDerivedProperty(value)) {
+      visiting.push(key);
+      for (const dependency of value.dependencies as readonly TKey[]) {
+        if (!values.has(dependency)) {
+          throw new Error(
+            `Derived property ${String(key)} depends on ${
+              String(dependency)
+            }, which isn't in the schema`,
+          );
+        }
+        visit(dependency);
+      }
+      visiting.pop();
+    }
+    visited.add(key);
+    sorted.push([key, value]);
+  };
+  for (const [key] of entries) {
+    visit(key);
+  }
+  return sorted;
+}
+
+/**
+ * Return the keys of a schema, in schema order, if
+ *  {@linkcode sortByDependencies} moved any of them to map a derived property
+ *  after its dependencies. Otherwise, return `undefined`, because outputs are
+ *  already built in schema order.
+ *
+ * @private
+ */
+export function getOutputOrder<TKey extends PropertyKey>(
+  schemaKeys: readonly TKey[],
+  sortedKeys: Iterable<TKey>,
+): readonly TKey[] | undefined {
+  let index = 0;
+  for (const key of sortedKeys) {
+    if (key !== schemaKeys[index++]) {
+      return schemaKeys;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Copy the properties of an output object into a new object, in the order
+ *  returned by {@linkcode getOutputOrder}. Properties that were omitted from
+ *  the output are left out.
+ *
+ * @private
+ */
+export function toOutputOrder(
+  output: Readonly<Record<PropertyKey, unknown>>,
+  outputOrder: readonly PropertyKey[],
+): Record<PropertyKey, unknown> {
+  const orderedOutput: Record<PropertyKey, unknown> = {};
+  for (const key of outputOrder) {
+    if (Object.hasOwn(output, key)) {
+      orderedOutput[key] = output[key];
+    }
+  }
+  return orderedOutput;
+}
+
+/**
+ * Copy the mapped values of a derived property's dependencies into a new
+ *  object, to pass to {@linkcode DerivedProperty#derive}. Dependencies that
+ *  were omitted from the output are left out.
+ *
+ * @private
+ */
+export function pickDependencies(
+  output: Readonly<Record<PropertyKey, unknown>>,
+  dependencies: readonly PropertyKey[],
+): Record<PropertyKey, unknown> {
+  const partialOutput: Record<PropertyKey, unknown> = {};
+  for (const dependency of dependencies) {
+    if (Object.hasOwn(output, dependency)) {
+      partialOutput[dependency] = output[dependency];
+    }
+  }
+  return partialOutput;
+}
+
+/**
+ * Wait for the mapped values of a derived property's dependencies, and copy
+ *  them into a new object, to pass to {@linkcode DerivedProperty#derive}.
+ *  Dependencies that were omitted from the output are left out.
+ *
+ * Rejects if any dependency rejects.
+ *
+ * @private
+ */
+export async function awaitDependencies(
+  mappedValues: ReadonlyMap<PropertyKey, Promise<unknown>>,
+  dependencies: readonly PropertyKey[],
+): Promise<Record<PropertyKey, unknown>> {
+  const values = await Promise.all(
+    dependencies.map((dependency) => mappedValues.get(dependency)),
+  );
+  const partialOutput: Record<PropertyKey, unknown> = {};
+  for (const [index, dependency] of dependencies.entries()) {
+    if (values[index] !== OmitProperty) {
+      partialOutput[dependency] = values[index];
+    }
+  }
+  return partialOutput;
+}
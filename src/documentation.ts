@@ -0,0 +1,268 @@
+import type { PropertyDescription } from "./types.ts";
+
+/**
+ * A mapper that can be documented by {@linkcode MapperDocumentation}, like an
+ *  {@linkcode ObjectMapper} or {@linkcode AsyncObjectMapper}.
+ */
+export interface DescribableMapper {
+  describe(): { readonly [key: string]: PropertyDescription };
+}
+
+/**
+ * Escape text for a cell of a Markdown table.
+ *
+ * @private
+ */
+function escapeTableCell(text: string): string {
+  return text.replaceAll("|", "\\|").replaceAll("\n", " ");
+}
+
+/**
+ * Return the anchors that GitHub and most other Markdown renderers give some
+ *  headings, in the order they appear, like `#user-dto` for `User DTO`.
+ *  Headings with the same slug get a numbered suffix, like `#user-dto-1`.
+ *
+ * @private
+ */
+function headingAnchors(headings: readonly string[]): Map<string, string> {
+  const occurrences = new Map<string, number>();
+  const anchors = new Map<string, string>();
+  for (const heading of headings) {
+    const baseSlug = heading
+      .trim()
+      .toLowerCase()
+      .replace(/[^\p{L}\p{N} _-]/gu, "")
+      .replaceAll(" ", "-");
+    let slug = baseSlug;
+    while (occurrences.has(slug)) {
+      const count = occurrences.get(baseSlug)! + 1;
+      occurrences.set(baseSlug, count);
+      slug = `${baseSlug}-${count}`;
+    }
+    occurrences.set(slug, 0);
+    anchors.set(heading, `#${slug}`);
+  }
+  return anchors;
+}
+
+/**
+ * Escape text for a quoted label in a Mermaid diagram, using Mermaid's entity
+ *  codes.
+ *
+ * @private
+ */
+function escapeMermaidText(text: string): string {
+  return text
+    .replaceAll("#", "#35;")
+    .replaceAll('"', "#quot;")
+    .replaceAll("|", "#124;")
+    .replaceAll("[", "#91;")
+    .replaceAll("]", "#93;")
+    .replaceAll("<", "#lt;")
+    .replaceAll(">", "#gt;")
+    .replaceAll("\n", "#10;");
+}
+
+/**
+ * Format a constant value for a Markdown table, like `"user"` or `null`.
+ *
+ * @private
+ */
+function formatConstant(value: unknown): string {
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Generates documentation from the schemas of some mappers, using
+ *  {@linkcode ObjectMapper#describe}, so the docs can be regenerated whenever
+ *  a schema changes, instead of drifting from it.
+ *
+ * Each mapper is given a name, like the name of its output type, which is
+ *  used for headings and to link to it from other mappers.
+ *  {@linkcode MapperDocumentation#toMarkdown} lists where each output property
+ *  comes from, and {@linkcode MapperDocumentation#toMermaid} draws how the
+ *  mappers are nested.
+ *
+ * A property is shown as a nested mapper when its schema value is another
+ *  mapper's `toFunction()`. Other mapper functions, even ones that call a
+ *  mapper, are shown by their function name. Nested mappers that weren't
+ *  given a name aren't linked to, and aren't drawn in the diagram.
+ *
+ * @example ```ts
+ * import { mapFrom } from "./map-from.ts";
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const addressMapper = ObjectMapper.create<
+ *   { address: { line1: string } },
+ *   { street: string }
+ * >()({
+ *   street: "address.line1",
+ * });
+ * const userMapper = ObjectMapper.create<
+ *   { id: number; address: { line1: string } },
+ *   { userId: number; kind: string; address: { street: string } }
+ * >()({
+ *   userId: "id",
+ *   kind: mapFrom.constant("user"),
+ *   address: addressMapper.toFunction(),
+ * });
+ *
+ * const documentation = new MapperDocumentation({
+ *   UserDto: userMapper,
+ *   AddressDto: addressMapper,
+ * });
+ *
+ * console.log(documentation.toMarkdown());
+ * // ## UserDto
+ * //
+ * // | Output key | Source                                  |
+ * // | ---------- | --------------------------------------- |
+ * // | `userId`   | Input key `id`                          |
+ * // | `kind`     | Constant `"user"`                       |
+ * // | `address`  | Nested mapper [AddressDto](#addressdto) |
+ * //
+ * // ## AddressDto
+ * // ...
+ *
+ * console.log(documentation.toMermaid());
+ * // flowchart LR
+ * //   mapper0["UserDto"]
+ * //   mapper1["AddressDto"]
+ * //   mapper0 -->|"address"| mapper1
+ * ```
+ *
+ * @group runtime
+ */
+export class MapperDocumentation {
+  /**
+   * The anchor of each mapper's heading, by name.
+   */
+  protected readonly anchors: ReadonlyMap<string, string>;
+
+  constructor(
+    /**
+     * The mappers to document, by name, in the order they should be listed.
+     */
+    public readonly mappers: Readonly<Record<string, DescribableMapper>>,
+  ) {
+    this.anchors = headingAnchors(Object.keys(mappers));
+  }
+
+  /**
+   * Format the documentation as Markdown, with a heading and a table for
+   *  each mapper. Each row of a table shows an output property, and its
+   *  source: an input key, a constant, omitted, a nested mapper, derived
+   *  from other output properties, or a mapper function's name.
+   *
+   * Headings are level 2 (`##`) by default, so the Markdown can be included
+   *  under a page's own title.
+   */
+  toMarkdown(headingLevel = 2): string {
+    const headingPrefix = "#".repeat(headingLevel);
+    return Object.entries(this.mappers)
+      .map(([name, mapper]) => {
+        const rows = Object.entries(mapper.describe()).map((
+          [key, description],
+        ) => [`\`${escapeTableCell(key)}\``, this.formatSource(description)]);
+        const header = ["Output key", "Source"];
+        const widths = header.map((title, column) =>
+          Math.max(title.length, ...rows.map((row) => row[column].length))
+        );
+        const formatRow = (row: readonly string[]): string =>
+          `| ${
+            row.map((cell, column) => cell.padEnd(widths[column])).join(" | ")
+          } |`;
+        return [
+          `${headingPrefix} ${name}`,
+          "",
+          formatRow(header),
+          formatRow(widths.map((width) => "-".repeat(width))),
+          ...rows.map(formatRow),
+        ].join("\n");
+      })
+      .join("\n\n") + "\n";
+  }
+
+  /**
+   * Format a Mermaid flowchart, with a node for each mapper, and an arrow
+   *  from each mapper to the mappers nested in it, labelled with the output
+   *  property. Names and labels are quoted, and characters that Mermaid
+   *  would parse are escaped with entity codes, like `#quot;`.
+   */
+  toMermaid(): string {
+    const nodeIds = new Map<DescribableMapper, string>();
+    const lines = ["flowchart LR"];
+    for (const [name, mapper] of Object.entries(this.mappers)) {
+      const nodeId = `mapper${nodeIds.size}`;
+      nodeIds.set(mapper, nodeId);
+      lines.push(`  ${nodeId}["${escapeMermaidText(name)}"]`);
+    }
+    for (const mapper of Object.values(this.mappers)) {
+      for (const [key, description] of Object.entries(mapper.describe())) {
+        const nestedNodeId = description.kind === "nested"
+          ? nodeIds.get(description.mapper as DescribableMapper)
+          : undefined;
+        if (nestedNodeId !== undefined) {
+          lines.push(
+            `  ${nodeIds.get(mapper)} -->|"${
+              escapeMermaidText(key)
+            }"| ${nestedNodeId}`,
+          );
+        }
+      }
+    }
+    return lines.join("\n") + "\n";
+  }
+
+  /**
+   * Describe the source of an output property, for a cell of a Markdown
+   *  table.
+   */
+  protected formatSource(description: PropertyDescription): string {
+    switch (description.kind) {
+      case "inputKey":
+        return `Input key \`${escapeTableCell(description.inputKey)}\``;
+      case "constant":
+        return `Constant \`${
+          escapeTableCell(formatConstant(description.value))
+        }\``;
+      case "omit":
+        return "Omitted";
+      case "nested": {
+        const name = this.getName(description.mapper);
+        return name === undefined
+          ? "Nested mapper"
+          : `Nested mapper [${escapeTableCell(name)}](${
+            this.anchors.get(name)
+          })`;
+      }
+      case "derived":
+        return `Derived from ${
+          description.dependencies
+            .map((dependency) => `\`${escapeTableCell(String(dependency))}\``)
+            .join(", ")
+        }`;
+      case "function":
+        return description.name === ""
+          ? "Function"
+          : `Function \`${escapeTableCell(description.name)}\``;
+    }
+  }
+
+  /**
+   * Return the name a mapper was given, or `undefined` if it isn't being
+   *  documented.
+   */
+  protected getName(mapper: object): string | undefined {
+    return Object.entries(this.mappers).find(([, documented]) =>
+      documented === mapper
+    )?.[0];
+  }
+}
@@ -0,0 +1,100 @@
+import {
+  AggregateMappingError,
+  type AnyObjectMapper,
+  MappingError,
+  type MappingPathSegment,
+  type MappingResult,
+} from "./mapping-error.ts";
+
+/**
+ * Add an output property name or array index to the start of the path of an
+ *  error thrown while mapping. Errors that aren't already a
+ *  {@linkcode MappingError} are wrapped in one.
+ *
+ * @private
+ */
+export function prependMappingPath(
+  error: unknown,
+  segment: MappingPathSegment,
+  mapper: AnyObjectMapper,
+): MappingError {
+  return error instanceof MappingError
+    ? new MappingError(
+      [segment, ...error.pathSegments],
+      error.mapper,
+      error.cause,
+    )
+    : new MappingError([segment], mapper, error);
+}
+
+/**
+ * Add an output property name or array index to the start of the path of
+ *  each error thrown while mapping with the
+ *  {@linkcode MapOptions#collectErrors} option. An
+ *  {@linkcode AggregateMappingError} thrown by a nested mapper is flattened
+ *  into its errors.
+ *
+ * @private
+ */
+export function collectMappingErrors(
+  error: unknown,
+  segment: MappingPathSegment,
+  mapper: AnyObjectMapper,
+): MappingError[] {
+  return error instanceof AggregateMappingError
+    ? error.errors.map((error) => prependMappingPath(error, segment, mapper))
+    : [prependMappingPath(error, segment, mapper)];
+}
+
+/**
+ * Convert the outcome of mapping with the {@linkcode MapOptions#collectErrors}
+ *  option into a {@linkcode MappingResult}.
+ *
+ * @private
+ */
+export function toMappingResult<T>(
+  mapWithCollectedErrors: () => T,
+): MappingResult<T> {
+  try {
+    return { ok: true, value: mapWithCollectedErrors() };
+  } catch (error) {
+    return toFailedMappingResult(error);
+  }
+}
+
+/**
+ * Convert the outcome of mapping asynchronously with the
+ *  {@linkcode MapOptions#collectErrors} option into a
+ *  {@linkcode MappingResult}.
+ *
+ * @private
+ */
+export async function toAsyncMappingResult<T>(
+  mapWithCollectedErrors: () => Promise<T>,
+): Promise<MappingResult<T>> {
+  try {
+    return { ok: true, value: await mapWithCollectedErrors() };
+  } catch (error) {
+    return toFailedMappingResult(error);
+  }
+}
+
+/**
+ * Convert an error thrown while mapping with the
+ *  {@linkcode MapOptions#collectErrors} option into a failed
+ *  {@linkcode MappingResult}. Any other error is re-thrown.
+ *
+ * @private
+ */
+export function toFailedMappingResult<T>(error: unknown): MappingResult<T> {
+  if (!(error instanceof AggregateMappingError)) {
+    throw error;
+  }
+  return {
+    ok: false,
+    errors: error.errors.map((error) => ({
+      path: error.path,
+      error: error.cause,
+    })),
+  };
+}
@@ -0,0 +1,671 @@
+import type { AsyncObjectMapper } from "./async-object-mapper.ts";
+import { MappingError } from "./mapping-error.ts";
+import type { ObjectMapper } from "./object-mapper.ts";
+import { MapperAssertionError } from "./testing.ts";
+import type { OptionalArgIfUndefined } from "./types.ts";
+
+/**
+ * A seeded pseudo-random number generator, so a fuzzing run can be replayed
+ *  by passing the same seed to {@linkcode fuzzMapper}. Uses the mulberry32
+ *  algorithm, which is fast but not cryptographically secure.
+ */
+export class FuzzRandom {
+  protected state: number;
+
+  constructor(
+    /**
+     * The seed, as an unsigned 32-bit integer.
+     */
+    public readonly seed: number,
+  ) {
+    this.state = seed >>> 0;
+  }
+
+  /**
+   * Return a number from 0 (inclusive) to 1 (exclusive).
+   */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) | 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /**
+   * Return an integer from `min` to `max`, inclusive.
+   */
+  integer(min: number, max: number): number {
+    return Math.min(max, min + Math.floor(this.next() * (max - min + 1)));
+  }
+
+  /**
+   * Return one of the values, chosen at random.
+   */
+  pick<T>(values: readonly T[]): T {
+    return values[this.integer(0, values.length - 1)];
+  }
+}
+
+/**
+ * Generates random values for {@linkcode fuzzMapper}, and shrinks a value
+ *  that made a mapper fail, to find a simpler value that still fails.
+ *
+ * Create them with the functions in {@linkcode arbitrary}.
+ */
+export interface Arbitrary<T> {
+  /**
+   * Return a random value.
+   */
+  generate(random: FuzzRandom): T;
+
+  /**
+   * Return simpler versions of a value, simplest first, like `""` for a
+   *  string.
+   */
+  shrink(value: T): Iterable<T>;
+}
+
+/**
+ * Generates inputs or contexts for {@linkcode fuzzMapper}: either an
+ *  {@linkcode Arbitrary}, or a function that returns a random value. Values
+ *  returned by a function aren't shrunk.
+ */
+export type FuzzGenerator<T> = Arbitrary<T> | ((random: FuzzRandom) => T);
+
+/**
+ * How often an {@linkcode Arbitrary} generates one of its edge cases, like
+ *  an empty string, instead of a random value.
+ *
+ * @private
+ */
+const edgeCaseProbability = 0.25;
+
+/**
+ * Create an {@linkcode Arbitrary} that's biased towards some edge cases.
+ *
+ * @private
+ */
+function createArbitrary<T>(
+  edgeCases: readonly T[],
+  generateRandom: (random: FuzzRandom) => T,
+  shrink: (value: T) => Iterable<T>,
+): Arbitrary<T> {
+  return {
+    generate(random) {
+      return edgeCases.length > 0 && random.next() < edgeCaseProbability
+        ? random.pick(edgeCases)
+        : generateRandom(random);
+    },
+    shrink,
+  };
+}
+
+/**
+ * Return numbers between `value` and `target`, closest to `target` first.
+ *
+ * @private
+ */
+function* shrinkNumberTowards(
+  value: number,
+  target: number,
+  integer: boolean,
+): Iterable<number> {
+  if (Object.is(value, target) || Number.isNaN(value)) {
+    if (Number.isNaN(value)) {
+      yield target;
+    }
+    return;
+  }
+  yield target;
+  if (!Number.isFinite(value)) {
+    return;
+  }
+  const half = value - (value - target) / 2;
+  const rounded = integer ? Math.trunc(half) : half;
+  if (rounded !== target && rounded !== value) {
+    yield rounded;
+  }
+  if (integer) {
+    const step = value - Math.sign(value - target);
+    if (step !== target && step !== rounded) {
+      yield step;
+    }
+  } else if (!Number.isInteger(value)) {
+    yield Math.trunc(value);
+  }
+}
+
+/**
+ * Return each array with one element removed.
+ *
+ * @private
+ */
+function* removeEachElement<T>(values: readonly T[]): Iterable<T[]> {
+  for (let index = 0; index < values.length; index++) {
+    yield [...values.slice(0, index), ...values.slice(index + 1)];
+  }
+}
+
+/**
+ * Functions to create an {@linkcode Arbitrary} for each kind of value, for
+ *  describing the fields of the input objects to pass to
+ *  {@linkcode fuzzMapper}.
+ *
+ * Each is biased towards edge cases that mapper functions often mishandle,
+ *  like empty strings, zero, and huge numbers.
+ *
+ * ```ts
+ * const userInput = arbitrary.object({
+ *   name: arbitrary.string(),
+ *   age: arbitrary.optional(arbitrary.integer({ min: 0 })),
+ *   tags: arbitrary.array(arbitrary.string()),
+ * });
+ * ```
+ *
+ * @category runtime
+ */
+export const arbitrary = {
+  /**
+   * Generate strings of printable ASCII characters, up to `maxLength`
+   *  characters long. Edge cases include the empty string, whitespace and
+   *  non-ASCII characters.
+   */
+  string(
+    this: void,
+    { maxLength = 20 }: { maxLength?: number } = {},
+  ): Arbitrary<string> {
+    return createArbitrary(
+      ["", " ", "0", "null", "\n", "é", "🦊"].filter((value) =>
+        value.length <= maxLength
+      ),
+      (random) =>
+        String.fromCharCode(
+          ...Array.from(
+            { length: random.integer(0, maxLength) },
+            () => random.integer(0x20, 0x7e),
+          ),
+        ),
+      function* (value) {
+        if (value === "") {
+          return;
+        }
+        yield "";
+        if (value.length > 1) {
+          yield value.slice(0, Math.floor(value.length / 2));
+        }
+        if (value.length > 2) {
+          yield value.slice(0, -1);
+        }
+      },
+    );
+  },
+
+  /**
+   * Generate integers from `min` to `max`, which default to the range of
+   *  safe integers. Edge cases include zero, one, minus one, and the bounds.
+   */
+  integer(
+    this: void,
+    {
+      min = Number.MIN_SAFE_INTEGER,
+      max = Number.MAX_SAFE_INTEGER,
+    }: { min?: number; max?: number } = {},
+  ): Arbitrary<number> {
+    const target = Math.min(Math.max(0, min), max);
+    return createArbitrary(
+      [0, 1, -1, min, max].filter((value) => value >= min && value <= max),
+      (random) => random.integer(min, max),
+      (value) => shrinkNumberTowards(value, target, true),
+    );
+  },
+
+  /**
+   * Generate any number, including fractions, huge numbers, `-0`,
+   *  `Infinity`, `-Infinity` and `NaN`.
+   */
+  number(this: void): Arbitrary<number> {
+    return createArbitrary(
+      [
+        0,
+        -0,
+        1,
+        -1,
+        0.5,
+        Number.MIN_VALUE,
+        Number.MAX_SAFE_INTEGER + 1,
+        Number.MAX_VALUE,
+        -Number.MAX_VALUE,
+        Infinity,
+        -Infinity,
+        NaN,
+      ],
+      (random) => (random.next() * 2 - 1) * 10 ** random.integer(0, 20),
+      (value) => shrinkNumberTowards(value, 0, false),
+    );
+  },
+
+  /**
+   * Generate `true` or `false`.
+   */
+  boolean(this: void): Arbitrary<boolean> {
+    return createArbitrary(
+      [],
+      (random) => random.next() < 0.5,
+      function* (value) {
+        if (value) {
+          yield false;
+        }
+      },
+    );
+  },
+
+  /**
+   * Always generate the same value.
+   */
+  constant<T>(this: void, value: T): Arbitrary<T> {
+    return createArbitrary([], () => value, () => []);
+  },
+
+  /**
+   * Generate one of the given values. Values earlier in the list are treated
+   *  as simpler, when shrinking.
+   */
+  oneOf<const T>(this: void, ...values: readonly T[]): Arbitrary<T> {
+    return createArbitrary(
+      [],
+      (random) => random.pick(values),
+      (value) => values.slice(0, values.indexOf(value)),
+    );
+  },
+
+  /**
+   * Generate `undefined`, or a value from another {@linkcode Arbitrary}.
+   */
+  optional<T>(this: void, value: Arbitrary<T>): Arbitrary<T | undefined> {
+    return createArbitrary<T | undefined>(
+      [undefined],
+      (random) => value.generate(random),
+      function* (current) {
+        if (current !== undefined) {
+          yield undefined;
+          yield* value.shrink(current);
+        }
+      },
+    );
+  },
+
+  /**
+   * Generate `null`, or a value from another {@linkcode Arbitrary}.
+   */
+  nullable<T>(this: void, value: Arbitrary<T>): Arbitrary<T | null> {
+    return createArbitrary<T | null>(
+      [null],
+      (random) => value.generate(random),
+      function* (current) {
+        if (current !== null) {
+          yield null;
+          yield* value.shrink(current);
+        }
+      },
+    );
+  },
+
+  /**
+   * Generate arrays of values from another {@linkcode Arbitrary}, up to
+   *  `maxLength` elements long. The empty array is an edge case.
+   */
+  array<T>(
+    this: void,
+    element: Arbitrary<T>,
+    { maxLength = 10 }: { maxLength?: number } = {},
+  ): Arbitrary<T[]> {
+    return createArbitrary<T[]>(
+      [],
+      (random) =>
+        random.next() < edgeCaseProbability ? [] : Array.from(
+          { length: random.integer(0, maxLength) },
+          () => element.generate(random),
+        ),
+      function* (values) {
+        if (values.length === 0) {
+          return;
+        }
+        yield [];
+        if (values.length > 1) {
+          yield* removeEachElement(values);
+        }
+        for (let index = 0; index < values.length; index++) {
+          for (const shrunk of element.shrink(values[index])) {
+            yield values.with(index, shrunk);
+          }
+        }
+      },
+    );
+  },
+
+  /**
+   * Generate objects, with a value from an {@linkcode Arbitrary} for each
+   *  property. Properties whose value is `undefined` are left out of the
+   *  object.
+   */
+  object<T extends object>(
+    this: void,
+    fields: { readonly [TKey in keyof T]-?: Arbitrary<T[TKey]> },
+  ): Arbitrary<T> {
+    const entries = Object.entries(fields) as [string, Arbitrary<unknown>][];
+    const createObject = (values: Iterable<[string, unknown]>): T => {
+      const object: Record<string, unknown> = {};
+      for (const [key, value] of values) {
+        if (value !== undefined) {
+          object[key] = value;
+        }
+      }
+      return object as T;
+    };
+    return createArbitrary(
+      [],
+      (random) =>
+        createObject(
+          entries.map(([key, field]) => [key, field.generate(random)]),
+        ),
+      function* (current) {
+        for (const [key, field] of entries) {
+          const value = (current as Record<string, unknown>)[key];
+          for (const shrunk of field.shrink(value)) {
+            yield createObject(
+              entries.map(([otherKey]) => [
+                otherKey,
+                otherKey === key
+                  ? shrunk
+                  : (current as Record<string, unknown>)[otherKey],
+              ]),
+            );
+          }
+        }
+      },
+    );
+  },
+};
+
+/**
+ * Options for {@linkcode fuzzMapper} and {@linkcode assertFuzzPasses}.
+ */
+export type FuzzOptions<TInput, TContext> =
+  & {
+    /**
+     * Generates the input objects to map. If it's an {@linkcode Arbitrary},
+     *  like from {@linkcode arbitrary.object}, a failing input is shrunk.
+     */
+    readonly input: FuzzGenerator<TInput>;
+
+    /**
+     * How many random inputs to map. Defaults to 100.
+     */
+    readonly runs?: number;
+
+    /**
+     * The seed for the random number generator. Pass the seed reported by a
+     *  failing run to replay it. Defaults to a random seed.
+     */
+    readonly seed?: number;
+
+    /**
+     * The most times to replace a failing input with a simpler one. Defaults
+     *  to 1000.
+     */
+    readonly maxShrinks?: number;
+  }
+  & (TContext extends undefined ? {
+      /**
+       * Generates the context objects to pass to the mapper.
+       */
+      readonly context?: FuzzGenerator<TContext>;
+    }
+    : {
+      /**
+       * Generates the context objects to pass to the mapper.
+       */
+      readonly context: FuzzGenerator<TContext>;
+    });
+
+/**
+ * The simplest input that made a mapper fail, found by
+ *  {@linkcode fuzzMapper}.
+ */
+export interface FuzzFailure<TInput, TContext> {
+  /**
+   * The failing input, after shrinking.
+   */
+  readonly input: TInput;
+
+  /**
+   * The context passed to the mapper with the failing input.
+   */
+  readonly context: TContext;
+
+  /**
+   * The path to the output property that threw, like `lineItems[0].price`,
+   *  from {@linkcode MappingError#path}. `undefined` if the error wasn't
+   *  thrown by a property.
+   */
+  readonly path: string | undefined;
+
+  /**
+   * The error thrown while mapping the failing input.
+   */
+  readonly error: unknown;
+
+  /**
+   * The run that first failed, starting from 1.
+   */
+  readonly run: number;
+
+  /**
+   * The number of times the failing input was replaced with a simpler one.
+   */
+  readonly shrinks: number;
+}
+
+/**
+ * The result of {@linkcode fuzzMapper}.
+ */
+export interface FuzzResult<TInput, TContext> {
+  /**
+   * The seed that the inputs were generated from.
+   */
+  readonly seed: number;
+
+  /**
+   * The number of inputs that were mapped, not counting shrinking. Fuzzing
+   *  stops at the first failure.
+   */
+  readonly runs: number;
+
+  /**
+   * The simplest failing input, or `undefined` if every input was mapped.
+   */
+  readonly failure: FuzzFailure<TInput, TContext> | undefined;
+}
+
+/**
+ * Return a value from a {@linkcode FuzzGenerator}.
+ *
+ * @private
+ */
+function generate<T>(generator: FuzzGenerator<T>, random: FuzzRandom): T {
+  return typeof generator === "function"
+    ? generator(random)
+    : generator.generate(random);
+}
+
+/**
+ * Return the path of the output property that threw an error, if any.
+ *
+ * @private
+ */
+function getErrorPath(error: unknown): string | undefined {
+  return error instanceof MappingError ? error.path : undefined;
+}
+
+/**
+ * Map many random inputs, to find inputs that make the mapper throw, like
+ *  empty strings, `null` in optional fields, or huge numbers.
+ *
+ * Fuzzing stops at the first failing input. If the input was generated by an
+ *  {@linkcode Arbitrary}, it's shrunk: replaced with simpler inputs, as long
+ *  as they still fail at the same output property, so the reported input is
+ *  the simplest one found.
+ *
+ * Inputs are generated from a seed, so a failure can be replayed, like in
+ *  CI, by passing the reported seed. The result's promise resolves even when
+ *  a mapper fails; use {@linkcode assertFuzzPasses} to throw instead.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const userMapper = ObjectMapper.create<
+ *   { name: string; age?: number },
+ *   { initial: string; age: string }
+ * >()({
+ *   initial: (input) => input.name[0].toUpperCase(),
+ *   age: (input) => input.age?.toFixed(0) ?? "unknown",
+ * });
+ *
+ * const result = await fuzzMapper(userMapper, {
+ *   input: arbitrary.object({
+ *     name: arbitrary.string(),
+ *     age: arbitrary.optional(arbitrary.integer({ min: 0, max: 150 })),
+ *   }),
+ *   seed: 42,
+ * });
+ *
+ * console.log(result.failure?.path, result.failure?.input);
+ * // --> "initial" { name: "" }
+ * ```
+ */
+export async function fuzzMapper<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+>(
+  mapper:
+    | ObjectMapper<TInput, TOutput, TContext>
+    | AsyncObjectMapper<TInput, TOutput, TContext>,
+  options: FuzzOptions<TInput, TContext>,
+): Promise<FuzzResult<TInput, TContext>> {
+  const {
+    input: inputGenerator,
+    runs = 100,
+    seed = Math.floor(Math.random() * 2 ** 32),
+    maxShrinks = 1000,
+  } = options;
+  const contextGenerator = options.context as
+    | FuzzGenerator<TContext>
+    | undefined;
+  const random = new FuzzRandom(seed);
+  const tryMap = async (
+    input: TInput,
+    context: TContext,
+  ): Promise<{ error: unknown } | undefined> => {
+    try {
+      await mapper.map(input, context as OptionalArgIfUndefined<TContext>);
+      return undefined;
+    } catch (error) {
+      return { error };
+    }
+  };
+  for (let run = 1; run <= runs; run++) {
+    let input = generate(inputGenerator, random);
+    const context = contextGenerator === undefined
+      ? undefined as TContext
+      : generate(contextGenerator, random);
+    const failed = await tryMap(input, context);
+    if (!failed) {
+      continue;
+    }
+    let { error } = failed;
+    const path = getErrorPath(error);
+    let shrinks = 0;
+    if (typeof inputGenerator !== "function") {
+      shrinking: while (shrinks < maxShrinks) {
+        for (const candidate of inputGenerator.shrink(input)) {
+          const candidateFailed = await tryMap(candidate, context);
+          if (candidateFailed && getErrorPath(candidateFailed.error) === path) {
+            input = candidate;
+            error = candidateFailed.error;
+            shrinks++;
+            continue shrinking;
+          }
+        }
+        break;
+      }
+    }
+    return {
+      seed,
+      runs: run,
+      failure: { input, context, path, error, run, shrinks },
+    };
+  }
+  return { seed, runs, failure: undefined };
+}
+
+/**
+ * Format a value for a fuzzing failure message.
+ *
+ * @private
+ */
+function formatFuzzValue(value: unknown): string {
+  return JSON.stringify(value, (_key, value: unknown) => {
+    if (typeof value === "number" && !Number.isFinite(value)) {
+      return String(value);
+    }
+    return typeof value === "bigint" ? `${value}n` : value;
+  }) ?? String(value);
+}
+
+/**
+ * Fuzz a mapper with {@linkcode fuzzMapper}, and throw a
+ *  {@linkcode MapperAssertionError} if any input fails. The error message
+ *  includes the seed to replay the failure, the output property that threw,
+ *  and the simplest failing input.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const userMapper = ObjectMapper.create<{ name: string }, { name: string }>()({
+ *   name: (input) => input.name.trim(),
+ * });
+ *
+ * Deno.test("maps any user", async () => {
+ *   await assertFuzzPasses(userMapper, {
+ *     input: arbitrary.object({ name: arbitrary.string() }),
+ *   });
+ * });
+ * ```
+ */
+export async function assertFuzzPasses<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+>(
+  mapper:
+    | ObjectMapper<TInput, TOutput, TContext>
+    | AsyncObjectMapper<TInput, TOutput, TContext>,
+  options: FuzzOptions<TInput, TContext>,
+): Promise<void> {
+  const { seed, failure } = await fuzzMapper(mapper, options);
+  if (failure) {
+    const { error } = failure;
+    const cause = error instanceof MappingError ? error.cause : error;
+    throw new MapperAssertionError(
+      [
+        `Mapping failed on run ${failure.run}, with seed ${seed} (shrunk ${failure.shrinks} times):`,
+        `  path:  ${failure.path ?? "(none)"}`,
+        `  error: ${cause instanceof Error ? cause.message : String(cause)}`,
+        `  input: ${formatFuzzValue(failure.input)}`,
+      ].join("\n"),
+      { cause: error },
+    );
+  }
+}
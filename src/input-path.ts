@@ -0,0 +1,41 @@
+/**
+ * Determine if a schema value is a dotted path into the input object, like
+ *  `"address.city"`, rather than a single input property name.
+ *
+ * @private
+ */
+export function isInputPath(value: unknown): value is string {
+  return typeof value === "string" && value.includes(".");
+}
+
+/**
+ * Create a function that reads the value at a dotted path into its input
+ *  object, like `"address.city"` or `"items.0.sku"`. Object mappers use this
+ *  in place of input paths in their schemas, so paths are mapped just like
+ *  mapper functions, whether or not the mapper is compiled.
+ *
+ * If the input object has an own property named after the entire path
+ *  (including the dots), that property's value is returned. Otherwise, if an
+ *  object along the path is `null` or `undefined`, returns `undefined` rather
+ *  than throwing a `TypeError`.
+ *
+ * @private
+ */
+export function createInputPathReader(
+  path: string,
+): (input: object) => unknown {
+  const segments = path.split(".");
+  return function readPath(input: object): unknown {
+    if (Object.hasOwn(input, path)) {
+      return (input as Record<string, unknown>)[path];
+    }
+    let value: unknown = input;
+    for (const segment of segments) {
+      if (value === null || value === undefined) {
+        return undefined;
+      }
+      value = (value as Record<string, unknown>)[segment];
+    }
+    return value;
+  };
+}
@@ -0,0 +1,386 @@
+import { type LineageEntry, MappingLineage } from "./lineage.ts";
+import type { MapOptions } from "./types.ts";
+
+const lineageScopeKey = Symbol("lineageScope");
+
+/**
+ * Collects the input paths read while mapping each output property, for
+ *  {@linkcode ObjectMapper#traceLineage}.
+ *
+ * @private
+ */
+export class LineageRecorder {
+  protected readonly outputs = new Map<
+    string,
+    { inputs: Set<string>; dependencies: Set<string> }
+  >();
+
+  /**
+   * Start an entry for an output property, so it's listed even if it doesn't
+   *  read any input properties.
+   */
+  addOutput(output: string): void {
+    this.getOutput(output);
+  }
+
+  addInput(output: string, input: string): void {
+    this.getOutput(output).inputs.add(input);
+  }
+
+  addDependency(output: string, dependency: string): void {
+    this.getOutput(output).dependencies.add(dependency);
+  }
+
+  toLineage(): MappingLineage {
+    const entries: LineageEntry[] = [];
+    for (const [output, { dependencies }] of this.outputs) {
+      entries.push({
+        output,
+        inputs: removeAncestorPaths(this.collectInputs(output, new Set())),
+        dependencies: [...dependencies],
+      });
+    }
+    return new MappingLineage(entries);
+  }
+
+  /**
+   * Return the input paths of an output property, and of every output
+   *  property it depends on.
+   */
+  protected collectInputs(output: string, visited: Set<string>): Set<string> {
+    const inputs = new Set<string>();
+    const entry = this.outputs.get(output);
+    if (!entry || visited.has(output)) {
+      return inputs;
+    }
+    visited.add(output);
+    for (const input of entry.inputs) {
+      inputs.add(input);
+    }
+    for (const dependency of entry.dependencies) {
+      for (const input of this.collectInputs(dependency, visited)) {
+        inputs.add(input);
+      }
+    }
+    return inputs;
+  }
+
+  protected getOutput(
+    output: string,
+  ): { inputs: Set<string>; dependencies: Set<string> } {
+    let entry = this.outputs.get(output);
+    if (!entry) {
+      entry = { inputs: new Set(), dependencies: new Set() };
+      this.outputs.set(output, entry);
+    }
+    return entry;
+  }
+}
+
+/**
+ * Remove paths that have a nested path in the same set, like `address` when
+ *  `address.street` is also present.
+ *
+ * @private
+ */
+function removeAncestorPaths(paths: ReadonlySet<string>): string[] {
+  return [...paths].filter((path) =>
+    ![...paths].some((other) =>
+      other.startsWith(`${path}.`) || other.startsWith(`${path}[]`)
+    )
+  );
+}
+
+/**
+ * The output path that a mapping call's properties are nested under, and
+ *  where to record what they read.
+ *
+ * @private
+ */
+interface LineageScope {
+  readonly recorder: LineageRecorder;
+  readonly outputPath: string;
+}
+
+/**
+ * {@linkcode MapOptions}, with the lineage scope of the mapping call or
+ *  property they were passed to.
+ *
+ * @private
+ */
+interface ScopedMapOptions extends MapOptions {
+  readonly [lineageScopeKey]?: LineageScope;
+}
+
+/**
+ * Return options for the outermost call of
+ *  {@linkcode ObjectMapper#traceLineage}, recording to a new recorder.
+ *
+ * @private
+ */
+export function createLineageOptions(
+  recorder: LineageRecorder,
+): MapOptions {
+  const options: ScopedMapOptions = {
+    [lineageScopeKey]: { recorder, outputPath: "" },
+  };
+  return options;
+}
+
+/**
+ * Used to determine if a mapping call is part of
+ *  {@linkcode ObjectMapper#traceLineage}, so should map with
+ *  {@linkcode wrapSchemaMapForLineage}.
+ *
+ * @private
+ */
+export function isRecordingLineage(options: MapOptions | undefined): boolean {
+  return options !== undefined && lineageScopeKey in options;
+}
+
+/**
+ * Return options for mapping the elements of an array, so their output paths
+ *  end with `[]`. If the options aren't recording lineage, they're returned
+ *  as-is.
+ *
+ * @private
+ */
+export function withLineageElement<TOptions extends MapOptions | undefined>(
+  options: TOptions,
+): TOptions {
+  const scope = (options as ScopedMapOptions | undefined)?.[lineageScopeKey];
+  if (!scope) {
+    return options;
+  }
+  const scopedOptions: ScopedMapOptions = {
+    ...options,
+    [lineageScopeKey]: { ...scope, outputPath: `${scope.outputPath}[]` },
+  };
+  return scopedOptions as TOptions;
+}
+
+/**
+ * The input object that a recording proxy wraps, and its path from the
+ *  outermost input object.
+ *
+ * @private
+ */
+interface RecordingTarget {
+  readonly target: object;
+  readonly path: string;
+}
+
+const recordingTargets = new WeakMap<object, RecordingTarget>();
+
+function appendKey(path: string, key: string): string {
+  return path === "" ? key : `${path}.${key}`;
+}
+
+/**
+ * Used to determine if an input value's properties can be recorded. Class
+ *  instances, like `Date` and `Map`, are recorded as a whole, because their
+ *  methods don't work through a proxy.
+ *
+ * @private
+ */
+export function isRecordable(value: unknown): value is object {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return Array.isArray(value) || prototype === Object.prototype ||
+    prototype === null;
+}
+
+/**
+ * Return the input object that a recording proxy wraps, or the value as-is
+ *  if it isn't one.
+ *
+ * While recording lineage, each output property reads its input through a
+ *  new proxy, so caches keyed by input identity, like
+ *  {@linkcode mapFromAsync.shared}, must unwrap it first.
+ *
+ * @private
+ */
+export function unwrapRecordingInput<TValue>(value: TValue): TValue {
+  if (typeof value !== "object" || value === null) {
+    return value;
+  }
+  const recordingTarget = recordingTargets.get(value);
+  return recordingTarget ? recordingTarget.target as TValue : value;
+}
+
+/**
+ * Return the object for a recording proxy to wrap. A proxy's `get` trap must
+ *  return the actual value of a non-writable, non-configurable property, like
+ *  those of a frozen object, so it can't return a nested proxy. Such objects
+ *  are copied, so their nested properties can still be recorded.
+ *
+ * @private
+ */
+function toProxyTarget(target: object): object {
+  const hasFixedProperty = Object.entries(
+    Object.getOwnPropertyDescriptors(target),
+  ).some(([key, descriptor]) =>
+    !descriptor.configurable && !descriptor.writable &&
+    !(Array.isArray(target) && key === "length")
+  );
+  if (!hasFixedProperty) {
+    return target;
+  }
+  return Array.isArray(target)
+    ? [...target]
+    : Object.assign(Object.create(Object.getPrototypeOf(target)), target);
+}
+
+/**
+ * Wrap an input object in a proxy that calls `record` with the path of each
+ *  property that's read from it, or from objects nested in it.
+ *
+ * @private
+ */
+function createRecordingInput(
+  target: object,
+  path: string,
+  record: (path: string) => void,
+): object {
+  const proxy = new Proxy(toProxyTarget(target), {
+    get(target, key) {
+      const value: unknown = Reflect.get(target, key);
+      if (
+        typeof key !== "string" || !Object.hasOwn(target, key) ||
+        (Array.isArray(target) && key === "length")
+      ) {
+        return value;
+      }
+      const valuePath = Array.isArray(target)
+        ? `${path}[]`
+        : appendKey(path, key);
+      record(valuePath);
+      return isRecordable(value)
+        ? createRecordingInput(value, valuePath, record)
+        : value;
+    },
+  });
+  recordingTargets.set(proxy, { target, path });
+  return proxy;
+}
+
+/**
+ * Wrap a value from a mapper's schema map, so it records the input paths it
+ *  reads while mapping its output property.
+ *
+ * Input property names are replaced with mapper functions that read the
+ *  property. Derived properties record their dependencies.
+ *
+ * If the input object was read from a parent mapper's input, its paths
+ *  continue from there. Otherwise, like when a parent mapper function creates
+ *  a new object for a nested mapper, the property is recorded as depending on
+ *  the parent's output property.
+ *
+ * @private
+ */
+function wrapSchemaValueForLineage<TValue>(
+  key: string,
+  value: TValue,
+): Exclude<TValue, PropertyKey> {
+  const run = (
+    input: object,
+    options: MapOptions,
+    dependencies: readonly PropertyKey[],
+    evaluate: (input: object, options: MapOptions) => unknown,
+  ): unknown => {
+    const scope = (options as ScopedMapOptions)[lineageScopeKey]!;
+    const outputPath = appendKey(scope.outputPath, key);
+    const { recorder } = scope;
+    recorder.addOutput(outputPath);
+    for (const dependency of dependencies) {
+      recorder.addDependency(
+        outputPath,
+        appendKey(scope.outputPath, String(dependency)),
+      );
+    }
+    const propertyOptions: ScopedMapOptions = {
+      ...options,
+      [lineageScopeKey]: { recorder, outputPath },
+    };
+    let recordingTarget = recordingTargets.get(input);
+    if (!recordingTarget) {
+      if (scope.outputPath !== "") {
+        recorder.addDependency(outputPath, scope.outputPath);
+        return evaluate(input, propertyOptions);
+      }
+      recordingTarget = { target: input, path: "" };
+    }
+    return evaluate(
+      createRecordingInput(
+        recordingTarget.target,
+        recordingTarget.path,
+        (inputPath) => recorder.addInput(outputPath, inputPath),
+      ),
+      propertyOptions,
+    );
+  };
+  if (typeof value === "function") {
+    return function (input: object, context: unknown, options: MapOptions) {
+      return run(
+        input,
+        options,
+        [],
+        (input, options) => value(input, context, options),
+      );
+    } as Exclude<TValue, PropertyKey>;
+  }
+  if (typeof value === "object" && value !== null) {
+    const derived = value as unknown as {
+      readonly dependencies: readonly PropertyKey[];
+      derive(
+        partialOutput: object,
+        input: object,
+        context: unknown,
+        options: MapOptions,
+      ): unknown;
+    };
+    return {
+      dependencies: derived.dependencies,
+      derive: (
+        partialOutput: object,
+        input: object,
+        context: unknown,
+        options: MapOptions,
+      ) =>
+        run(
+          input,
+          options,
+          derived.dependencies,
+          (input, options) =>
+            derived.derive(partialOutput, input, context, options),
+        ),
+    } as Exclude<TValue, PropertyKey>;
+  }
+  return function (input: object, _context: unknown, options: MapOptions) {
+    return run(
+      input,
+      options,
+      [],
+      (input) => input[value as keyof typeof input],
+    );
+  } as Exclude<TValue, PropertyKey>;
+}
+
+/**
+ * Return a copy of a mapper's schema map, with each value wrapped by
+ *  {@linkcode wrapSchemaValueForLineage}.
+ *
+ * @private
+ */
+export function wrapSchemaMapForLineage<TKey, TValue>(
+  schemaMap: ReadonlyMap<TKey, TValue>,
+): Map<TKey, Exclude<TValue, PropertyKey>> {
+  return new Map(
+    Array.from(
+      schemaMap,
+      ([key, value]) => [key, wrapSchemaValueForLineage(String(key), value)],
+    ),
+  );
+}
@@ -0,0 +1,52 @@
+/**
+ * The input properties that one output property was mapped from, in a
+ *  {@linkcode MappingLineage}.
+ *
+ * Paths are dotted, like `address.street`. Array elements are written as
+ *  `[]`, like `lineItems[].price`, so every element of an array shares one
+ *  entry.
+ */
+export interface LineageEntry {
+  /**
+   * The path to the output property, from the outermost mapper.
+   */
+  readonly output: string;
+
+  /**
+   * The paths of the input properties that the output property's value was
+   *  mapped from, including those of the output properties it depends on.
+   *  When a property and one of its nested properties were both read, only
+   *  the nested property is listed.
+   */
+  readonly inputs: readonly string[];
+
+  /**
+   * The paths of other output properties that this output property was
+   *  mapped from, like the dependencies of {@linkcode mapFrom.derived}.
+   */
+  readonly dependencies: readonly string[];
+}
+
+/**
+ * Records which input properties fed each output property, returned by
+ *  {@linkcode ObjectMapper#traceLineage}. Pass it to `JSON.stringify()` to
+ *  export it for audit tooling.
+ */
+export class MappingLineage {
+  constructor(
+    /**
+     * One entry for each output property, including the properties of nested
+     *  mappers, in the order they were mapped.
+     */
+    public readonly entries: readonly LineageEntry[],
+  ) {}
+
+  /**
+   * Return the paths of the input properties that an output property was
+   *  mapped from, or an empty array if the output property wasn't mapped.
+   */
+  getInputs(output: string): readonly string[] {
+    return this.entries.find((entry) => entry.output === output)?.inputs ??
+      [];
+  }
+}
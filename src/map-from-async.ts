@@ -1,4 +1,21 @@
+import type {
+  BatchedMapperOptions,
+  MapperFallback,
+  RetryOptions,
+} from "./async-types.ts";
+import { createBatchedMapperFunction } from "./batching.ts";
 import { OmitProperty } from "./omit-property.ts";
+import {
+  createRetryMapperFunction,
+  createTimeoutMapperFunction,
+} from "./resilience.ts";
+import { describeMapperFunction } from "./schema-description.ts";
+import { createSharedMapperFunction } from "./sharing.ts";
+import type {
+  DerivedProperty,
+  MapOptions,
+  OptionalArgIfUndefined,
+} from "./types.ts";
 
 /**
  * Provides convenience functions for object mappers.
@@ -18,9 +35,316 @@ export const mapFromAsync = {
    * ```
    */
   constant<TValue>(this: void, value: TValue): () => Promise<TValue> {
-    return function constant(): Promise<TValue> {
-      return Promise.resolve(value);
-    };
+    return describeMapperFunction(
+      function constant(): Promise<TValue> {
+        return Promise.resolve(value);
+      },
+      { kind: "constant", value },
+    );
+  },
+
+  /**
+   * Map a property from other output properties, after they've been mapped.
+   *  Like {@linkcode mapFrom.derived}, but `derive` returns a promise.
+   *
+   * When the {@linkcode MapOptions#concurrentProperties} option is set, the
+   *  derived property starts as soon as its dependencies have resolved.
+   *
+   * ```ts
+   * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+   *
+   * interface Project {
+   *   ownerId: string;
+   * }
+   *
+   * interface User {
+   *   email: string;
+   * }
+   *
+   * interface ProjectDto {
+   *   owner: User;
+   *   ownerAvatarUrl: string;
+   * }
+   *
+   * interface Context {
+   *   loadUser(id: string): Promise<User>;
+   *   loadAvatarUrl(email: string): Promise<string>;
+   * }
+   *
+   * const projectMapper = AsyncObjectMapper.create<
+   *   Project,
+   *   ProjectDto,
+   *   Context
+   * >()({
+   *   owner: (input, context) => context.loadUser(input.ownerId),
+   *   ownerAvatarUrl: mapFromAsync.derived(
+   *     ["owner"],
+   *     (output, input, context) => context.loadAvatarUrl(output.owner.email),
+   *   ),
+   * });
+   * ```
+   */
+  derived<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined,
+    TDependencyKey extends keyof TOutput,
+    TResult extends Promise<unknown>,
+  >(
+    this: void,
+    dependencies: readonly TDependencyKey[],
+    derive: (
+      partialOutput: Pick<TOutput, TDependencyKey>,
+      input: TInput,
+      context: OptionalArgIfUndefined<TContext>,
+      options: MapOptions,
+    ) => TResult,
+  ): DerivedProperty<TInput, TOutput, TContext, TDependencyKey, TResult> {
+    return { dependencies: [...dependencies], derive };
+  },
+
+  /**
+   * Returns a function that loads a value for many input objects at once,
+   *  rather than one call per input object, like a DataLoader.
+   *
+   * `keyFn` picks a key from each input object. Keys from every input object
+   *  being mapped at the same time, like the elements in one call to
+   *  {@linkcode AsyncObjectMapper#array}, are collected into a batch. Then
+   *  `batchLoadFn` is called once, with the unique keys in the batch. It must
+   *  return an array with a result for each key, in the same order. A result
+   *  that's an `Error` only rejects the properties with that key.
+   *
+   * Batches are scoped to one top-level `map()`, `array()`, `stream()` or
+   *  `toTransformStream()` call, so separate calls never share results.
+   *  Nested mappers share their parent's batches if they're passed its
+   *  options. Inputs mapped with different context objects are collected into
+   *  separate batches, and `batchLoadFn` is passed each batch's context.
+   *
+   * Keys are compared like `Map` keys, so use strings or numbers, rather than
+   *  objects.
+   *
+   * ```ts
+   * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+   *
+   * interface Order {
+   *   customerId: string;
+   * }
+   *
+   * interface Customer {
+   *   name: string;
+   * }
+   *
+   * interface OrderDto {
+   *   customer: Customer;
+   * }
+   *
+   * interface Context {
+   *   loadCustomers(ids: string[]): Promise<Customer[]>;
+   * }
+   *
+   * const orderMapper = AsyncObjectMapper.create<Order, OrderDto, Context>()({
+   *   customer: mapFromAsync.batched(
+   *     (input) => input.customerId,
+   *     (customerIds, context) => context.loadCustomers(customerIds),
+   *   ),
+   * });
+   * ```
+   */
+  batched<TInput, TKey, TValue, TContext>(
+    this: void,
+    keyFn: (input: TInput, context: TContext) => TKey,
+    batchLoadFn: (
+      keys: TKey[],
+      context: TContext,
+    ) => Promise<ReadonlyArray<TValue | Error>>,
+    batchOptions?: BatchedMapperOptions,
+  ): (
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ) => Promise<TValue> {
+    return createBatchedMapperFunction(keyFn, batchLoadFn, batchOptions);
+  },
+
+  /**
+   * Returns a function that calls `loader` once per input object, and shares
+   *  its promise with every property that asks for the same input object,
+   *  rather than each property loading the value again.
+   *
+   * Results are scoped to one top-level `map()`, `array()`, `stream()` or
+   *  `toTransformStream()` call, and released when it finishes, so separate
+   *  calls never share results. Nested mappers share their parent's results if
+   *  they're passed its options.
+   *
+   * Create the function once and call it from each mapper function that needs
+   *  the value, passing on the options.
+   *
+   * ```ts
+   * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+   *
+   * interface Project {
+   *   ownerId: string;
+   * }
+   *
+   * interface User {
+   *   name: string;
+   *   email: string;
+   * }
+   *
+   * interface ProjectDto {
+   *   ownerName: string;
+   *   ownerEmail: string;
+   * }
+   *
+   * interface Context {
+   *   getUser(id: string): Promise<User>;
+   * }
+   *
+   * const loadOwner = mapFromAsync.shared(
+   *   (input: Project, context: Context) => context.getUser(input.ownerId),
+   * );
+   *
+   * const projectMapper = AsyncObjectMapper.create<
+   *   Project,
+   *   ProjectDto,
+   *   Context
+   * >()({
+   *   ownerName: async (input, context, options) =>
+   *     (await loadOwner(input, context, options)).name,
+   *   ownerEmail: async (input, context, options) =>
+   *     (await loadOwner(input, context, options)).email,
+   * });
+   * ```
+   */
+  shared<TInput extends object, TContext, TValue>(
+    this: void,
+    loader: (
+      input: TInput,
+      context: TContext,
+      options: MapOptions,
+    ) => Promise<TValue>,
+  ): (
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ) => Promise<TValue> {
+    return createSharedMapperFunction(loader);
+  },
+
+  /**
+   * Wraps a mapper function, so it rejects with a `TimeoutError`
+   *  `DOMException` if it takes longer than `ms` milliseconds.
+   *
+   * If a `fallback` is given, the property is mapped to it on timeout
+   *  instead, even if it's `undefined`. It can be a constant, like `null` or
+   *  {@linkcode OmitProperty}, or a function that's called with the timeout
+   *  error. The output property must accept the fallback, so
+   *  {@linkcode OmitProperty} is only allowed for optional properties. Other
+   *  errors from the mapper function are passed through.
+   *
+   * The mapper function receives a `signal` in its options, which is aborted
+   *  on timeout, so it can cancel its work.
+   *
+   * ```ts
+   * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+   * import { OmitProperty } from "./omit-property.ts";
+   *
+   * interface Product {
+   *   id: string;
+   * }
+   *
+   * interface ProductDto {
+   *   rating?: number;
+   * }
+   *
+   * interface Context {
+   *   loadRating(id: string): Promise<number>;
+   * }
+   *
+   * const productMapper = AsyncObjectMapper.create<
+   *   Product,
+   *   ProductDto,
+   *   Context
+   * >()({
+   *   rating: mapFromAsync.timeout(
+   *     (input, context) => context.loadRating(input.id),
+   *     500,
+   *     OmitProperty,
+   *   ),
+   * });
+   * ```
+   */
+  timeout<TInput, TContext, TValue, TFallback = never>(
+    this: void,
+    mapperFunction: (
+      input: TInput,
+      context: TContext,
+      options: MapOptions,
+    ) => Promise<TValue>,
+    ms: number,
+    ...fallback: [] | [fallback: MapperFallback<TFallback>]
+  ): (
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ) => Promise<TValue | TFallback> {
+    return createTimeoutMapperFunction(mapperFunction, ms, ...fallback);
+  },
+
+  /**
+   * Wraps a mapper function, so it's called again if it rejects, up to
+   *  `attempts` times in total. If every attempt fails, the last error is
+   *  passed through.
+   *
+   * Set `backoff` to wait between attempts, and `retryIf` to only retry some
+   *  errors. Nothing is retried once the {@linkcode MapOptions#signal} is
+   *  aborted. Combine it with {@linkcode mapFromAsync.timeout} to retry
+   *  attempts that take too long.
+   *
+   * ```ts
+   * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+   *
+   * interface Product {
+   *   id: string;
+   * }
+   *
+   * interface ProductDto {
+   *   rating: number;
+   * }
+   *
+   * interface Context {
+   *   loadRating(id: string): Promise<number>;
+   * }
+   *
+   * const productMapper = AsyncObjectMapper.create<
+   *   Product,
+   *   ProductDto,
+   *   Context
+   * >()({
+   *   rating: mapFromAsync.retry(
+   *     mapFromAsync.timeout(
+   *       (input, context) => context.loadRating(input.id),
+   *       500,
+   *     ),
+   *     { attempts: 3, backoff: (attempt) => 100 * 2 ** attempt },
+   *   ),
+   * });
+   * ```
+   */
+  retry<TInput, TContext, TValue>(
+    this: void,
+    mapperFunction: (
+      input: TInput,
+      context: TContext,
+      options: MapOptions,
+    ) => Promise<TValue>,
+    retryOptions: RetryOptions,
+  ): (
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ) => Promise<TValue> {
+    return createRetryMapperFunction(mapperFunction, retryOptions);
   },
 
   /**
@@ -63,3 +387,10 @@ export const mapFromAsync = {
     return Promise.resolve(undefined);
   },
 };
+
+describeMapperFunction(mapFromAsync.omit, { kind: "omit" });
+describeMapperFunction(mapFromAsync.null, { kind: "constant", value: null });
+describeMapperFunction(mapFromAsync.undefined, {
+  kind: "constant",
+  value: undefined,
+});
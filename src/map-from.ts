@@ -1,4 +1,10 @@
 import { OmitProperty } from "./omit-property.ts";
+import { describeMapperFunction } from "./schema-description.ts";
+import type {
+  DerivedProperty,
+  MapOptions,
+  OptionalArgIfUndefined,
+} from "./types.ts";
 
 /**
  * Provides convenience functions for object mappers.
@@ -18,9 +24,67 @@ export const mapFrom = {
    * ```
    */
   constant<TValue>(this: void, value: TValue): () => TValue {
-    return function constant(): TValue {
-      return value;
-    };
+    return describeMapperFunction(
+      function constant(): TValue {
+        return value;
+      },
+      { kind: "constant", value },
+    );
+  },
+
+  /**
+   * Map a property from other output properties, after they've been mapped.
+   *
+   * `derive` is called with an object containing the mapped values of the
+   *  `dependencies`, and the input object. Properties omitted with
+   *  {@linkcode OmitProperty} are missing from that object.
+   *
+   * The mapper maps every dependency before the derived property, even if the
+   *  dependency comes later in the schema. Creating the mapper throws an
+   *  `Error` if derived properties depend on each other in a cycle.
+   *
+   * ```ts
+   * import { ObjectMapper } from "./object-mapper.ts";
+   *
+   * interface User {
+   *   firstName: string;
+   *   lastName: string;
+   *   status: string;
+   * }
+   *
+   * interface UserDto {
+   *   fullName: string;
+   *   status: string;
+   *   displayLabel: string;
+   * }
+   *
+   * const userMapper = ObjectMapper.create<User, UserDto>()({
+   *   fullName: (input) => `${input.firstName} ${input.lastName}`,
+   *   status: "status",
+   *   displayLabel: mapFrom.derived(
+   *     ["fullName", "status"],
+   *     (output) => `${output.fullName} (${output.status})`,
+   *   ),
+   * });
+   * ```
+   */
+  derived<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined,
+    TDependencyKey extends keyof TOutput,
+    TValue,
+  >(
+    this: void,
+    dependencies: readonly TDependencyKey[],
+    derive: (
+      partialOutput: Pick<TOutput, TDependencyKey>,
+      input: TInput,
+      context: OptionalArgIfUndefined<TContext>,
+      options: MapOptions,
+    ) => TValue,
+  ): DerivedProperty<TInput, TOutput, TContext, TDependencyKey, TValue> {
+    return { dependencies: [...dependencies], derive };
   },
 
   /**
@@ -83,3 +147,10 @@ export const mapFrom = {
     return undefined;
   },
 };
+
+describeMapperFunction(mapFrom.omit, { kind: "omit" });
+describeMapperFunction(mapFrom.null, { kind: "constant", value: null });
+describeMapperFunction(mapFrom.undefined, {
+  kind: "constant",
+  value: undefined,
+});
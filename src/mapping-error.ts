@@ -0,0 +1,172 @@
+import type { MapOptions } from "./types.ts";
+
+/**
+ * One step in the path to an output property: either a property name, or an
+ *  index into an array produced by {@linkcode ObjectMapper#array}.
+ */
+export type MappingPathSegment = string | number;
+
+/**
+ * Any object mapper, regardless of its input, output and context types: an
+ *  {@linkcode ObjectMapper}, {@linkcode AsyncObjectMapper},
+ *  {@linkcode UnionObjectMapper} or {@linkcode AsyncUnionObjectMapper}.
+ */
+export interface AnyObjectMapper {
+  map(input: never, context: never, options?: MapOptions): unknown;
+}
+
+const identifierPattern = /^[A-Za-z_$][\w$]*$/;
+
+/**
+ * Format a path to an output property, like `orders[3].lineItems[0].price`.
+ *
+ * Property names that aren't valid identifiers are quoted, like
+ *  `orders[3]["line items"]`.
+ */
+export function formatMappingPath(
+  pathSegments: readonly MappingPathSegment[],
+): string {
+  let path = "";
+  for (const segment of pathSegments) {
+    if (typeof segment === "number") {
+      path += `[${segment}]`;
+    } else if (!identifierPattern.test(segment)) {
+      path += `[${JSON.stringify(segment)}]`;
+    } else if (path === "") {
+      path = segment;
+    } else {
+      path += `.${segment}`;
+    }
+  }
+  return path;
+}
+
+/**
+ * Thrown when a mapper function throws an error, while mapping an object.
+ *
+ * The original error is available as {@linkcode MappingError#cause}.
+ *
+ * When mapping nested objects, the error passes through each parent
+ *  {@linkcode ObjectMapper#map} and {@linkcode ObjectMapper#array} call, which
+ *  add their output property name or array index to the start of the path.
+ *  The path from the outermost mapper is available as
+ *  {@linkcode MappingError#path}.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const lineItemMapper = ObjectMapper.create<{ price: string }, { price: number }>()({
+ *   price: (input) => {
+ *     throw new Error(`Invalid price: ${input.price}`);
+ *   },
+ * });
+ *
+ * const orderMapper = ObjectMapper.create<
+ *   { lineItems: { price: string }[] },
+ *   { lineItems: { price: number }[] }
+ * >()({
+ *   lineItems: (input) => lineItemMapper.array(input.lineItems),
+ * });
+ *
+ * try {
+ *   orderMapper.map({ lineItems: [{ price: "free" }] });
+ * } catch (error) {
+ *   if (error instanceof MappingError) {
+ *     console.log(error.path);
+ *     // --> "lineItems[0].price"
+ *     console.log(error.mapper === lineItemMapper);
+ *     // --> true
+ *   }
+ * }
+ * ```
+ *
+ * @group runtime
+ */
+export class MappingError extends Error {
+  override readonly name = "MappingError";
+
+  /**
+   * The path to the output property that failed to map, like
+   *  `orders[3].lineItems[0].price`.
+   */
+  readonly path: string;
+
+  constructor(
+    /**
+     * Each output property name and array index in the path to the output
+     *  property that failed to map.
+     */
+    public readonly pathSegments: readonly MappingPathSegment[],
+    /**
+     * The mapper whose schema contains the mapper function that threw.
+     */
+    public readonly mapper: AnyObjectMapper,
+    /**
+     * The error thrown by the mapper function.
+     */
+    public override readonly cause: unknown,
+  ) {
+    const path = formatMappingPath(pathSegments);
+    super(
+      `Failed to map property "${path}": ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.path = path;
+  }
+}
+
+/**
+ * Thrown when mapping with the {@linkcode MapOptions#collectErrors} option,
+ *  if any mapper function throws. Each error is a {@linkcode MappingError},
+ *  recording the path to the output property that failed to map.
+ *
+ * Nested mappers called with the same options throw their own
+ *  `AggregateMappingError`, and its errors are merged into the parent's.
+ *
+ * @group runtime
+ */
+export class AggregateMappingError extends AggregateError {
+  override readonly name = "AggregateMappingError";
+
+  constructor(
+    /**
+     * The errors thrown by each mapper function, in the order they were
+     *  thrown.
+     */
+    public override readonly errors: MappingError[],
+  ) {
+    super(
+      errors,
+      `Failed to map ${errors.length} ${
+        errors.length === 1 ? "property" : "properties"
+      }: ${errors.map((error) => error.path).join(", ")}`,
+    );
+  }
+}
+
+/**
+ * Describes one output property that failed to map, returned by
+ *  {@linkcode ObjectMapper#tryMap} and {@linkcode ObjectMapper#tryArray}.
+ */
+export interface MappingFailure {
+  /**
+   * The path to the output property that failed to map, like
+   *  `orders[3].lineItems[0].price`.
+   */
+  readonly path: string;
+  /**
+   * The error thrown by the mapper function.
+   */
+  readonly error: unknown;
+}
+
+/**
+ * The result of {@linkcode ObjectMapper#tryMap} or
+ *  {@linkcode ObjectMapper#tryArray}. Either the mapped value, or every
+ *  failure encountered while mapping.
+ */
+export type MappingResult<T> =
+  | { readonly ok: true; readonly value: T }
+  | { readonly ok: false; readonly errors: readonly MappingFailure[] };
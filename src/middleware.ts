@@ -0,0 +1,105 @@
+import type { MapOptions, MapperMiddleware, PropertyCall } from "./types.ts";
+
+/**
+ * A mapper function, or the `derive` function of a derived property, with the
+ *  arguments for one output property already applied.
+ *
+ * @private
+ */
+type Evaluate = () => unknown;
+
+/**
+ * Run the {@linkcode MapperMiddleware#property} hook of each middleware around
+ *  `evaluate`. The first middleware added is the outermost.
+ *
+ * @private
+ */
+function runPropertyHooks(
+  middleware: readonly MapperMiddleware[],
+  property: PropertyCall,
+  evaluate: Evaluate,
+): unknown {
+  const runFrom = (index: number): unknown => {
+    for (; index < middleware.length; index++) {
+      if (middleware[index].property) {
+        const next = index + 1;
+        return middleware[index].property!(property, () => runFrom(next));
+      }
+    }
+    return evaluate();
+  };
+  return runFrom(0);
+}
+
+/**
+ * Wrap a value from a mapper's schema map, so the property hooks of its
+ *  middleware run each time the property is mapped.
+ *
+ * Input property names are replaced with mapper functions that read the
+ *  property, so a hook can omit them. Derived properties keep their
+ *  dependencies.
+ *
+ * `middleware` is read each time the property is mapped, so middleware that's
+ *  added later still runs. If `isAsync` is set, `next()` always returns a
+ *  promise.
+ *
+ * @private
+ */
+export function wrapSchemaValue<TValue>(
+  mapper: object,
+  key: string,
+  value: TValue,
+  middleware: readonly MapperMiddleware[],
+  isAsync: boolean,
+): Exclude<TValue, PropertyKey> {
+  const run = (
+    input: object,
+    context: unknown,
+    options: MapOptions,
+    evaluate: Evaluate,
+  ): unknown =>
+    runPropertyHooks(
+      middleware,
+      { mapper, key, input, context, options },
+      isAsync ? () => new Promise((resolve) => resolve(evaluate())) : evaluate,
+    );
+  if (typeof value === "function") {
+    return function (input: object, context: unknown, options: MapOptions) {
+      return run(input, context, options, () => value(input, context, options));
+    } as Exclude<TValue, PropertyKey>;
+  }
+  if (typeof value === "object" && value !== null) {
+    const derived = value as unknown as {
+      readonly dependencies: readonly PropertyKey[];
+      derive(
+        partialOutput: object,
+        input: object,
+        context: unknown,
+        options: MapOptions,
+      ): unknown;
+    };
+    return {
+      dependencies: derived.dependencies,
+      derive: (
+        partialOutput: object,
+        input: object,
+        context: unknown,
+        options: MapOptions,
+      ) =>
+        run(
+          input,
+          context,
+          options,
+          () => derived.derive(partialOutput, input, context, options),
+        ),
+    } as Exclude<TValue, PropertyKey>;
+  }
+  return function (input: object, context: unknown, options: MapOptions) {
+    return run(
+      input,
+      context,
+      options,
+      () => input[value as keyof typeof input],
+    );
+  } as Exclude<TValue, PropertyKey>;
+}
@@ -0,0 +1,136 @@
+/**
+ * Thrown by {@linkcode NdjsonParseStream} when a line of its input isn't valid
+ *  JSON.
+ *
+ * The error from `JSON.parse()` is available as
+ *  {@linkcode NdjsonParseError#cause}.
+ */
+export class NdjsonParseError extends SyntaxError {
+  override name = "NdjsonParseError";
+
+  /**
+   * The line number of the invalid line, starting from 1.
+   */
+  readonly lineNumber: number;
+
+  constructor(lineNumber: number, cause: unknown) {
+    super(
+      `Invalid JSON on line ${lineNumber}: ${
+        cause instanceof Error ? cause.message : String(cause)
+      }`,
+      { cause },
+    );
+    this.lineNumber = lineNumber;
+  }
+}
+
+/**
+ * Parses newline-delimited JSON (NDJSON) text into values, one per line.
+ *
+ * Lines can be split across chunks of text, and can end with `\n` or `\r\n`.
+ *  Blank lines are skipped. If a line isn't valid JSON, the stream is errored
+ *  with an {@linkcode NdjsonParseError}.
+ *
+ * The parsed values aren't validated; `TOutput` is only asserted. Pipe them
+ *  through a mapper's {@linkcode ObjectMapper#toTransformStream} to map them
+ *  into a known shape.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const userMapper = ObjectMapper.create<{ id: number }, { userId: number }>()({
+ *   userId: "id",
+ * });
+ *
+ * const response = await fetch("https://example.com/users.ndjson");
+ * const users = response.body!
+ *   .pipeThrough(new TextDecoderStream())
+ *   .pipeThrough(new NdjsonParseStream<{ id: number }>())
+ *   .pipeThrough(userMapper.toTransformStream());
+ * ```
+ */
+export class NdjsonParseStream<TOutput = unknown>
+  extends TransformStream<string, TOutput> {
+  constructor() {
+    let buffered = "";
+    let lineNumber = 0;
+    const parseLine = (
+      line: string,
+      controller: TransformStreamDefaultController<TOutput>,
+    ): void => {
+      lineNumber++;
+      if (line.trim() === "") {
+        return;
+      }
+      let value: TOutput;
+      try {
+        value = JSON.parse(line);
+      } catch (error) {
+        throw new NdjsonParseError(lineNumber, error);
+      }
+      controller.enqueue(value);
+    };
+    super({
+      transform(chunk, controller) {
+        const lines = (buffered + chunk).split("\n");
+        buffered = lines.pop()!;
+        try {
+          for (const line of lines) {
+            parseLine(line, controller);
+          }
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+      flush(controller) {
+        try {
+          parseLine(buffered, controller);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+  }
+}
+
+/**
+ * Serializes values as newline-delimited JSON (NDJSON) text, one line per
+ *  value.
+ *
+ * If a value can't be serialized, like `undefined` or a function, the stream
+ *  is errored with a `TypeError`.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const userMapper = ObjectMapper.create<{ id: number }, { userId: number }>()({
+ *   userId: "id",
+ * });
+ *
+ * const response = new Response(
+ *   ReadableStream.from([{ id: 1 }, { id: 2 }])
+ *     .pipeThrough(userMapper.toTransformStream())
+ *     .pipeThrough(new NdjsonStringifyStream())
+ *     .pipeThrough(new TextEncoderStream()),
+ *   { headers: { "content-type": "application/x-ndjson" } },
+ * );
+ * ```
+ */
+export class NdjsonStringifyStream<TInput = unknown>
+  extends TransformStream<TInput, string> {
+  constructor() {
+    super({
+      transform(chunk, controller) {
+        try {
+          const line: string | undefined = JSON.stringify(chunk);
+          if (line === undefined) {
+            throw new TypeError(`Can't serialize ${typeof chunk} as JSON`);
+          }
+          controller.enqueue(`${line}\n`);
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    });
+  }
+}
@@ -1,11 +1,54 @@
+import { mapArray, mapElement } from "./array-mapping.ts";
+import { AsyncObjectMapper } from "./async-object-mapper.ts";
+import type { SyncBackedAsyncObjectMapper } from "./async-types.ts";
+import { streamWithConcurrencyLimit } from "./concurrency.ts";
+import {
+  getOutputOrder,
+  pickDependencies,
+  sortByDependencies,
+  toOutputOrder,
+} from "./derived.ts";
+import {
+  collectMappingErrors,
+  prependMappingPath,
+  toMappingResult,
+} from "./error-collection.ts";
+import { createInputPathReader, isInputPath } from "./input-path.ts";
+import type { MappingLineage } from "./lineage.ts";
+import {
+  createLineageOptions,
+  isRecordingLineage,
+  LineageRecorder,
+  wrapSchemaMapForLineage,
+} from "./lineage-recording.ts";
+import { wrapSchemaValue } from "./middleware.ts";
+import {
+  AggregateMappingError,
+  type MappingError,
+  type MappingResult,
+} from "./mapping-error.ts";
 import { OmitProperty } from "./omit-property.ts";
+import {
+  describeMapperFunction,
+  describeSchema,
+} from "./schema-description.ts";
+import { createMappingTransformStream } from "./transform-stream.ts";
+import { UnionObjectMapper } from "./union-object-mapper.ts";
+import { findUnusedInputPaths } from "./unused-inputs.ts";
 import type {
+  AllowOmitIfOptional,
+  DerivedProperty,
   ExactReturn,
+  MapOptions,
+  MapperCall,
   MapperFunction,
+  MapperMiddleware,
   MapperSchemaValue,
   ObjectMapperFunction,
   ObjectMapperSchema,
   OptionalArgIfUndefined,
+  SchemaDescription,
+  TransformStreamOptions,
 } from "./types.ts";
 
 /**
@@ -21,6 +64,7 @@ interface ObjectMapperFunctionBeingBuilt<
   (
     value: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput>;
 
   schema: ObjectMapperSchema<TInput, TOutput, TContext>;
@@ -42,6 +86,176 @@ function isMapperFunction<
   return typeof value === "function";
 }
 
+/**
+ * A {@linkcode DerivedProperty} in an {@linkcode ObjectMapperSchema}.
+ *
+ * @private
+ */
+type SchemaDerivedProperty<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+> = DerivedProperty<
+  TInput,
+  TOutput,
+  TContext,
+  never,
+  | ExactReturn<TOutput[keyof TOutput]>
+  | AllowOmitIfOptional<TOutput, keyof TOutput>
+>;
+
+/**
+ * Used to determine if a {@linkcode MapperSchemaValue} is a derived property,
+ *  from {@linkcode mapFrom.derived}.
+ *
+ * @private
+ */
+function isDerivedProperty<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+>(
+  value: MapperSchemaValue<TInput, TOutput, TContext>,
+): value is SchemaDerivedProperty<TInput, TOutput, TContext> {
+  return typeof value === "object";
+}
+
+/**
+ * Call a mapper function, or derive a property from the output mapped so
+ *  far.
+ *
+ * @private
+ */
+function callMapperFunction<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+>(
+  getter:
+    | MapperFunction<TInput, TOutput, TContext>
+    | SchemaDerivedProperty<TInput, TOutput, TContext>,
+  input: TInput,
+  context: OptionalArgIfUndefined<TContext>,
+  options: MapOptions,
+  output: Record<string, unknown>,
+): unknown {
+  if (isDerivedProperty(getter)) {
+    return getter.derive(
+      pickDependencies(output, getter.dependencies),
+      input,
+      context,
+      options,
+    );
+  }
+  return getter(input, context, options);
+}
+
+/**
+ * Passed to mapper functions when {@linkcode ObjectMapper#map} is called
+ *  without any options.
+ *
+ * @private
+ */
+const noOptions: MapOptions = Object.freeze({});
+
+/**
+ * A mapping function generated by {@linkcode compileSchemaMap}.
+ *
+ * @private
+ */
+type CompiledMapFunction<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+> = (
+  input: TInput | null | undefined,
+  context: OptionalArgIfUndefined<TContext>,
+  options: MapOptions,
+) => ExactReturn<TOutput> | null | undefined;
+
+/**
+ * Generate a straight-line mapping function from a schema map. Input property
+ *  names become direct property reads, and mapper functions are called inline,
+ *  so nothing is looked up or type-checked per call.
+ *
+ * The generated function behaves exactly like {@linkcode ObjectMapper#map}.
+ *
+ * @private
+ */
+function compileSchemaMap<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+>(
+  mapper: ObjectMapper<TInput, TOutput, TContext>,
+  schemaMap: ReadonlyMap<
+    keyof TOutput,
+    MapperSchemaValue<TInput, TOutput, TContext>
+  >,
+  outputOrder: readonly PropertyKey[] | undefined,
+): CompiledMapFunction<TInput, TOutput, TContext> {
+  const mapperFunctions: (
+    | MapperFunction<TInput, TOutput, TContext>
+    | SchemaDerivedProperty<TInput, TOutput, TContext>
+  )[] = [];
+  const statements: string[] = [];
+  for (const [key, getterOrString] of schemaMap) {
+    // Keys and property names are embedded as JSON string literals, which are
+    //  also valid JavaScript string literals.
+    const outputKey = JSON.stringify(key);
+    if (isDerivedProperty(getterOrString)) {
+      const index = mapperFunctions.push(getterOrString) - 1;
+      statements.push(
+        `let value${index};`,
+        `try { value${index} = mapper${index}.derive(pickDependencies(output, mapper${index}.dependencies), input, context, options); }`,
+        `catch (error) { throw prependMappingPath(error, ${outputKey}, objectMapper); }`,
+        `if (value${index} !== OmitProperty) output[${outputKey}] = value${index};`,
+      );
+    } else if (!isMapperFunction(getterOrString)) {
+      statements.push(
+        `output[${outputKey}] = input[${JSON.stringify(getterOrString)}];`,
+      );
+    } else {
+      const index = mapperFunctions.push(getterOrString) - 1;
+      statements.push(
+        `let value${index};`,
+        `try { value${index} = mapper${index}(input, context, options); }`,
+        `catch (error) { throw prependMappingPath(error, ${outputKey}, objectMapper); }`,
+        `if (value${index} !== OmitProperty) output[${outputKey}] = value${index};`,
+      );
+    }
+  }
+  const body = [
+    `return function compiledMap(input, context, options) {`,
+    `if (input === null || input === undefined) return input;`,
+    `const output = {};`,
+    ...statements,
+    outputOrder
+      ? `return toOutputOrder(output, outputOrder);`
+      : `return output;`,
+    `};`,
+  ].join("\n");
+  const factory = new Function(
+    "OmitProperty",
+    "prependMappingPath",
+    "pickDependencies",
+    "toOutputOrder",
+    "objectMapper",
+    "outputOrder",
+    ...mapperFunctions.map((_, index) => `mapper${index}`),
+    body,
+  );
+  return factory(
+    OmitProperty,
+    prependMappingPath,
+    pickDependencies,
+    toOutputOrder,
+    mapper,
+    outputOrder,
+    ...mapperFunctions,
+  );
+}
+
 /**
  * Convert from one type of object to another.
  *
@@ -157,9 +371,56 @@ export class ObjectMapper<
     };
   }
 
+  /**
+   * Create an instance from a schema whose type is already known, like one
+   *  built at runtime by another mapper. Unlike
+   *  {@linkcode ObjectMapper.create}, this doesn't reject extra properties,
+   *  so use that instead for schemas written as object literals.
+   *
+   * @private
+   */
+  public static fromSchema<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >(
+    schema: ObjectMapperSchema<TInput, TOutput, TContext>,
+  ): ObjectMapper<TInput, TOutput, TContext> {
+    return new ObjectMapper<TInput, TOutput, TContext>(schema);
+  }
+
+  /**
+   * Create a {@linkcode UnionObjectMapper} factory function, for mapping a
+   *  discriminated union. Invoke it immediately, with the name of the
+   *  discriminant property and an object with a schema or mapper for every
+   *  variant.
+   *
+   * Every variant of the input union must be handled, and each schema's input
+   *  type is narrowed to its variant.
+   *
+   * @example ```ts
+   * type Pet =
+   *   | { kind: "cat"; name: string; livesLeft: number }
+   *   | { kind: "dog"; name: string; goodBoy: boolean };
+   *
+   * const petMapper = ObjectMapper.union<Pet, { description: string }>()("kind", {
+   *   cat: { description: (input) => `${input.name} has ${input.livesLeft} lives left` },
+   *   dog: { description: (input) => `${input.name} is a good boy: ${input.goodBoy}` },
+   * });
+   * ```
+   */
+  public static union<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >() {
+    return UnionObjectMapper.create<TInput, TOutput, TContext>();
+  }
+
   /**
    * For faster runtime performance, the object mapper schema is converted to
-   *  a Map instance.
+   *  a Map instance. Input paths are converted to functions that read the
+   *  path.
    * @private
    */
   protected readonly schemaMap: Map<
@@ -167,6 +428,27 @@ export class ObjectMapper<
     MapperSchemaValue<TInput, TOutput, TContext>
   >;
 
+  /**
+   * The function generated by {@linkcode ObjectMapper#compile}, if the schema
+   *  has been compiled.
+   * @private
+   */
+  protected compiledMap?: CompiledMapFunction<TInput, TOutput, TContext>;
+
+  /**
+   * The keys of the schema, in schema order, if derived properties are
+   *  mapped in a different order. Otherwise `undefined`.
+   * @private
+   */
+  protected readonly outputOrder: readonly (keyof TOutput)[] | undefined;
+
+  /**
+   * The middleware added with {@linkcode ObjectMapper#use}, in the order it
+   *  was added.
+   * @private
+   */
+  protected readonly middleware: MapperMiddleware<TInput, TContext>[] = [];
+
   protected constructor(
     /**
      * An object, where each property is named after a property on the output type,
@@ -178,10 +460,21 @@ export class ObjectMapper<
     this.schemaMap = new Map<
       keyof TOutput,
       MapperSchemaValue<TInput, TOutput, TContext>
-    >(Object.entries(schema) as [
-      keyof TOutput,
-      MapperSchemaValue<TInput, TOutput, TContext>,
-    ][]);
+    >(
+      sortByDependencies(
+        Object.entries(schema).map(([key, value]) => [
+          key,
+          isInputPath(value) ? createInputPathReader(value) : value,
+        ]) as [
+          keyof TOutput,
+          MapperSchemaValue<TInput, TOutput, TContext>,
+        ][],
+      ),
+    );
+    this.outputOrder = getOutputOrder(
+      Object.keys(schema) as (keyof TOutput)[],
+      this.schemaMap.keys(),
+    );
   }
 
   /**
@@ -191,6 +484,7 @@ export class ObjectMapper<
   array(
     input: Iterable<TInput>,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput[]>;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -201,6 +495,7 @@ export class ObjectMapper<
   array(
     input: Iterable<TInput> | null,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput[]> | null;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -211,6 +506,7 @@ export class ObjectMapper<
   array(
     input: Iterable<TInput> | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput[]> | undefined;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -221,6 +517,7 @@ export class ObjectMapper<
   array(
     input: Iterable<TInput> | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput[]> | null | undefined;
   /**
    * Map multiple input objects from some iterable, and return an
@@ -231,95 +528,586 @@ export class ObjectMapper<
   array(
     input: Iterable<TInput> | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput[]> | null | undefined {
     if (input === undefined || input === null) {
       return input;
-    } else if (Array.isArray(input)) {
-      // This approach might be faster than using the iterator protocol ("for of" loop)
-      return input.map((item) => this.map(item, context));
-    } else {
-      const output = [];
-      for (const item of input) {
-        output.push(this.map(item, context));
-      }
-      return output;
     }
+    return mapArray(
+      input,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
+  }
+
+  /**
+   * Map input objects from an iterable or async iterable, like a database
+   *  cursor or a paged API reader, yielding each output object as it's
+   *  mapped.
+   *
+   * Input objects are read from the source one at a time, as the output is
+   *  consumed. If the consumer stops early, like by breaking out of a
+   *  `for await` loop, the source is closed.
+   *
+   * If a mapper function throws, the error is thrown to the consumer as a
+   *  {@linkcode MappingError}, with the element's index at the start of its
+   *  path, and the source is closed.
+   *
+   * @example ```ts
+   * const objectMapper = ObjectMapper.create<{ in: string }, { out: string }>()({
+   *   out: "in",
+   * });
+   *
+   * async function* readRows() {
+   *   yield { in: "first" };
+   *   yield { in: "second" };
+   * }
+   *
+   * for await (const output of objectMapper.stream(readRows())) {
+   *   console.log(output);
+   * }
+   * // --> { out: "first" }
+   * // --> { out: "second" }
+   * ```
+   */
+  stream(
+    source: Iterable<TInput> | AsyncIterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): AsyncGenerator<ExactReturn<TOutput>, void, undefined> {
+    return streamWithConcurrencyLimit(
+      source,
+      1,
+      (item, index) => this.mapElement(item, index, context, options),
+    );
+  }
+
+  /**
+   * Create a `TransformStream` that maps each input object written to it,
+   *  for use in a Web Streams pipeline, like
+   *  `readable.pipeThrough(objectMapper.toTransformStream())`.
+   *
+   * If a mapper function throws, the stream is errored with a
+   *  {@linkcode MappingError}, with the element's index at the start of its
+   *  path. Set the high-water marks in the options to queue more input or
+   *  output objects before applying backpressure.
+   *
+   * See {@linkcode NdjsonParseStream} and {@linkcode NdjsonStringifyStream}
+   *  for reading and writing newline-delimited JSON.
+   *
+   * @example ```ts
+   * const objectMapper = ObjectMapper.create<{ in: string }, { out: string }>()({
+   *   out: "in",
+   * });
+   *
+   * const outputs = ReadableStream.from([{ in: "first" }, { in: "second" }])
+   *   .pipeThrough(objectMapper.toTransformStream());
+   *
+   * for await (const output of outputs) {
+   *   console.log(output);
+   * }
+   * // --> { out: "first" }
+   * // --> { out: "second" }
+   * ```
+   */
+  toTransformStream(
+    context: OptionalArgIfUndefined<TContext>,
+    options?: TransformStreamOptions,
+  ): TransformStream<TInput, ExactReturn<TOutput>> {
+    return createMappingTransformStream(
+      (item: TInput, index) => this.mapElement(item, index, context, options),
+      options,
+    );
+  }
+
+  /**
+   * Map one element of the input to {@linkcode ObjectMapper#array}, adding
+   *  its index to the path of any {@linkcode MappingError}.
+   * @private
+   */
+  protected mapElement(
+    item: TInput,
+    index: number,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput> {
+    return mapElement(
+      item,
+      index,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
   }
 
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    */
   map(
     input: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput>;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null`, it will be returned as-is.
    */
   map(
     input: TInput | null,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput> | null;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `undefined`, it will be returned as-is.
    */
   map(
     input: TInput | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput> | undefined;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
    */
   map(
     input: TInput | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput> | null | undefined;
   /**
    * Maps an input object to an output object.
    *
    * It does so by iterating each property in the object schema,
-   *  and invoking the property's mapping function, passing the input and context.
+   *  and invoking the property's mapping function, passing the input, context
+   *  and options.
    *
    * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   *
+   * If a mapper function throws, the error is wrapped in a
+   *  {@linkcode MappingError}, recording the path to the output property.
+   *  If the {@linkcode MapOptions#collectErrors} option is set, every property
+   *  is mapped, and all errors are thrown together in an
+   *  {@linkcode AggregateMappingError}.
    */
   map(
     input: TInput | null | undefined,
     context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions = noOptions,
   ): ExactReturn<TOutput> | null | undefined {
+    if (
+      this.middleware.length === 0 || input === null || input === undefined
+    ) {
+      return this.mapProperties(input, context, options);
+    }
+    const call: MapperCall<TInput, TContext> = {
+      mapper: this,
+      input,
+      context: context as TContext,
+      options,
+    };
+    for (const middleware of this.middleware) {
+      middleware.beforeMap?.(call);
+    }
+    const output = this.mapProperties(input, context, options)!;
+    for (const middleware of this.middleware.toReversed()) {
+      middleware.afterMap?.(call, output as Record<string, unknown>);
+    }
+    return output;
+  }
+
+  /**
+   * Map every property of the input object, without running the
+   *  {@linkcode MapperMiddleware#beforeMap} and
+   *  {@linkcode MapperMiddleware#afterMap} hooks.
+   * @private
+   */
+  protected mapProperties(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): ExactReturn<TOutput> | null | undefined {
+    if (options.collectErrors) {
+      return this.mapCollectingErrors(input, context, options);
+    }
+    const recordingLineage = isRecordingLineage(options);
+    if (this.compiledMap && !recordingLineage) {
+      return this.compiledMap(input, context, options);
+    }
     if (input === null || input === undefined) {
       return input;
     }
+    const schemaMap: ReadonlyMap<
+      keyof TOutput,
+      MapperSchemaValue<TInput, TOutput, TContext>
+    > = recordingLineage
+      ? wrapSchemaMapForLineage(this.schemaMap)
+      : this.schemaMap;
     // Unsafe stuff happens here
     const output: Record<string, unknown> = {};
-    for (const [key, getterOrString] of this.schemaMap) {
-      if (!isMapperFunction(getterOrString)) {
+    for (const [key, getterOrString] of schemaMap) {
+      if (
+        !isMapperFunction(getterOrString) && !isDerivedProperty(getterOrString)
+      ) {
         output[key as string] = input[getterOrString];
       } else {
-        const mappedValue = getterOrString(input, context);
+        let mappedValue;
+        try {
+          mappedValue = callMapperFunction(
+            getterOrString,
+            input,
+            context,
+            options,
+            output,
+          );
+        } catch (error) {
+          throw prependMappingPath(error, key as string, this);
+        }
         if (mappedValue !== OmitProperty) {
           output[key as string] = mappedValue;
         }
       }
     }
-    return output as ExactReturn<TOutput>;
+    return this.toSchemaOrder(output);
+  }
+
+  /**
+   * Copy an output object into schema order, if derived properties were
+   *  mapped out of order.
+   * @private
+   */
+  protected toSchemaOrder(
+    output: Record<string, unknown>,
+  ): ExactReturn<TOutput> {
+    return (this.outputOrder
+      ? toOutputOrder(output, this.outputOrder)
+      : output) as ExactReturn<TOutput>;
+  }
+
+  /**
+   * Map every property of the input object, even after a mapper function
+   *  throws. Throws an {@linkcode AggregateMappingError} if any mapper
+   *  function throws.
+   * @private
+   */
+  protected mapCollectingErrors(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions,
+  ): ExactReturn<TOutput> | null | undefined {
+    if (input === null || input === undefined) {
+      return input;
+    }
+    const output: Record<string, unknown> = {};
+    const errors: MappingError[] = [];
+    const failedKeys = new Set<PropertyKey>();
+    for (const [key, getterOrString] of this.schemaMap) {
+      if (
+        !isMapperFunction(getterOrString) && !isDerivedProperty(getterOrString)
+      ) {
+        output[key as string] = input[getterOrString];
+      } else if (
+        isDerivedProperty(getterOrString) &&
+        getterOrString.dependencies.some((dependency) =>
+          failedKeys.has(dependency)
+        )
+      ) {
+        // The property can't be derived, but the error is already reported
+        //  for its dependency.
+        failedKeys.add(key);
+      } else {
+        try {
+          const mappedValue = callMapperFunction(
+            getterOrString,
+            input,
+            context,
+            options,
+            output,
+          );
+          if (mappedValue !== OmitProperty) {
+            output[key as string] = mappedValue;
+          }
+        } catch (error) {
+          failedKeys.add(key);
+          errors.push(...collectMappingErrors(error, key as string, this));
+        }
+      }
+    }
+    if (errors.length > 0) {
+      throw new AggregateMappingError(errors);
+    }
+    return this.toSchemaOrder(output);
+  }
+
+  /**
+   * Maps an input object to an output object, like
+   *  {@linkcode ObjectMapper#map}, but doesn't stop at the first error.
+   *
+   * Every property in the schema is mapped, even after a mapper function
+   *  throws. If any mapper function throws, the result contains every
+   *  failure, including those from nested mappers that were passed the
+   *  mapping options.
+   *
+   * @example ```ts
+   * const objectMapper = ObjectMapper.create<{ in: string }, { out: number }>()({
+   *   out: (input) => {
+   *     const value = parseInt(input.in, 10);
+   *     if (isNaN(value)) {
+   *       throw new Error(`Not a number: ${input.in}`);
+   *     }
+   *     return value;
+   *   },
+   * });
+   *
+   * const result = objectMapper.tryMap({ in: "abc" });
+   * if (!result.ok) {
+   *   console.log(result.errors);
+   *   // --> [{ path: "out", error: Error("Not a number: abc") }]
+   * }
+   * ```
+   */
+  tryMap(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): MappingResult<ExactReturn<TOutput>> {
+    return toMappingResult(() =>
+      this.map(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, like
+   *  {@linkcode ObjectMapper#array}, but doesn't stop at the first error.
+   *
+   * Every element is mapped, even after an element fails to map. If any
+   *  element fails, the result contains every failure. Each failure's path
+   *  starts with the element's index, like `[3].price`.
+   */
+  tryArray(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): MappingResult<ExactReturn<TOutput[]>> {
+    return toMappingResult(() =>
+      this.array(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Generate a specialised mapping function from the schema, and use it for
+   *  all future calls to {@linkcode ObjectMapper#map}. This includes calls
+   *  made by {@linkcode ObjectMapper#array}, and by functions returned from
+   *  {@linkcode ObjectMapper#toFunction}.
+   *
+   * The compiled function produces exactly the same output as the
+   *  uncompiled mapper, but avoids walking the schema on every call. This is
+   *  worthwhile for mappers that are invoked many times, like those mapping
+   *  large result sets. Compiling uses the `Function` constructor, so it is not
+   *  available in environments that forbid `eval()`, such as under a strict
+   *  Content Security Policy.
+   *
+   * Returns this instance, so it can be chained after
+   *  {@linkcode ObjectMapper.create}.
+   *
+   * @example ```ts
+   * interface Input {
+   *   in: string;
+   * }
+   *
+   * interface Output {
+   *   out: string;
+   * }
+   *
+   * const objectMapper = ObjectMapper.create<Input, Output>()({
+   *   out: "in",
+   * }).compile();
+   * ```
+   */
+  compile(): this {
+    this.compiledMap ??= compileSchemaMap(
+      this,
+      this.schemaMap,
+      this.outputOrder,
+    );
+    return this;
+  }
+
+  /**
+   * Add middleware, whose hooks run on every call to
+   *  {@linkcode ObjectMapper#map}, including calls made by
+   *  {@linkcode ObjectMapper#array} and the other methods that map input
+   *  objects. See {@linkcode MapperMiddleware}.
+   *
+   * Middleware runs in the order it was added: the first middleware's
+   *  {@linkcode MapperMiddleware#property} hook is the outermost, and its
+   *  {@linkcode MapperMiddleware#afterMap} hook runs last.
+   *
+   * Returns this instance, so it can be chained after
+   *  {@linkcode ObjectMapper.create}.
+   *
+   * @example ```ts
+   * const objectMapper = ObjectMapper.create<{ in: string }, { out: string }>()({
+   *   out: "in",
+   * }).use({
+   *   property(property, next) {
+   *     const value = next();
+   *     console.log(`Mapped ${property.key}`);
+   *     return value;
+   *   },
+   * });
+   * ```
+   */
+  use(middleware: MapperMiddleware<TInput, TContext>): this {
+    if (this.middleware.length === 0) {
+      for (const [key, value] of this.schemaMap) {
+        this.schemaMap.set(
+          key,
+          wrapSchemaValue(this, key as string, value, this.middleware, false),
+        );
+      }
+      if (this.compiledMap) {
+        this.compiledMap = compileSchemaMap(
+          this,
+          this.schemaMap,
+          this.outputOrder,
+        );
+      }
+    }
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Describe where each output property gets its value from: an input
+   *  property, a constant, another mapper, and so on. See
+   *  {@linkcode PropertyDescription}.
+   *
+   * Use this for tools that inspect mappers, like documentation generators.
+   *
+   * @example ```ts
+   * import { mapFrom } from "./map-from.ts";
+   *
+   * const objectMapper = ObjectMapper.create<
+   *   { id: number },
+   *   { userId: number; kind: string; label: string }
+   * >()({
+   *   userId: "id",
+   *   kind: mapFrom.constant("user"),
+   *   label: (input) => `User ${input.id}`,
+   * });
+   *
+   * console.log(objectMapper.describe());
+   * // --> {
+   * //   userId: { kind: "inputKey", inputKey: "id" },
+   * //   kind: { kind: "constant", value: "user" },
+   * //   label: { kind: "function", name: "label" },
+   * // }
+   * ```
+   */
+  describe(): SchemaDescription<TOutput> {
+    return describeSchema<TOutput>(this.schema);
+  }
+
+  /**
+   * Map an example input object, and record which input properties each
+   *  output property reads, like for reviewing where personal data ends up.
+   *  The output object is discarded.
+   *
+   * Input property names and paths in the schema are recorded directly. While
+   *  a mapper function runs, it's passed a proxy of the input object, which
+   *  records each input property that the function reads. Only the input
+   *  properties read for this input object are recorded, so choose one that
+   *  exercises every branch of the mapper functions.
+   *
+   * Nested mappers are included, if they're passed the options.
+   *
+   * @example ```ts
+   * const userMapper = ObjectMapper.create<
+   *   { name: { first: string; last: string }; email: string },
+   *   { fullName: string; contact: string }
+   * >()({
+   *   fullName: (input) => `${input.name.first} ${input.name.last}`,
+   *   contact: "email",
+   * });
+   *
+   * const lineage = userMapper.traceLineage({
+   *   name: { first: "Ada", last: "Lovelace" },
+   *   email: "ada@example.com",
+   * });
+   * console.log(JSON.stringify(lineage));
+   * // --> {"entries":[
+   * //   {"output":"fullName","inputs":["name.first","name.last"],"dependencies":[]},
+   * //   {"output":"contact","inputs":["email"],"dependencies":[]}
+   * // ]}
+   * ```
+   */
+  traceLineage(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): MappingLineage {
+    const recorder = new LineageRecorder();
+    this.map(input, context, createLineageOptions(recorder));
+    return recorder.toLineage();
+  }
+
+  /**
+   * Map some example input objects, and return the paths of their properties
+   *  that no output property reads, like `internalNotes` or
+   *  `address.countryCode`. These are either fields you can stop loading, or
+   *  data that the mapper correctly keeps out of the output.
+   *
+   * Reads are recorded like {@linkcode ObjectMapper#traceLineage}, so choose
+   *  examples that exercise every branch of the mapper functions. A property
+   *  is only reported if it isn't read for any of the examples. If a property
+   *  is read as a whole, like an object passed to `JSON.stringify()`, its
+   *  nested properties count as read.
+   *
+   * For a check at compile time, see {@linkcode UnmappedInputKeys}.
+   *
+   * @example ```ts
+   * const userMapper = ObjectMapper.create<
+   *   { id: number; passwordHash: string; profile: { bio: string; avatar: string } },
+   *   { id: number; bio: string }
+   * >()({
+   *   id: "id",
+   *   bio: "profile.bio",
+   * });
+   *
+   * const unused = userMapper.findUnusedInputs([
+   *   { id: 1, passwordHash: "...", profile: { bio: "Hi", avatar: "a.png" } },
+   * ]);
+   * console.log(unused);
+   * // --> ["passwordHash", "profile.avatar"]
+   * ```
+   */
+  findUnusedInputs(
+    samples: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): string[] {
+    const inputs = [...samples];
+    return findUnusedInputPaths(
+      inputs,
+      inputs.map((input) => this.traceLineage(input, context)),
+    );
   }
 
   /**
@@ -347,8 +1135,46 @@ export class ObjectMapper<
     const func: ObjectMapperFunctionBeingBuilt<TInput, TOutput, TContext> = (
       value,
       context,
-    ) => this.map(value, context);
+      options,
+    ) => this.map(value, context, options);
     func.schema = this.schema;
-    return func;
+    return describeMapperFunction(func, { kind: "nested", mapper: this });
+  }
+
+  /**
+   * Create an {@linkcode AsyncObjectMapper} with the same schema as this
+   *  instance. Mapper functions from this instance aren't awaited, so they
+   *  don't add a delay to each property they map.
+   *
+   * Its schema is still this instance's {@linkcode ObjectMapperSchema}. An
+   *  {@linkcode AsyncObjectMapperSchema} doesn't accept synchronous mapper
+   *  functions yet, so it can't be spread into the schema of another
+   *  AsyncObjectMapper.
+   *
+   * @example ```ts
+   * interface Input {
+   *   id: number;
+   *   name: string;
+   * }
+   *
+   * interface Output {
+   *   id: number;
+   *   displayName: string;
+   * }
+   *
+   * const syncMapper = ObjectMapper.create<Input, Output>()({
+   *   id: "id",
+   *   displayName: (input) => input.name.toUpperCase(),
+   * });
+   *
+   * const asyncMapper = syncMapper.toAsync();
+   * const outputs = await asyncMapper.array([{ id: 1, name: "ada" }]);
+   * ```
+   */
+  toAsync(): SyncBackedAsyncObjectMapper<TInput, TOutput, TContext> {
+    // The instance keeps this schema, so type it as what it is.
+    return AsyncObjectMapper.fromSchema(
+      this.schema,
+    ) as unknown as SyncBackedAsyncObjectMapper<TInput, TOutput, TContext>;
   }
 }
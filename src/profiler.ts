@@ -0,0 +1,322 @@
+import type { MapperCall, MapperMiddleware } from "./types.ts";
+
+/**
+ * Timings for one mapper, or one of its output properties, in a
+ *  {@linkcode MapperProfile}. Durations are in milliseconds.
+ */
+export interface MapperProfileEntry {
+  /**
+   * The name given to the mapper, when passed to
+   *  {@linkcode MapperProfiler#middleware}.
+   */
+  readonly mapper: string;
+
+  /**
+   * The name of the output property, or `null` for the timings of whole
+   *  {@linkcode ObjectMapper#map} calls.
+   */
+  readonly key: string | null;
+
+  /**
+   * The number of times the mapper or property was mapped.
+   */
+  readonly calls: number;
+
+  readonly totalMs: number;
+  readonly meanMs: number;
+  readonly p50Ms: number;
+  readonly p95Ms: number;
+  readonly p99Ms: number;
+  readonly maxMs: number;
+}
+
+/**
+ * A report of the timings recorded by a {@linkcode MapperProfiler}, returned
+ *  by {@linkcode MapperProfiler#getProfile}.
+ *
+ * Entries are sorted by their total duration, slowest first. Pass the profile
+ *  to `JSON.stringify()` for a JSON report, or call
+ *  {@linkcode MapperProfile#toTable} for a readable table.
+ */
+export class MapperProfile {
+  constructor(
+    /**
+     * The timings of each mapper, and each of their output properties.
+     */
+    public readonly entries: readonly MapperProfileEntry[],
+  ) {}
+
+  /**
+   * Format the profile as a plain text table, with one row per entry. Whole
+   *  {@linkcode ObjectMapper#map} calls are shown with the property `(map)`.
+   */
+  toTable(): string {
+    const header = [
+      "Mapper",
+      "Property",
+      "Calls",
+      "Total ms",
+      "Mean ms",
+      "p50 ms",
+      "p95 ms",
+      "p99 ms",
+      "Max ms",
+    ];
+    const rows = this.entries.map((entry) => [
+      entry.mapper,
+      entry.key ?? "(map)",
+      String(entry.calls),
+      ...[
+        entry.totalMs,
+        entry.meanMs,
+        entry.p50Ms,
+        entry.p95Ms,
+        entry.p99Ms,
+        entry.maxMs,
+      ].map((duration) => duration.toFixed(3)),
+    ]);
+    const widths = header.map((title, column) =>
+      Math.max(title.length, ...rows.map((row) => row[column].length))
+    );
+    const formatRow = (row: readonly string[]): string =>
+      row
+        .map((cell, column) =>
+          // Left-align the names, and right-align the numbers.
+          column < 2
+            ? cell.padEnd(widths[column])
+            : cell.padStart(widths[column])
+        )
+        .join("  ")
+        .trimEnd();
+    return [
+      formatRow(header),
+      widths.map((width) => "-".repeat(width)).join("  "),
+      ...rows.map(formatRow),
+    ].join("\n");
+  }
+}
+
+/**
+ * Options for a {@linkcode MapperProfiler}.
+ */
+export interface MapperProfilerOptions {
+  /**
+   * The most durations to keep for each mapper and output property. Once a
+   *  mapper or property has been mapped more times than this, a random
+   *  sample of its durations is kept, and percentiles are estimated from the
+   *  sample. Call counts, totals, means and maximums stay exact.
+   *
+   * Must be a positive integer, or `Infinity` to keep every duration. Defaults
+   *  to `10000`.
+   */
+  readonly maxSamples?: number;
+}
+
+/**
+ * The timings recorded for one mapper or output property.
+ *
+ * @private
+ */
+interface DurationStats {
+  calls: number;
+  totalMs: number;
+  maxMs: number;
+  /**
+   * A uniform random sample of the durations, kept with reservoir sampling.
+   */
+  readonly samples: number[];
+}
+
+/**
+ * Return the value at percentile `p` (0-100) of some sorted durations, using
+ *  the nearest-rank method.
+ *
+ * @private
+ */
+function percentile(sortedDurations: readonly number[], p: number): number {
+  const rank = Math.ceil((p / 100) * sortedDurations.length);
+  return sortedDurations[Math.max(rank, 1) - 1];
+}
+
+/**
+ * Summarise the durations recorded for one mapper or property.
+ *
+ * @private
+ */
+function createEntry(
+  mapper: string,
+  key: string | null,
+  stats: DurationStats,
+): MapperProfileEntry {
+  const sorted = stats.samples.toSorted((a, b) => a - b);
+  return {
+    mapper,
+    key,
+    calls: stats.calls,
+    totalMs: stats.totalMs,
+    meanMs: stats.totalMs / stats.calls,
+    p50Ms: percentile(sorted, 50),
+    p95Ms: percentile(sorted, 95),
+    p99Ms: percentile(sorted, 99),
+    maxMs: stats.maxMs,
+  };
+}
+
+/**
+ * Records how many times each mapper and output property is mapped, and how
+ *  long they take, so you can find slow mapper functions, like during a load
+ *  test.
+ *
+ * Add the profiler to each mapper you want to measure, with
+ *  {@linkcode ObjectMapper#use} or {@linkcode AsyncObjectMapper#use}, giving
+ *  each mapper a name to show in the report. Calls made by `array()`,
+ *  `stream()` and the other methods that map input objects are included.
+ *
+ * Property timings include the time spent in nested mappers, and for an
+ *  {@linkcode AsyncObjectMapper}, the time spent waiting for promises. Calls
+ *  that throw are included in property timings, but not in the timings of
+ *  whole `map()` calls.
+ *
+ * Timings are kept until {@linkcode MapperProfiler#reset} is called. At most
+ *  {@linkcode MapperProfilerOptions#maxSamples} durations are kept for each
+ *  mapper and property, so memory use stays bounded during long runs, and
+ *  percentiles are estimated from a random sample after that many calls.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const profiler = new MapperProfiler();
+ * const userMapper = ObjectMapper.create<{ id: number }, { userId: string }>()({
+ *   userId: (input) => String(input.id),
+ * }).use(profiler.middleware("UserDto"));
+ *
+ * userMapper.array([{ id: 1 }, { id: 2 }]);
+ *
+ * console.log(profiler.getProfile().toTable());
+ * // Mapper   Property  Calls  Total ms  Mean ms  p50 ms  p95 ms  p99 ms  Max ms
+ * // -------  --------  -----  --------  -------  ------  ------  ------  ------
+ * // UserDto  (map)         2     0.050    0.025   0.020   0.030   0.030   0.030
+ * // UserDto  userId        2     0.010    0.005   0.004   0.006   0.006   0.006
+ * ```
+ *
+ * @group runtime
+ */
+export class MapperProfiler {
+  /**
+   * The recorded timings, by mapper name, then by output property name, or
+   *  `null` for whole `map()` calls.
+   */
+  protected readonly durations = new Map<
+    string,
+    Map<string | null, DurationStats>
+  >();
+
+  /**
+   * The most durations to keep for each mapper and output property.
+   */
+  protected readonly maxSamples: number;
+
+  constructor(options: MapperProfilerOptions = {}) {
+    const { maxSamples = 10_000 } = options;
+    if (
+      maxSamples !== Infinity &&
+      !(Number.isSafeInteger(maxSamples) && maxSamples >= 1)
+    ) {
+      throw new RangeError(
+        `The maxSamples option must be a positive integer or Infinity, but was ${maxSamples}`,
+      );
+    }
+    this.maxSamples = maxSamples;
+  }
+
+  /**
+   * Create middleware that records the timings of a mapper, under the given
+   *  name. Mappers given the same name share their timings.
+   */
+  middleware(mapperName: string): MapperMiddleware {
+    const startTimes = new WeakMap<MapperCall, number>();
+    return {
+      beforeMap: (call) => {
+        startTimes.set(call, performance.now());
+      },
+      afterMap: (call) => {
+        const startTime = startTimes.get(call);
+        if (startTime !== undefined) {
+          this.record(mapperName, null, performance.now() - startTime);
+        }
+      },
+      property: (property, next) => {
+        const startTime = performance.now();
+        const recordDuration = () =>
+          this.record(mapperName, property.key, performance.now() - startTime);
+        let value: unknown;
+        try {
+          value = next();
+        } catch (error) {
+          recordDuration();
+          throw error;
+        }
+        if (value instanceof Promise) {
+          return value.finally(recordDuration);
+        }
+        recordDuration();
+        return value;
+      },
+    };
+  }
+
+  /**
+   * Return a report of every timing recorded so far.
+   */
+  getProfile(): MapperProfile {
+    const entries: MapperProfileEntry[] = [];
+    for (const [mapper, durationsByKey] of this.durations) {
+      for (const [key, stats] of durationsByKey) {
+        entries.push(createEntry(mapper, key, stats));
+      }
+    }
+    entries.sort((a, b) => b.totalMs - a.totalMs);
+    return new MapperProfile(entries);
+  }
+
+  /**
+   * Discard every timing recorded so far.
+   */
+  reset(): void {
+    this.durations.clear();
+  }
+
+  /**
+   * Record how long a mapper or property took to map once.
+   * @private
+   */
+  protected record(
+    mapperName: string,
+    key: string | null,
+    duration: number,
+  ): void {
+    let durationsByKey = this.durations.get(mapperName);
+    if (!durationsByKey) {
+      durationsByKey = new Map();
+      this.durations.set(mapperName, durationsByKey);
+    }
+    let stats = durationsByKey.get(key);
+    if (!stats) {
+      stats = { calls: 0, totalMs: 0, maxMs: 0, samples: [] };
+      durationsByKey.set(key, stats);
+    }
+    stats.calls++;
+    stats.totalMs += duration;
+    stats.maxMs = Math.max(stats.maxMs, duration);
+    if (stats.samples.length < this.maxSamples) {
+      stats.samples.push(duration);
+    } else {
+      // Replace a random sample, so every duration is equally likely to be
+      //  kept.
+      const index = Math.floor(Math.random() * stats.calls);
+      if (index < this.maxSamples) {
+        stats.samples[index] = duration;
+      }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import type { MapperFallback, RetryOptions } from "./async-types.ts";
+import type { MapOptions } from "./types.ts";
+
+/**
+ * An async mapper function, with the input, context and output types of the
+ *  function it was created from.
+ *
+ * @private
+ */
+type WrappedMapperFunction<TInput, TContext, TValue> = (
+  input: TInput,
+  context: TContext,
+  options: MapOptions,
+) => Promise<TValue>;
+
+/**
+ * Wrap a mapper function so it rejects, or resolves with a fallback value, if
+ *  it takes longer than `ms`. See {@linkcode mapFromAsync.timeout}.
+ *
+ * The fallback is a rest parameter, so a fallback of `undefined` can be told
+ *  apart from not passing one.
+ *
+ * @private
+ */
+export function createTimeoutMapperFunction<
+  TInput,
+  TContext,
+  TValue,
+  TFallback,
+>(
+  mapperFunction: WrappedMapperFunction<TInput, TContext, TValue>,
+  ms: number,
+  ...fallbackArgs: [] | [fallback: MapperFallback<TFallback>]
+): WrappedMapperFunction<TInput, TContext, TValue | TFallback> {
+  return async function timeout(
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ): Promise<TValue | TFallback> {
+    const controller = new AbortController();
+    const signal = options?.signal
+      ? AbortSignal.any([options.signal, controller.signal])
+      : controller.signal;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => {
+        const error = new DOMException(
+          `The mapper function timed out after ${ms} ms`,
+          "TimeoutError",
+        );
+        controller.abort(error);
+        reject(error);
+      }, ms);
+    });
+    try {
+      return await Promise.race([
+        mapperFunction(input, context, { ...options, signal }),
+        timedOut,
+      ]);
+    } catch (error) {
+      if (fallbackArgs.length === 0 || !controller.signal.aborted) {
+        throw error;
+      }
+      const [fallback] = fallbackArgs;
+      return typeof fallback === "function"
+        ? await (fallback as (
+          error: unknown,
+        ) => TFallback | Promise<TFallback>)(
+          error,
+        )
+        : fallback as TFallback;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
+
+/**
+ * Wrap a mapper function so it's called again if it rejects. See
+ *  {@linkcode mapFromAsync.retry}.
+ *
+ * @private
+ */
+export function createRetryMapperFunction<TInput, TContext, TValue>(
+  mapperFunction: WrappedMapperFunction<TInput, TContext, TValue>,
+  retryOptions: RetryOptions,
+): WrappedMapperFunction<TInput, TContext, TValue> {
+  const { attempts, backoff = 0, retryIf = () => true } = retryOptions;
+  if (!Number.isSafeInteger(attempts) || attempts < 1) {
+    throw new RangeError(
+      `The attempts option must be a positive integer, but was ${attempts}`,
+    );
+  }
+  return async function retry(
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ): Promise<TValue> {
+    for (let attempt = 1;; attempt++) {
+      try {
+        return await mapperFunction(input, context, options);
+      } catch (error) {
+        options?.signal?.throwIfAborted();
+        if (attempt >= attempts || !retryIf(error, attempt)) {
+          throw error;
+        }
+        await delay(
+          typeof backoff === "function" ? backoff(attempt, error) : backoff,
+          options?.signal,
+        );
+      }
+    }
+  };
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's abort reason if it's
+ *  aborted first.
+ *
+ * @private
+ */
+function delay(ms: number, signal: AbortSignal | undefined): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
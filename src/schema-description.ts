@@ -0,0 +1,59 @@
+import type { PropertyDescription, SchemaDescription } from "./types.ts";
+
+/**
+ * The descriptions of mapper functions created by {@linkcode mapFrom},
+ *  {@linkcode mapFromAsync} and `toFunction()`.
+ *
+ * @private
+ */
+const mapperFunctionDescriptions = new WeakMap<object, PropertyDescription>();
+
+/**
+ * Record how {@linkcode describeSchema} should describe a mapper function,
+ *  and return the function.
+ *
+ * @private
+ */
+export function describeMapperFunction<TFunction extends object>(
+  mapperFunction: TFunction,
+  description: PropertyDescription,
+): TFunction {
+  mapperFunctionDescriptions.set(mapperFunction, description);
+  return mapperFunction;
+}
+
+/**
+ * Describe where each output property in a schema gets its value from. See
+ *  {@linkcode ObjectMapper#describe}.
+ *
+ * @private
+ */
+export function describeSchema<TOutput extends object>(
+  schema: Readonly<Record<keyof TOutput, unknown>>,
+): SchemaDescription<TOutput> {
+  const description: Record<string, PropertyDescription> = {};
+  for (const [key, value] of Object.entries(schema)) {
+    description[key] = describeSchemaValue(value);
+  }
+  return description as SchemaDescription<TOutput>;
+}
+
+/**
+ * Describe where one output property gets its value from.
+ *
+ * @private
+ */
+function describeSchemaValue(value: unknown): PropertyDescription {
+  if (typeof value === "function") {
+    return mapperFunctionDescriptions.get(value) ??
+      { kind: "function", name: value.name };
+  }
+  if (typeof value === "object" && value !== null) {
+    return {
+      kind: "derived",
+      dependencies: (value as { dependencies: readonly PropertyKey[] })
+        .dependencies,
+    };
+  }
+  return { kind: "inputKey", inputKey: String(value) };
+}
@@ -0,0 +1,49 @@
+import { getCallScope } from "./call-scope.ts";
+import { unwrapRecordingInput } from "./lineage-recording.ts";
+import type { MapOptions } from "./types.ts";
+
+/**
+ * Create a function that calls `loader` once per input object in each
+ *  top-level mapping call, and shares the result with every other call for
+ *  the same input object. See {@linkcode mapFromAsync.shared}.
+ *
+ * @private
+ */
+export function createSharedMapperFunction<
+  TInput extends object,
+  TContext,
+  TValue,
+>(
+  loader: (
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ) => Promise<TValue>,
+): (input: TInput, context: TContext, options: MapOptions) => Promise<TValue> {
+  function shared(
+    input: TInput,
+    context: TContext,
+    options: MapOptions,
+  ): Promise<TValue> {
+    const scope = getCallScope(options);
+    let results = scope.get(shared) as
+      | WeakMap<TInput, Promise<TValue>>
+      | undefined;
+    if (!results) {
+      results = new WeakMap();
+      scope.set(shared, results);
+    }
+    const key = unwrapRecordingInput(input);
+    let result = results.get(key);
+    if (!result) {
+      try {
+        result = Promise.resolve(loader(input, context, options));
+      } catch (error) {
+        result = Promise.reject(error);
+      }
+      results.set(key, result);
+    }
+    return result;
+  }
+  return shared;
+}
@@ -0,0 +1,102 @@
+import { formatMappingPath, type MappingPathSegment } from "./mapping-error.ts";
+import type { MapOptions, MapperSpan, MapperTracer } from "./types.ts";
+
+const spanScopeKey = Symbol("spanScope");
+
+/**
+ * The span that nested mapping calls record their spans under, and the path
+ *  to the output value they're mapping.
+ *
+ * @private
+ */
+interface SpanScope {
+  readonly span: MapperSpan | undefined;
+  readonly path: readonly MappingPathSegment[];
+}
+
+/**
+ * {@linkcode MapOptions}, with the span scope of the mapping call or property
+ *  they were passed to.
+ *
+ * @private
+ */
+interface ScopedMapOptions extends MapOptions {
+  readonly [spanScopeKey]?: SpanScope;
+}
+
+const rootSpanScope: SpanScope = { span: undefined, path: [] };
+
+/**
+ * Return the span scope of some options, or the root scope if they don't
+ *  have one.
+ *
+ * @private
+ */
+function getSpanScope(options: MapOptions): SpanScope {
+  return (options as ScopedMapOptions)[spanScopeKey] ?? rootSpanScope;
+}
+
+/**
+ * Return a copy of some options, with a different span scope.
+ *
+ * @private
+ */
+function withSpanScope(options: MapOptions, scope: SpanScope): MapOptions {
+  const scopedOptions: ScopedMapOptions = { ...options, [spanScopeKey]: scope };
+  return scopedOptions;
+}
+
+/**
+ * Return options for mapping one element of an array, so spans recorded
+ *  while mapping it have its index in their path. If the options don't have
+ *  the {@linkcode MapOptions#tracer} option, they're returned as-is.
+ *
+ * @private
+ */
+export function withPathSegment<TOptions extends MapOptions | undefined>(
+  options: TOptions,
+  segment: MappingPathSegment,
+): TOptions {
+  if (!options?.tracer) {
+    return options;
+  }
+  const scope = getSpanScope(options);
+  return withSpanScope(options, {
+    span: scope.span,
+    path: [...scope.path, segment],
+  }) as TOptions;
+}
+
+/**
+ * Record a span around `run`, as a child of the span in the options. `run`
+ *  is passed options with the new span, to pass on to nested mappers.
+ *
+ * If `key` is given, the span is for that output property, otherwise it's for
+ *  a whole {@linkcode AsyncObjectMapper#map} call.
+ *
+ * @private
+ */
+export async function traceSpan<T>(
+  tracer: MapperTracer,
+  options: MapOptions,
+  key: string | undefined,
+  run: (options: MapOptions) => T,
+): Promise<Awaited<T>> {
+  const parentScope = getSpanScope(options);
+  const path = key === undefined
+    ? parentScope.path
+    : [...parentScope.path, key];
+  const span = tracer.startSpan(key ?? "map", {
+    kind: key === undefined ? "map" : "property",
+    path: formatMappingPath(path),
+    parent: parentScope.span,
+  });
+  try {
+    return await run(withSpanScope(options, { span, path }));
+  } catch (error) {
+    span.setError(error);
+    throw error;
+  } finally {
+    span.end();
+  }
+}
@@ -0,0 +1,497 @@
+import type { AsyncObjectMapper } from "./async-object-mapper.ts";
+import type { ObjectMapper } from "./object-mapper.ts";
+import { OmitProperty } from "./omit-property.ts";
+import type { MapperMiddleware, OptionalArgIfUndefined } from "./types.ts";
+
+/**
+ * Thrown by the assertions in the testing module, like
+ *  {@linkcode assertMapsTo}, when an assertion fails.
+ */
+export class MapperAssertionError extends Error {
+  override name = "MapperAssertionError";
+}
+
+/**
+ * Used to determine if two values are deeply equal. Objects are equal if
+ *  they have the same prototype and the same own properties, so a missing
+ *  property doesn't equal one that's `undefined`. The entries of `Map`s and
+ *  `Set`s, the bytes of typed arrays, and the patterns of `RegExp`s are
+ *  compared too.
+ *
+ * @private
+ */
+function isEqual(actual: unknown, expected: unknown): boolean {
+  if (Object.is(actual, expected)) {
+    return true;
+  }
+  if (
+    typeof actual !== "object" || actual === null ||
+    typeof expected !== "object" || expected === null ||
+    Object.getPrototypeOf(actual) !== Object.getPrototypeOf(expected)
+  ) {
+    return false;
+  }
+  if (actual instanceof Date) {
+    return actual.getTime() === (expected as Date).getTime();
+  }
+  if (actual instanceof RegExp) {
+    const expectedRegExp = expected as RegExp;
+    return actual.source === expectedRegExp.source &&
+      actual.flags === expectedRegExp.flags;
+  }
+  if (ArrayBuffer.isView(actual)) {
+    const expectedView = expected as ArrayBufferView;
+    const actualBytes = new Uint8Array(
+      actual.buffer,
+      actual.byteOffset,
+      actual.byteLength,
+    );
+    const expectedBytes = new Uint8Array(
+      expectedView.buffer,
+      expectedView.byteOffset,
+      expectedView.byteLength,
+    );
+    return actualBytes.length === expectedBytes.length &&
+      actualBytes.every((byte, index) => byte === expectedBytes[index]);
+  }
+  if (actual instanceof Map) {
+    return isEqualMap(actual, expected as Map<unknown, unknown>) &&
+      isEqualOwnProperties(actual, expected);
+  }
+  if (actual instanceof Set) {
+    return isEqualSet(actual, expected as Set<unknown>) &&
+      isEqualOwnProperties(actual, expected);
+  }
+  return isEqualOwnProperties(actual, expected);
+}
+
+/**
+ * Used to determine if two objects have deeply equal own enumerable
+ *  properties.
+ *
+ * @private
+ */
+function isEqualOwnProperties(actual: object, expected: object): boolean {
+  const actualKeys = Object.keys(actual);
+  const expectedKeys = Object.keys(expected);
+  return actualKeys.length === expectedKeys.length &&
+    expectedKeys.every((key) =>
+      Object.hasOwn(actual, key) &&
+      isEqual(
+        actual[key as keyof typeof actual],
+        expected[key as keyof typeof expected],
+      )
+    );
+}
+
+/**
+ * Used to determine if two `Set`s have deeply equal values, in any order.
+ *
+ * @private
+ */
+function isEqualSet(
+  actual: ReadonlySet<unknown>,
+  expected: ReadonlySet<unknown>,
+): boolean {
+  if (actual.size !== expected.size) {
+    return false;
+  }
+  const unmatched = [...actual];
+  for (const value of expected) {
+    const index = unmatched.findIndex((other) => isEqual(other, value));
+    if (index === -1) {
+      return false;
+    }
+    unmatched.splice(index, 1);
+  }
+  return true;
+}
+
+/**
+ * Used to determine if two `Map`s have deeply equal keys and values, in any
+ *  order.
+ *
+ * @private
+ */
+function isEqualMap(
+  actual: ReadonlyMap<unknown, unknown>,
+  expected: ReadonlyMap<unknown, unknown>,
+): boolean {
+  if (actual.size !== expected.size) {
+    return false;
+  }
+  const unmatched = [...actual];
+  for (const [key, value] of expected) {
+    const index = unmatched.findIndex(([otherKey, otherValue]) =>
+      isEqual(otherKey, key) && isEqual(otherValue, value)
+    );
+    if (index === -1) {
+      return false;
+    }
+    unmatched.splice(index, 1);
+  }
+  return true;
+}
+
+/**
+ * Format a value for an assertion message, like `"Bob"` or `[1,2]`.
+ *
+ * @private
+ */
+function formatValue(value: unknown): string {
+  if (value === undefined) {
+    return "undefined";
+  }
+  if (typeof value === "bigint") {
+    return `${value}n`;
+  }
+  if (typeof value === "function") {
+    return `[Function ${value.name || "(anonymous)"}]`;
+  }
+  if (typeof value === "symbol") {
+    return value.toString();
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  if (value instanceof Map) {
+    return `Map {${
+      Array.from(
+        value,
+        ([key, entry]) => `${formatValue(key)} => ${formatValue(entry)}`,
+      ).join(", ")
+    }}`;
+  }
+  if (value instanceof Set) {
+    return `Set {${Array.from(value, formatValue).join(", ")}}`;
+  }
+  if (ArrayBuffer.isView(value) && !(value instanceof DataView)) {
+    return `${value.constructor.name} [${
+      Array.from(value as unknown as ArrayLike<number | bigint>, formatValue)
+        .join(", ")
+    }]`;
+  }
+  try {
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+/**
+ * Throw a {@linkcode MapperAssertionError} listing each output property whose
+ *  value isn't equal to the expected value.
+ *
+ * @private
+ */
+function assertOutputEquals(actual: unknown, expected: object): void {
+  if (typeof actual !== "object" || actual === null) {
+    throw new MapperAssertionError(
+      `Expected the mapper to return an object, but it returned ${
+        formatValue(actual)
+      }`,
+    );
+  }
+  const keys = new Set([...Object.keys(expected), ...Object.keys(actual)]);
+  const differences: string[] = [];
+  for (const key of keys) {
+    const actualValue = actual[key as keyof typeof actual];
+    const expectedValue = expected[key as keyof typeof expected];
+    if (!Object.hasOwn(actual, key)) {
+      differences.push(
+        `  ${key}:`,
+        `    - expected: ${formatValue(expectedValue)}`,
+        `    + actual:   (missing)`,
+      );
+    } else if (!Object.hasOwn(expected, key)) {
+      differences.push(
+        `  ${key}:`,
+        `    - expected: (missing)`,
+        `    + actual:   ${formatValue(actualValue)}`,
+      );
+    } else if (!isEqual(actualValue, expectedValue)) {
+      differences.push(
+        `  ${key}:`,
+        `    - expected: ${formatValue(expectedValue)}`,
+        `    + actual:   ${formatValue(actualValue)}`,
+      );
+    }
+  }
+  if (differences.length > 0) {
+    throw new MapperAssertionError(
+      ["The mapped output doesn't match the expected output:", ...differences]
+        .join("\n"),
+    );
+  }
+}
+
+/**
+ * Map an input object, and throw a {@linkcode MapperAssertionError} if the
+ *  output object isn't deeply equal to `expected`. The error message lists
+ *  each output property that's different, missing or unexpected.
+ *
+ * A property that's omitted with {@linkcode OmitProperty} isn't equal to one
+ *  that's `undefined`.
+ *
+ * With an {@linkcode AsyncObjectMapper}, it returns a promise, which rejects
+ *  if the assertion fails.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const userMapper = ObjectMapper.create<
+ *   { firstName: string; lastName: string },
+ *   { fullName: string }
+ * >()({
+ *   fullName: (input) => `${input.firstName} ${input.lastName}`,
+ * });
+ *
+ * Deno.test("maps the full name", () => {
+ *   assertMapsTo(
+ *     userMapper,
+ *     { firstName: "Bob", lastName: "Terwilliger" },
+ *     undefined,
+ *     { fullName: "Bob Terwilliger" },
+ *   );
+ * });
+ * ```
+ */
+export function assertMapsTo<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+>(
+  mapper: AsyncObjectMapper<TInput, TOutput, TContext>,
+  input: TInput,
+  context: OptionalArgIfUndefined<TContext>,
+  expected: TOutput,
+): Promise<void>;
+/**
+ * Map an input object, and throw a {@linkcode MapperAssertionError} if the
+ *  output object isn't deeply equal to `expected`. The error message lists
+ *  each output property that's different, missing or unexpected.
+ */
+export function assertMapsTo<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+>(
+  mapper: ObjectMapper<TInput, TOutput, TContext>,
+  input: TInput,
+  context: OptionalArgIfUndefined<TContext>,
+  expected: TOutput,
+): void;
+export function assertMapsTo<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+>(
+  mapper:
+    | ObjectMapper<TInput, TOutput, TContext>
+    | AsyncObjectMapper<TInput, TOutput, TContext>,
+  input: TInput,
+  context: OptionalArgIfUndefined<TContext>,
+  expected: TOutput,
+): void | Promise<void> {
+  const output: unknown = mapper.map(input, context);
+  if (output instanceof Promise) {
+    return output.then((output) => assertOutputEquals(output, expected));
+  }
+  assertOutputEquals(output, expected);
+}
+
+/**
+ * How many times one output property was mapped to each kind of value, in a
+ *  {@linkcode MapperCoverage}.
+ */
+export interface MapperCoverageEntry {
+  /**
+   * The name of the output property.
+   */
+  readonly key: string;
+
+  /**
+   * The number of times the property was mapped to a value other than
+   *  `undefined` or {@linkcode OmitProperty}.
+   */
+  readonly values: number;
+
+  /**
+   * The number of times the property was mapped to `undefined`.
+   */
+  readonly undefinedValues: number;
+
+  /**
+   * The number of times the property was omitted with
+   *  {@linkcode OmitProperty}.
+   */
+  readonly omitted: number;
+}
+
+/**
+ * Records what each output property of a mapper was mapped to, across the
+ *  tests that use the mapper, returned by {@linkcode recordCoverage}.
+ *
+ * Properties that throw aren't counted.
+ *
+ * @group runtime
+ */
+export class MapperCoverage {
+  /**
+   * The counts for each output property, in the order of the mapper's
+   *  schema.
+   */
+  protected readonly counts = new Map<
+    string,
+    { values: number; undefinedValues: number; omitted: number }
+  >();
+
+  constructor(
+    /**
+     * The names of the mapper's output properties.
+     */
+    keys: Iterable<string>,
+  ) {
+    for (const key of keys) {
+      this.counts.set(key, { values: 0, undefinedValues: 0, omitted: 0 });
+    }
+  }
+
+  /**
+   * The counts for each output property, in the order of the mapper's
+   *  schema.
+   */
+  get entries(): readonly MapperCoverageEntry[] {
+    return Array.from(this.counts, ([key, counts]) => ({ key, ...counts }));
+  }
+
+  /**
+   * Return the names of the output properties that were never mapped to a
+   *  value other than {@linkcode OmitProperty}: either they never ran, or
+   *  they were always omitted.
+   */
+  getUncoveredKeys(): string[] {
+    return this.entries
+      .filter((entry) => entry.values === 0 && entry.undefinedValues === 0)
+      .map((entry) => entry.key);
+  }
+
+  /**
+   * Create middleware that records the value of each output property. Used
+   *  by {@linkcode recordCoverage}.
+   */
+  middleware(): MapperMiddleware {
+    return {
+      property: (property, next) => {
+        const value = next();
+        if (value instanceof Promise) {
+          return value.then((value: unknown) => {
+            this.record(property.key, value);
+            return value;
+          });
+        }
+        this.record(property.key, value);
+        return value;
+      },
+    };
+  }
+
+  /**
+   * Clear the recorded counts, like between test suites.
+   */
+  reset(): void {
+    for (const key of this.counts.keys()) {
+      this.counts.set(key, { values: 0, undefinedValues: 0, omitted: 0 });
+    }
+  }
+
+  protected record(key: string, value: unknown): void {
+    let counts = this.counts.get(key);
+    if (!counts) {
+      counts = { values: 0, undefinedValues: 0, omitted: 0 };
+      this.counts.set(key, counts);
+    }
+    if (value === OmitProperty) {
+      counts.omitted++;
+    } else if (value === undefined) {
+      counts.undefinedValues++;
+    } else {
+      counts.values++;
+    }
+  }
+}
+
+/**
+ * Start recording what each output property of a mapper is mapped to, for
+ *  every call to the mapper from now on. Pass the returned
+ *  {@linkcode MapperCoverage} to {@linkcode assertFullCoverage} after the
+ *  tests have run, to check that every schema entry was exercised.
+ *
+ * This adds middleware to the mapper with {@linkcode ObjectMapper#use}, which
+ *  can't be removed, so call it once per mapper, like at the top of a test
+ *  module.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ * import { OmitProperty } from "./omit-property.ts";
+ *
+ * const userMapper = ObjectMapper.create<
+ *   { id: number; isAdmin: boolean },
+ *   { userId: number; role?: string }
+ * >()({
+ *   userId: "id",
+ *   role: (input) => input.isAdmin ? "admin" : OmitProperty,
+ * });
+ * const coverage = recordCoverage(userMapper);
+ *
+ * Deno.test("maps users", () => {
+ *   userMapper.map({ id: 1, isAdmin: false });
+ * });
+ *
+ * Deno.test("every property is covered", () => {
+ *   // Throws, because `role` was always omitted.
+ *   assertFullCoverage(coverage);
+ * });
+ * ```
+ */
+export function recordCoverage(
+  mapper: {
+    readonly schema: object;
+    use(middleware: MapperMiddleware): unknown;
+  },
+): MapperCoverage {
+  const coverage = new MapperCoverage(Object.keys(mapper.schema));
+  mapper.use(coverage.middleware());
+  return coverage;
+}
+
+/**
+ * Throw a {@linkcode MapperAssertionError} if any output property recorded by
+ *  a {@linkcode MapperCoverage} was never mapped to a value other than
+ *  {@linkcode OmitProperty}. The error message lists the uncovered
+ *  properties, and how many times each was omitted.
+ *
+ * To check the coverage with `@std/expect` instead, use
+ *  {@linkcode MapperCoverage#getUncoveredKeys}, like
+ *  `expect(coverage.getUncoveredKeys()).toEqual([])`.
+ */
+export function assertFullCoverage(coverage: MapperCoverage): void {
+  const uncoveredKeys = new Set(coverage.getUncoveredKeys());
+  const uncovered = coverage.entries.filter((entry) =>
+    uncoveredKeys.has(entry.key)
+  );
+  if (uncovered.length > 0) {
+    throw new MapperAssertionError(
+      [
+        "Some output properties were never mapped to a value:",
+        ...uncovered.map((entry) =>
+          entry.omitted === 0
+            ? `  ${entry.key}: never mapped`
+            : `  ${entry.key}: omitted ${entry.omitted} time${
+              entry.omitted === 1 ? "" : "s"
+            }`
+        ),
+      ].join("\n"),
+    );
+  }
+}
@@ -0,0 +1,186 @@
+import type { MapperSpan, MapperSpanOptions, MapperTracer } from "./types.ts";
+
+/**
+ * A span that has ended, passed to a {@linkcode SpanExporter} by a
+ *  {@linkcode LocalTracer}.
+ */
+export interface RecordedSpan {
+  /**
+   * Identifies the span, unique within its tracer. Starts from 1.
+   */
+  readonly id: number;
+
+  /**
+   * The ID of the span this span is nested in, if any.
+   */
+  readonly parentId: number | undefined;
+
+  /**
+   * `"map"` for a whole {@linkcode AsyncObjectMapper#map} call, or the name
+   *  of the output property.
+   */
+  readonly name: string;
+
+  readonly kind: MapperSpanOptions["kind"];
+
+  /**
+   * The path to the output object or property, from the outermost mapper,
+   *  like `orders[3].lineItems`. Empty for the outermost `map()` call.
+   */
+  readonly path: string;
+
+  /**
+   * When the span started, in milliseconds since the Unix epoch.
+   */
+  readonly startTime: number;
+
+  readonly durationMs: number;
+
+  /**
+   * `"error"` if the mapping call or property rejected.
+   */
+  readonly status: "ok" | "error";
+
+  /**
+   * The reason the mapping call or property rejected, if it did.
+   */
+  readonly error?: unknown;
+}
+
+/**
+ * Receives each span recorded by a {@linkcode LocalTracer}, when it ends.
+ *  Nested spans end before the spans they're nested in.
+ */
+export interface SpanExporter {
+  export(span: RecordedSpan): void;
+}
+
+/**
+ * Keeps every span it's given in an array, like for inspecting the spans of
+ *  a mapping call in a test.
+ *
+ * @group runtime
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  /**
+   * The spans exported so far, in the order they ended.
+   */
+  readonly spans: RecordedSpan[] = [];
+
+  export(span: RecordedSpan): void {
+    this.spans.push(span);
+  }
+
+  /**
+   * Discard every span exported so far.
+   */
+  reset(): void {
+    this.spans.length = 0;
+  }
+}
+
+/**
+ * Logs a line for each span it's given, like
+ *  `span 3 (parent 2) property "orders[0].customer": 12.345 ms`.
+ *
+ * @group runtime
+ */
+export class ConsoleSpanExporter implements SpanExporter {
+  constructor(
+    /**
+     * Called with each line. Defaults to `console.log`.
+     */
+    protected readonly log: (line: string) => void = console.log,
+  ) {}
+
+  export(span: RecordedSpan): void {
+    const parent = span.parentId === undefined
+      ? ""
+      : ` (parent ${span.parentId})`;
+    const error = span.status === "error"
+      ? `, error: ${
+        span.error instanceof Error ? span.error.message : String(span.error)
+      }`
+      : "";
+    this.log(
+      `span ${span.id}${parent} ${span.kind} ${JSON.stringify(span.path)}: ${
+        span.durationMs.toFixed(3)
+      } ms${error}`,
+    );
+  }
+}
+
+/**
+ * A span started by a {@linkcode LocalTracer}.
+ *
+ * @private
+ */
+class LocalSpan implements MapperSpan {
+  protected readonly startTime = performance.timeOrigin + performance.now();
+  protected error?: { readonly reason: unknown };
+
+  constructor(
+    readonly id: number,
+    protected readonly name: string,
+    protected readonly options: MapperSpanOptions,
+    protected readonly exporter: SpanExporter,
+  ) {}
+
+  setError(error: unknown): void {
+    this.error = { reason: error };
+  }
+
+  end(): void {
+    const parent = this.options.parent;
+    this.exporter.export({
+      id: this.id,
+      parentId: parent instanceof LocalSpan ? parent.id : undefined,
+      name: this.name,
+      kind: this.options.kind,
+      path: this.options.path,
+      startTime: this.startTime,
+      durationMs: performance.timeOrigin + performance.now() - this.startTime,
+      ...(this.error
+        ? { status: "error", error: this.error.reason }
+        : { status: "ok" }),
+    });
+  }
+}
+
+/**
+ * A {@linkcode MapperTracer} that records spans without any other tracing
+ *  library, and passes them to an exporter when they end.
+ *
+ * @example ```ts
+ * import { AsyncObjectMapper } from "./async-object-mapper.ts";
+ *
+ * const userMapper = AsyncObjectMapper.create<{ id: number }, { name: string }>()({
+ *   name: async (input) => `User ${input.id}`,
+ * });
+ *
+ * const tracer = new LocalTracer(new ConsoleSpanExporter());
+ * await userMapper.array([{ id: 1 }], undefined, { tracer });
+ * // span 2 (parent 1) property "[0].name": 0.123 ms
+ * // span 1 map "[0]": 0.456 ms
+ * ```
+ *
+ * @group runtime
+ */
+export class LocalTracer implements MapperTracer {
+  /**
+   * The ID of the last span started.
+   */
+  protected lastId = 0;
+
+  constructor(
+    /**
+     * Receives each span when it ends, like an
+     *  {@linkcode InMemorySpanExporter} or a {@linkcode ConsoleSpanExporter}.
+     */
+    protected readonly exporter: SpanExporter,
+  ) {}
+
+  startSpan(name: string, options: MapperSpanOptions): MapperSpan {
+    return new LocalSpan(++this.lastId, name, options, this.exporter);
+  }
+}
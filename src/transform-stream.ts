@@ -0,0 +1,30 @@
+import type { TransformStreamOptions } from "./types.ts";
+
+/**
+ * Create a `TransformStream` that maps each chunk written to it with a
+ *  (possibly async) function, one at a time, in order.
+ *
+ * If a chunk fails to map, the stream is errored with that error, so both the
+ *  writer and the reader see it.
+ *
+ * @private
+ */
+export function createMappingTransformStream<TInput, TOutput>(
+  mapItem: (item: TInput, index: number) => TOutput | Promise<TOutput>,
+  options?: TransformStreamOptions,
+): TransformStream<TInput, TOutput> {
+  let index = 0;
+  return new TransformStream<TInput, TOutput>(
+    {
+      async transform(chunk, controller) {
+        try {
+          controller.enqueue(await mapItem(chunk, index++));
+        } catch (error) {
+          controller.error(error);
+        }
+      },
+    },
+    { highWaterMark: options?.writableHighWaterMark },
+    { highWaterMark: options?.readableHighWaterMark },
+  );
+}
@@ -7,6 +7,7 @@
  * @module
  */
 
+import type { ObjectMapper } from "./object-mapper.ts";
 import { OmitProperty } from "./omit-property.ts";
 
 declare const ExactReturnKeys: unique symbol;
@@ -44,11 +45,311 @@ export type ExactReturn<T> = T extends readonly unknown[]
   : T extends object ? T & { readonly [ExactReturnKeys]?: keyof T }
   : T;
 
+/**
+ * Options for a single call to {@linkcode ObjectMapper#map} or
+ *  {@linkcode ObjectMapper#array}.
+ *
+ * Mapper functions receive the options for the current call as their third
+ *  argument. Pass them on when calling a nested mapper, so the nested call
+ *  uses the same options.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * const lineItemMapper = ObjectMapper.create<{ price: number }, { price: string }>()({
+ *   price: (input) => input.price.toFixed(2),
+ * });
+ *
+ * const orderMapper = ObjectMapper.create<
+ *   { lineItems: { price: number }[] },
+ *   { lineItems: { price: string }[] }
+ * >()({
+ *   lineItems: (input, context, options) =>
+ *     lineItemMapper.array(input.lineItems, context, options),
+ * });
+ * ```
+ */
+export interface MapOptions {
+  /**
+   * If `true`, keep mapping the remaining properties (and array elements)
+   *  after a mapper function throws, then throw an
+   *  {@linkcode AggregateMappingError} containing every error.
+   *
+   * You probably want {@linkcode ObjectMapper#tryMap} or
+   *  {@linkcode ObjectMapper#tryArray} instead, which set this option for you.
+   */
+  readonly collectErrors?: boolean;
+
+  /**
+   * If `true`, {@linkcode AsyncObjectMapper#map} starts every mapper function
+   *  at once, rather than awaiting each one before starting the next. Use
+   *  this when mapper functions perform independent asynchronous work, like
+   *  remote lookups, so mapping takes as long as the slowest one rather than
+   *  the sum of them all.
+   *
+   * The output properties are still in schema order. If a mapper function
+   *  rejects, the mapping rejects straight away, without waiting for the
+   *  other mapper functions.
+   *
+   * Ignored by {@linkcode ObjectMapper}.
+   */
+  readonly concurrentProperties?: boolean;
+
+  /**
+   * The maximum number of elements that {@linkcode AsyncObjectMapper#array}
+   *  maps at once. The output is in the same order as the input.
+   *
+   * By default, elements of an array are all mapped at once, and elements of
+   *  any other iterable are mapped one at a time. Set this option to map
+   *  elements of any iterable with at most this many in flight, like when
+   *  each element calls a rate-limited service. Must be a positive integer,
+   *  or `Infinity`.
+   *
+   * The limit applies to each `array()` call separately. A nested `array()`
+   *  call that's passed the same options has its own limit.
+   *
+   * {@linkcode AsyncObjectMapper#stream} maps one element at a time by
+   *  default, and maps up to this many elements ahead of the consumer if it's
+   *  set.
+   *
+   * Ignored by {@linkcode ObjectMapper}.
+   */
+  readonly concurrency?: number;
+
+  /**
+   * Cancels an {@linkcode AsyncObjectMapper} call, like when the client of an
+   *  HTTP request disconnects.
+   *
+   * Once the signal is aborted, no more mapper functions or elements are
+   *  started, and the call rejects with the signal's abort reason, rather
+   *  than a {@linkcode MappingError}. Mapper functions that are already
+   *  running aren't interrupted, but they receive the signal in these
+   *  options, so they can pass it on to `fetch()` or nested mappers.
+   *
+   * Ignored by {@linkcode ObjectMapper}.
+   */
+  readonly signal?: AbortSignal;
+
+  /**
+   * Records a trace span for each {@linkcode AsyncObjectMapper#map} call, and
+   *  for each of its output properties that's mapped by a mapper function or
+   *  derived property. See {@linkcode MapperTracer}.
+   *
+   * Nested mappers that are passed these options record their spans as
+   *  children of the property span that called them.
+   *
+   * Ignored by {@linkcode ObjectMapper}.
+   */
+  readonly tracer?: MapperTracer;
+}
+
+/**
+ * Options for {@linkcode ObjectMapper#toTransformStream} and
+ *  {@linkcode AsyncObjectMapper#toTransformStream}.
+ *
+ * These are also passed to mapper functions, like any other
+ *  {@linkcode MapOptions}.
+ */
+export interface TransformStreamOptions extends MapOptions {
+  /**
+   * The number of input objects to queue on the writable side, before the
+   *  stream applies backpressure to its writer. Defaults to 1.
+   */
+  readonly writableHighWaterMark?: number;
+
+  /**
+   * The number of output objects to queue on the readable side, before the
+   *  stream stops mapping input objects. Defaults to 0.
+   */
+  readonly readableHighWaterMark?: number;
+}
+
+/**
+ * A trace span started by a {@linkcode MapperTracer}.
+ */
+export interface MapperSpan {
+  /**
+   * Called if the mapping call or property rejects, before the span ends.
+   */
+  setError(error: unknown): void;
+
+  /**
+   * Called once the mapping call or property settles.
+   */
+  end(): void;
+}
+
+/**
+ * Describes a trace span to start, passed to
+ *  {@linkcode MapperTracer#startSpan}.
+ */
+export interface MapperSpanOptions<TSpan extends MapperSpan = MapperSpan> {
+  /**
+   * `"map"` for a whole {@linkcode AsyncObjectMapper#map} call, or
+   *  `"property"` for one of its output properties.
+   */
+  readonly kind: "map" | "property";
+
+  /**
+   * The path to the output object or property, from the outermost mapper,
+   *  like `orders[3].lineItems`. Empty for the outermost `map()` call.
+   */
+  readonly path: string;
+
+  /**
+   * The span of the call or property that this span is nested in, if any.
+   */
+  readonly parent: TSpan | undefined;
+}
+
+/**
+ * Starts trace spans for an {@linkcode AsyncObjectMapper}, passed in the
+ *  {@linkcode MapOptions#tracer} option.
+ *
+ * {@linkcode LocalTracer} records spans in memory or logs them to the
+ *  console. To use another tracing library, like OpenTelemetry, implement
+ *  this interface, wrapping its spans:
+ *
+ * ```
+ * import { context, SpanStatusCode, trace, type Span } from "@opentelemetry/api";
+ *
+ * const otelTracer = trace.getTracer("lynx-mapper");
+ *
+ * const tracer: MapperTracer<MapperSpan & { otelSpan: Span }> = {
+ *   startSpan(name, { kind, path, parent }) {
+ *     const parentContext = parent
+ *       ? trace.setSpan(context.active(), parent.otelSpan)
+ *       : undefined;
+ *     const otelSpan = otelTracer.startSpan(
+ *       name,
+ *       { attributes: { "mapping.kind": kind, "mapping.path": path } },
+ *       parentContext,
+ *     );
+ *     return {
+ *       otelSpan,
+ *       setError(error) {
+ *         otelSpan.recordException(error as Error);
+ *         otelSpan.setStatus({ code: SpanStatusCode.ERROR });
+ *       },
+ *       end: () => otelSpan.end(),
+ *     };
+ *   },
+ * };
+ * ```
+ */
+export interface MapperTracer<TSpan extends MapperSpan = MapperSpan> {
+  /**
+   * Start a span. `name` is `"map"` for a whole
+   *  {@linkcode AsyncObjectMapper#map} call, or the name of the output
+   *  property.
+   */
+  startSpan(name: string, options: MapperSpanOptions<TSpan>): TSpan;
+}
+
+/**
+ * A call to {@linkcode ObjectMapper#map} or {@linkcode AsyncObjectMapper#map},
+ *  passed to each {@linkcode MapperMiddleware} hook.
+ */
+export interface MapperCall<
+  TInput extends object = object,
+  TContext = unknown,
+> {
+  /**
+   * The mapper that's mapping the input object.
+   */
+  readonly mapper: object;
+
+  /**
+   * The input object being mapped.
+   */
+  readonly input: TInput;
+
+  /**
+   * The context object passed to the mapper.
+   */
+  readonly context: TContext;
+
+  /**
+   * The options for the current mapping call.
+   */
+  readonly options: MapOptions;
+}
+
+/**
+ * One output property being mapped, passed to
+ *  {@linkcode MapperMiddleware#property}.
+ */
+export interface PropertyCall<
+  TInput extends object = object,
+  TContext = unknown,
+> extends MapperCall<TInput, TContext> {
+  /**
+   * The name of the output property.
+   */
+  readonly key: string;
+}
+
+/**
+ * Hooks that run on every call to a mapper, added with
+ *  {@linkcode ObjectMapper#use} or {@linkcode AsyncObjectMapper#use}. Use
+ *  middleware for behaviour that applies to every property, like logging,
+ *  metrics, redaction or translating errors, rather than editing the schema.
+ *
+ * Every hook is optional. Nested mappers run their own middleware, not their
+ *  parent's.
+ *
+ * @example ```ts
+ * const redactEmails: MapperMiddleware = {
+ *   property(property, next) {
+ *     return property.key === "email" ? "[redacted]" : next();
+ *   },
+ * };
+ * ```
+ */
+export interface MapperMiddleware<
+  TInput extends object = object,
+  TContext = unknown,
+> {
+  /**
+   * Called before the mapper maps an input object. Isn't called when the
+   *  input is `null` or `undefined`.
+   */
+  beforeMap?(call: MapperCall<TInput, TContext>): void;
+
+  /**
+   * Called with the output object, after every property has been mapped.
+   *  Isn't called if mapping fails.
+   */
+  afterMap?(
+    call: MapperCall<TInput, TContext>,
+    output: Readonly<Record<string, unknown>>,
+  ): void;
+
+  /**
+   * Called around the mapping of each output property, whether it's mapped
+   *  by a mapper function, an input property name or path, or a derived
+   *  property.
+   *
+   * Call `next()` to map the property, and return the value to use instead,
+   *  or {@linkcode OmitProperty} to omit it. Errors thrown by `next()` are the
+   *  original errors, before they're wrapped in a {@linkcode MappingError},
+   *  so they can be translated.
+   *
+   * With an {@linkcode AsyncObjectMapper}, `next()` returns a promise, and
+   *  the hook can return a promise.
+   */
+  property?(
+    property: PropertyCall<TInput, TContext>,
+    next: () => unknown,
+  ): unknown;
+}
+
 /**
  * A function that takes some input object, and an optional context object, and returns an
  *  output. This is used as part of an {@linkcode ObjectMapperSchema}.
  * @param input The input object.
  * @param context The context object. If the `TContext` type parameter is `undefined`, you can omit this argument.
+ * @param options The options for the current mapping call. Pass these to any nested mapper.
  * @returns The output value, OR the special symbol {@linkcode OmitProperty}`, indicating that the property should be omitted
  *   completely.
  */
@@ -61,6 +362,7 @@ export interface MapperFunction<
   <TInputSubset extends TInput, TContextSubset extends TContext>(
     input: TInputSubset,
     context: OptionalArgIfUndefined<TContextSubset>,
+    options: MapOptions,
   ):
     | ExactReturn<TOutput[TOutputKey]>
     | AllowOmitIfOptional<TOutput, TOutputKey>;
@@ -96,6 +398,97 @@ export type AllowInputKeyIfInputCanExtendOutput<TInput, TOutputValue> = {
     : never;
 }[keyof TInput];
 
+/**
+ * Limits how many levels deep {@linkcode InputPathEntries} will recurse into
+ *  nested objects. This keeps type checking fast, and stops recursive types
+ *  from recursing forever.
+ *
+ * @private
+ */
+type MaxInputPathDepth = 4;
+
+/**
+ * Each key of some object `T` that can be used as a segment of an input path,
+ *  paired with the type of its value.
+ *
+ * Array elements might not exist, so their values can also be `undefined`.
+ *  Tuple elements use their exact index and type.
+ *
+ * @private
+ */
+type InputPathChildEntries<T> = T extends readonly unknown[]
+  ? number extends T["length"] ? [`${number}`, T[number] | undefined]
+  : { [K in keyof T & `${number}`]: [K, T[K]] }[keyof T & `${number}`]
+  : T extends object ? { [K in keyof T & (string | number)]: [`${K}`, T[K]] }[
+      keyof T & (string | number)
+    ]
+  : never;
+
+/**
+ * Every path into some object `T`, paired with the type of its value.
+ *
+ * If an object along the path can be `null` or `undefined`, the value at the
+ *  end of the path can be `undefined`.
+ *
+ * @private
+ */
+type InputPathEntries<
+  T,
+  TPrefix extends string,
+  TMissing,
+  TDepth extends unknown[],
+> = TDepth["length"] extends MaxInputPathDepth ? never
+  : InputPathChildEntries<T> extends infer TEntry
+    ? TEntry extends [infer TKey extends string, infer TValue] ?
+        | [`${TPrefix}${TKey}`, TValue | TMissing]
+        | InputPathEntries<
+          NonNullable<TValue>,
+          `${TPrefix}${TKey}.`,
+          TMissing | (TValue extends null | undefined ? undefined : never),
+          [...TDepth, unknown]
+        >
+    : never
+  : never;
+
+/**
+ * Given some object `TInput`, and some value `TOutputValue`, allows any dotted
+ *  path into `TInput` (like `"address.city"` or `"items.0.sku"`) where the
+ *  value at the end of the path can be assigned to `TOutputValue`.
+ *
+ * If an object along the path is `null` or `undefined`, the value is
+ *  `undefined`, so the output value must allow `undefined`.
+ *
+ * Paths are limited to four properties deep.
+ *
+ * @private
+ * @example
+ * ```ts
+ * import { AllowInputPathIfInputCanExtendOutput } from "./types.ts";
+ *
+ * interface SomeInput {
+ *   address: {
+ *     city: string;
+ *     postcode: number;
+ *   };
+ *   manager: {
+ *     name: string;
+ *   } | null;
+ * }
+ *
+ * type AllowedPath = AllowInputPathIfInputCanExtendOutput<SomeInput, string>;
+ *
+ * let path: AllowedPath = "address.city";
+ * // path = "address.postcode"; // type error
+ * // path = "manager.name"; // type error, because `manager` can be `null`
+ * ```
+ */
+export type AllowInputPathIfInputCanExtendOutput<TInput, TOutputValue> =
+  InputPathEntries<TInput, "", never, []> extends infer TEntry
+    ? TEntry extends [infer TPath extends `${string}.${string}`, infer TValue]
+      ? [TValue] extends [TOutputValue] ? TPath : never
+    : never
+    : never;
+
 /**
  * Lots you use the special symbol `OmitProperty` in place of an optional/undefined value.
  * @private
@@ -109,12 +502,56 @@ export type AllowOmitIfOptional<
   : never;
 
 /**
- * A mapper function, or input property name, used in an {@linkcode ObjectMapperSchema}.
+ * An output property that's derived from other output properties, created
+ *  with {@linkcode mapFrom.derived} or {@linkcode mapFromAsync.derived}.
+ *
+ * The mapper maps its `dependencies` first, then calls `derive` with an
+ *  object containing their mapped values. Properties omitted with
+ *  {@linkcode OmitProperty} are missing from that object.
+ */
+export interface DerivedProperty<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TDependencyKey extends keyof TOutput,
+  TValue,
+> {
+  /**
+   * The output properties to map before this one.
+   */
+  readonly dependencies: readonly PropertyKey[];
+
+  /**
+   * Map this property from the mapped values of its dependencies, and the
+   *  input object.
+   */
+  derive<
+    TPartialOutput extends Pick<TOutput, TDependencyKey>,
+    TInputSubset extends TInput,
+    TContextSubset extends TContext,
+  >(
+    partialOutput: TPartialOutput,
+    input: TInputSubset,
+    context: OptionalArgIfUndefined<TContextSubset>,
+    options: MapOptions,
+  ): TValue;
+}
+
+/**
+ * A mapper function, input property name, input path, or derived property,
+ *  used in an {@linkcode ObjectMapperSchema}.
  *
  * In an {@linkcode ObjectMapperSchema}, each property value can be either:
  * - A {@linkcode MapperFunction}
  * - A property name from the input object. The property value must be compatible
  *   with the output property.
+ * - A dotted path into the input object, like `"address.city"` or
+ *   `"items.0.sku"`. The value at the end of the path must be compatible with
+ *   the output property. If an object along the path is `null` or `undefined`,
+ *   the output property is `undefined`.
+ * - A {@linkcode DerivedProperty} from {@linkcode mapFrom.derived}, which
+ *   maps the property from other output properties. It can't depend on
+ *   itself.
  */
 export type MapperSchemaValue<
   TInput extends object,
@@ -123,7 +560,97 @@ export type MapperSchemaValue<
   TOutputKey extends keyof TOutput = keyof TOutput,
 > =
   | MapperFunction<TInput, TOutput, TContext, TOutputKey>
-  | AllowInputKeyIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>;
+  | AllowInputKeyIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>
+  | AllowInputPathIfInputCanExtendOutput<TInput, TOutput[TOutputKey]>
+  | DerivedProperty<
+    TInput,
+    TOutput,
+    TContext,
+    Exclude<keyof TOutput, TOutputKey>,
+    ExactReturn<TOutput[TOutputKey]> | AllowOmitIfOptional<TOutput, TOutputKey>
+  >;
+
+/**
+ * Given some object `TInput`, and some value `TOutputValue`, allows any key
+ *  of `TInput` whose value can be assigned to `TOutputValue`, and vice versa.
+ *  These keys can be mapped in both directions.
+ *
+ * @private
+ */
+export type AllowInputKeyIfInterchangeable<TInput, TOutputValue> = {
+  [TInputKey in keyof TInput]: TInput[TInputKey] extends TOutputValue
+    ? [TOutputValue] extends [TInput[TInputKey]] ? TInputKey
+    : never
+    : never;
+}[keyof TInput];
+
+/**
+ * A pair of mapper functions, used in a {@linkcode BidirectionalMapperSchema}
+ *  where an output property can't be mapped from a single input property.
+ *
+ * - `to` maps the input object to the output property.
+ * - `from` is part of the reverse schema: it maps the output object back to
+ *   one or more input properties.
+ */
+export interface BidirectionalMapperFunctions<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TOutputKey extends keyof TOutput = keyof TOutput,
+> {
+  readonly to: MapperFunction<TInput, TOutput, TContext, TOutputKey>;
+  readonly from: {
+    readonly [TInputKey in keyof TInput]?: MapperSchemaValue<
+      TOutput,
+      TInput,
+      TContext,
+      TInputKey
+    >;
+  };
+}
+
+/**
+ * An object, where every property name must match a property name in the
+ *  desired output type. Every property value must be either:
+ *
+ * - A property name from the input object. The input and output property
+ *   values must be compatible with each other, so the property can be mapped
+ *   in both directions.
+ * - A {@linkcode BidirectionalMapperFunctions} pair.
+ *
+ * @example ```ts
+ * interface UserEntity {
+ *   firstName: string;
+ *   lastName: string;
+ *   username: string;
+ * }
+ *
+ * interface UserDto {
+ *   fullName: string;
+ *   login: string;
+ * }
+ *
+ * const schema: BidirectionalMapperSchema<UserEntity, UserDto> = {
+ *   fullName: {
+ *     to: (input) => `${input.firstName} ${input.lastName}`,
+ *     from: {
+ *       firstName: (output) => output.fullName.split(" ")[0],
+ *       lastName: (output) => output.fullName.split(" ").slice(1).join(" "),
+ *     },
+ *   },
+ *   login: "username",
+ * };
+ * ```
+ */
+export type BidirectionalMapperSchema<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+> = {
+  [TOutputKey in keyof TOutput]-?:
+    | AllowInputKeyIfInterchangeable<TInput, TOutput[TOutputKey]>
+    | BidirectionalMapperFunctions<TInput, TOutput, TContext, TOutputKey>;
+};
 
 /**
  * An ObjectMapper can take an optional context. The context type is defined
@@ -193,6 +720,44 @@ export type ObjectMapperSchema<
   >;
 };
 
+/**
+ * The keys of `TInput` that aren't named by any input property name or path
+ *  in the schema type `TSchema`. Dotted paths, like `"address.street"`, count
+ *  as naming their first key.
+ *
+ * Mapper functions aren't inspected, so keys they read are still listed. For
+ *  a check at runtime, see {@linkcode ObjectMapper#findUnusedInputs}.
+ *
+ * `TSchema` must be the type of the schema object itself, rather than
+ *  {@linkcode ObjectMapperSchema}, which allows any input property name.
+ *
+ * @example ```ts
+ * interface User {
+ *   id: number;
+ *   name: { first: string; last: string };
+ *   passwordHash: string;
+ * }
+ *
+ * const userSchema = {
+ *   userId: "id",
+ *   firstName: "name.first",
+ * } as const satisfies ObjectMapperSchema<User, { userId: number; firstName: string }>;
+ *
+ * type Unmapped = UnmappedInputKeys<User, typeof userSchema>;
+ * // --> "passwordHash"
+ * ```
+ */
+export type UnmappedInputKeys<
+  TInput extends object,
+  TSchema extends object,
+> = Exclude<
+  keyof TInput,
+  TSchema[keyof TSchema] extends infer TValue
+    ? TValue extends `${infer THead}.${string}` ? THead
+    : Extract<TValue, PropertyKey>
+    : never
+>;
+
 /**
  * A callable function, equivalent to calling {@linkcode ObjectMapper#map}.
  *  It also exposes {@linkcode ObjectMapperFunction#schema} as a readonly property.
@@ -205,7 +770,156 @@ export interface ObjectMapperFunction<
   (
     value: TInput,
     context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
   ): ExactReturn<TOutput>;
 
   readonly schema: ObjectMapperSchema<TInput, TOutput, TContext>;
 }
+
+/**
+ * Describes where the value of one output property comes from, returned by
+ *  {@linkcode ObjectMapper#describe}.
+ *
+ * - `inputKey`: copied from an input property name or dotted path.
+ * - `constant`: from {@linkcode mapFrom.constant}, {@linkcode mapFrom.null}
+ *   or {@linkcode mapFrom.undefined}, or their async versions.
+ * - `omit`: from {@linkcode mapFrom.omit} or {@linkcode mapFromAsync.omit}.
+ * - `nested`: from another mapper's `toFunction()`, which maps the same input
+ *   object.
+ * - `derived`: from {@linkcode mapFrom.derived} or
+ *   {@linkcode mapFromAsync.derived}.
+ * - `function`: any other mapper function. `name` is the function's name,
+ *   which is the output property name for functions written inline in the
+ *   schema.
+ */
+export type PropertyDescription =
+  | { readonly kind: "inputKey"; readonly inputKey: string }
+  | { readonly kind: "constant"; readonly value: unknown }
+  | { readonly kind: "omit" }
+  | { readonly kind: "nested"; readonly mapper: object }
+  | { readonly kind: "derived"; readonly dependencies: readonly PropertyKey[] }
+  | { readonly kind: "function"; readonly name: string };
+
+/**
+ * A {@linkcode PropertyDescription} for every property of `TOutput`, returned
+ *  by {@linkcode ObjectMapper#describe}.
+ */
+export type SchemaDescription<TOutput extends object> = {
+  readonly [TOutputKey in keyof TOutput]-?: PropertyDescription;
+};
+
+/**
+ * The properties of `TInput` that can discriminate a union: those whose
+ *  values are strings or numbers, like `kind: "cat" | "dog"`.
+ */
+export type UnionDiscriminantKey<TInput extends object> = {
+  [TKey in keyof TInput]-?: TInput[TKey] extends string | number ? TKey
+    : never;
+}[keyof TInput];
+
+/**
+ * The members of the union `TUnion` whose `TKey` property is `TTag`.
+ *
+ * @example ```ts
+ * type Pet = { kind: "cat"; meows: boolean } | { kind: "dog"; barks: boolean };
+ *
+ * type Cat = UnionVariant<Pet, "kind", "cat">;
+ * // --> { kind: "cat"; meows: boolean }
+ * ```
+ */
+export type UnionVariant<TUnion, TKey extends PropertyKey, TTag> = Extract<
+  TUnion,
+  { readonly [K in TKey]: TTag }
+>;
+
+/**
+ * The output type for the variant of a union mapper whose discriminant is
+ *  `TTag`. If the output type is discriminated by the same property, this is
+ *  the matching member of the output union. Otherwise, it's the whole output
+ *  type.
+ */
+export type UnionOutputVariant<
+  TOutput extends object,
+  TKey extends PropertyKey,
+  TTag,
+> = [UnionVariant<TOutput, TKey, TTag>] extends [never] ? TOutput
+  : UnionVariant<TOutput, TKey, TTag>;
+
+/**
+ * An object, with a property for every possible value of the `TKey`
+ *  discriminant of `TInput`. Each property value maps that variant of the
+ *  input union to the output type, and must be either:
+ *
+ * - An {@linkcode ObjectMapperSchema}, where the input type is narrowed to
+ *   the variant.
+ * - An {@linkcode ObjectMapper} instance for the variant.
+ *
+ * @example ```ts
+ * type Pet =
+ *   | { kind: "cat"; name: string; livesLeft: number }
+ *   | { kind: "dog"; name: string; goodBoy: boolean };
+ *
+ * type PetDto =
+ *   | { kind: "cat"; name: string; lives: number }
+ *   | { kind: "dog"; name: string; isGood: boolean };
+ *
+ * const variants: UnionObjectMapperVariants<Pet, PetDto, undefined, "kind"> = {
+ *   cat: {
+ *     kind: "kind",
+ *     name: "name",
+ *     lives: "livesLeft",
+ *   },
+ *   dog: {
+ *     kind: "kind",
+ *     name: "name",
+ *     isGood: (input) => input.goodBoy,
+ *   },
+ * };
+ * ```
+ */
+export type UnionObjectMapperVariants<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TKey extends UnionDiscriminantKey<TInput>,
+> = {
+  [TTag in TInput[TKey] & (string | number)]-?:
+    | ObjectMapperSchema<
+      UnionVariant<TInput, TKey, TTag>,
+      UnionOutputVariant<TOutput, TKey, TTag>,
+      TContext
+    >
+    | ObjectMapper<
+      UnionVariant<TInput, TKey, TTag>,
+      UnionOutputVariant<TOutput, TKey, TTag>,
+      TContext
+    >;
+};
+
+/**
+ * A callable function, equivalent to calling
+ *  {@linkcode UnionObjectMapper#map}. It also exposes
+ *  {@linkcode UnionObjectMapperFunction#discriminant} and
+ *  {@linkcode UnionObjectMapperFunction#variants} as readonly properties.
+ */
+export interface UnionObjectMapperFunction<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined = undefined,
+  TKey extends UnionDiscriminantKey<TInput> = UnionDiscriminantKey<TInput>,
+> {
+  (
+    value: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput>;
+
+  readonly discriminant: TKey;
+
+  readonly variants: UnionObjectMapperVariants<
+    TInput,
+    TOutput,
+    TContext,
+    TKey
+  >;
+}
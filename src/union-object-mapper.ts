@@ -0,0 +1,378 @@
+import { mapArray } from "./array-mapping.ts";
+import { toMappingResult } from "./error-collection.ts";
+import type { MappingResult } from "./mapping-error.ts";
+import { ObjectMapper } from "./object-mapper.ts";
+import { describeMapperFunction } from "./schema-description.ts";
+import type {
+  ExactReturn,
+  MapOptions,
+  ObjectMapperSchema,
+  OptionalArgIfUndefined,
+  UnionDiscriminantKey,
+  UnionObjectMapperFunction,
+  UnionObjectMapperVariants,
+} from "./types.ts";
+import { createUnknownVariantError, toVariantName } from "./union-variants.ts";
+
+/**
+ * An internal type used by {@linkcode UnionObjectMapper.toFunction()}
+ *
+ * @private
+ */
+interface UnionObjectMapperFunctionBeingBuilt<
+  TInput extends object,
+  TOutput extends object,
+  TContext extends object | undefined,
+  TKey extends UnionDiscriminantKey<TInput>,
+> {
+  (
+    value: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput>;
+
+  discriminant: TKey;
+
+  variants: UnionObjectMapperVariants<TInput, TOutput, TContext, TKey>;
+}
+
+/**
+ * Passed to variant mappers when {@linkcode UnionObjectMapper#map} is called
+ *  without any options.
+ *
+ * @private
+ */
+const noOptions: MapOptions = Object.freeze({});
+
+/**
+ * Convert from a discriminated union of object types to another type.
+ *
+ * Instantiate an instance with {@linkcode ObjectMapper.union}, passing the
+ *  name of the discriminant property, and a
+ *  {@linkcode UnionObjectMapperVariants} object with a schema or mapper for
+ *  every possible value of the discriminant. Each schema's input type is
+ *  narrowed to its variant of the union.
+ *
+ * If the output type is a union discriminated by the same property, each
+ *  variant maps to the matching member of the output union. Otherwise, each
+ *  variant maps to the whole output type.
+ *
+ * Invoke the mapper with {@linkcode UnionObjectMapper#map}. It dispatches on
+ *  the discriminant property of the input object, and maps the input with
+ *  that variant's mapper.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./object-mapper.ts";
+ *
+ * type Pet =
+ *   | { kind: "cat"; name: string; livesLeft: number }
+ *   | { kind: "dog"; name: string; goodBoy: boolean };
+ *
+ * type PetDto =
+ *   | { kind: "cat"; name: string; lives: number }
+ *   | { kind: "dog"; name: string; isGood: boolean };
+ *
+ * const petMapper = ObjectMapper.union<Pet, PetDto>()("kind", {
+ *   cat: {
+ *     kind: "kind",
+ *     name: "name",
+ *     lives: "livesLeft",
+ *   },
+ *   dog: {
+ *     kind: "kind",
+ *     name: "name",
+ *     isGood: (input) => input.goodBoy, // `input` is narrowed to the dog variant
+ *   },
+ * });
+ *
+ * const output = petMapper.map({ kind: "dog", name: "Rex", goodBoy: true });
+ * console.log(output);
+ * // --> { kind: "dog", name: "Rex", isGood: true }
+ * ```
+ *
+ * @group runtime
+ */
+export class UnionObjectMapper<
+  // The variance annotations let TypeScript compare instances by their type
+  //  arguments, rather than structurally, through every variant's schema.
+  in out TInput extends object,
+  in out TOutput extends object,
+  in out TContext extends object | undefined = undefined,
+  in out TKey extends UnionDiscriminantKey<TInput> = UnionDiscriminantKey<
+    TInput
+  >,
+> {
+  /**
+   * Create a UnionObjectMapper factory function. Invoke it immediately, with
+   *  the name of the discriminant property and an object with a schema or
+   *  mapper for every variant, to create a UnionObjectMapper instance.
+   *
+   * {@linkcode ObjectMapper.union} is an alias of this method.
+   *
+   * @example ```ts
+   * type Shape =
+   *   | { type: "circle"; radius: number }
+   *   | { type: "square"; size: number };
+   *
+   * const areaMapper = UnionObjectMapper.create<Shape, { area: number }>()("type", {
+   *   circle: { area: (input) => Math.PI * input.radius ** 2 },
+   *   square: { area: (input) => input.size ** 2 },
+   * });
+   *
+   * // const incompleteMapper = UnionObjectMapper.create<Shape, { area: number }>()("type", {
+   * //   circle: { area: (input) => Math.PI * input.radius ** 2 },
+   * //   // error, "square" is missing
+   * // });
+   * ```
+   */
+  public static create<
+    TInput extends object,
+    TOutput extends object,
+    TContext extends object | undefined = undefined,
+  >() {
+    return function <TKey extends UnionDiscriminantKey<TInput>>(
+      discriminant: TKey,
+      variants: UnionObjectMapperVariants<TInput, TOutput, TContext, TKey>,
+    ): UnionObjectMapper<TInput, TOutput, TContext, TKey> {
+      return new UnionObjectMapper<TInput, TOutput, TContext, TKey>(
+        discriminant,
+        variants,
+      );
+    };
+  }
+
+  /**
+   * Each variant's mapper, keyed by its name. See
+   *  {@linkcode toVariantName}.
+   * @private
+   */
+  protected readonly variantMappers: Map<
+    string,
+    ObjectMapper<TInput, TOutput, TContext>
+  >;
+
+  protected constructor(
+    /**
+     * The name of the input property that determines which variant to use.
+     */
+    public readonly discriminant: TKey,
+    /**
+     * An object, where each property is named after a value of the
+     *  discriminant property, and each value is a schema or mapper for that
+     *  variant.
+     */
+    public readonly variants: UnionObjectMapperVariants<
+      TInput,
+      TOutput,
+      TContext,
+      TKey
+    >,
+  ) {
+    this.variantMappers = new Map(
+      Object.entries(variants).map(([name, schemaOrMapper]) => [
+        name,
+        schemaOrMapper instanceof ObjectMapper
+          ? schemaOrMapper
+          // Each variant's schema was checked by `UnionObjectMapper.create()`
+          : ObjectMapper.fromSchema(
+            schemaOrMapper as ObjectMapperSchema<TInput, TOutput, TContext>,
+          ),
+      ]),
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   */
+  array(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput[]>;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | null,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput[]> | null;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `undefined`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput[]> | undefined;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null` or `undefined`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput[]> | null | undefined;
+  /**
+   * Map multiple input objects from some iterable, and return an
+   *  array of output objects.
+   *
+   * If the input is `null` or `undefined`, it will be returned as-is.
+   */
+  array(
+    input: Iterable<TInput> | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput[]> | null | undefined {
+    if (input === undefined || input === null) {
+      return input;
+    }
+    return mapArray(
+      input,
+      options,
+      this,
+      (item, options) => this.map(item, context, options),
+    );
+  }
+
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   */
+  map(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput>;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null`, it will be returned as-is.
+   */
+  map(
+    input: TInput | null,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput> | null;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `undefined`, it will be returned as-is.
+   */
+  map(
+    input: TInput | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput> | undefined;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   */
+  map(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options?: MapOptions,
+  ): ExactReturn<TOutput> | null | undefined;
+  /**
+   * Maps an input object to an output object, using the mapper for the
+   *  input's variant.
+   *
+   * If {@linkcode input} is `null` or `undefined`, it will be returned as-is.
+   *
+   * Throws a {@linkcode MappingError}, with the discriminant property as its
+   *  path, if the input's discriminant doesn't match any variant. Errors
+   *  thrown by the variant's mapper are passed through unchanged, since the
+   *  variant's output properties are this mapper's output properties.
+   */
+  map(
+    input: TInput | null | undefined,
+    context: OptionalArgIfUndefined<TContext>,
+    options: MapOptions = noOptions,
+  ): ExactReturn<TOutput> | null | undefined {
+    if (input === null || input === undefined) {
+      return input;
+    }
+    return this.getVariantMapper(input, options).map(input, context, options);
+  }
+
+  /**
+   * Find the mapper for the variant of an input object.
+   * @private
+   */
+  protected getVariantMapper(
+    input: TInput,
+    options: MapOptions,
+  ): ObjectMapper<TInput, TOutput, TContext> {
+    const tag = input[this.discriminant];
+    const name = toVariantName(tag);
+    const variantMapper = name === undefined
+      ? undefined
+      : this.variantMappers.get(name);
+    if (!variantMapper) {
+      throw createUnknownVariantError(this.discriminant, tag, this, options);
+    }
+    return variantMapper;
+  }
+
+  /**
+   * Maps an input object to an output object, like
+   *  {@linkcode UnionObjectMapper#map}, but doesn't stop at the first error.
+   *  See {@linkcode ObjectMapper#tryMap}.
+   */
+  tryMap(
+    input: TInput,
+    context: OptionalArgIfUndefined<TContext>,
+  ): MappingResult<ExactReturn<TOutput>> {
+    return toMappingResult(() =>
+      this.map(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Map multiple input objects from some iterable, like
+   *  {@linkcode UnionObjectMapper#array}, but doesn't stop at the first
+   *  error. See {@linkcode ObjectMapper#tryArray}.
+   */
+  tryArray(
+    input: Iterable<TInput>,
+    context: OptionalArgIfUndefined<TContext>,
+  ): MappingResult<ExactReturn<TOutput[]>> {
+    return toMappingResult(() =>
+      this.array(input, context, { collectErrors: true })
+    );
+  }
+
+  /**
+   * Wrap this instance in a function, with `discriminant` and `variants`
+   *  properties.
+   */
+  toFunction(): UnionObjectMapperFunction<TInput, TOutput, TContext, TKey> {
+    const func: UnionObjectMapperFunctionBeingBuilt<
+      TInput,
+      TOutput,
+      TContext,
+      TKey
+    > = (
+      value,
+      context,
+      options,
+    ) => this.map(value, context, options);
+    func.discriminant = this.discriminant;
+    func.variants = this.variants;
+    return describeMapperFunction(func, { kind: "nested", mapper: this });
+  }
+}
@@ -0,0 +1,51 @@
+import {
+  AggregateMappingError,
+  type AnyObjectMapper,
+  MappingError,
+} from "./mapping-error.ts";
+import type { MapOptions } from "./types.ts";
+
+/**
+ * Return the name of the variant that a discriminant value selects. Variant
+ *  names are object keys, which are always strings, so the value is compared
+ *  as a string: a name like `1` matches both the number `1` and the string
+ *  `"1"`. Returns `undefined` for values that can't be an object key, like
+ *  objects.
+ *
+ * @private
+ */
+export function toVariantName(tag: unknown): string | undefined {
+  switch (typeof tag) {
+    case "string":
+      return tag;
+    case "number":
+    case "bigint":
+    case "boolean":
+      return String(tag);
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Create the error to throw when an input's discriminant doesn't match any
+ *  variant of a union mapper. The path is the discriminant property. With
+ *  the {@linkcode MapOptions#collectErrors} option, it's wrapped in an
+ *  {@linkcode AggregateMappingError}, so `tryMap()` and `tryArray()` return
+ *  it as a failure.
+ *
+ * @private
+ */
+export function createUnknownVariantError(
+  discriminant: PropertyKey,
+  tag: unknown,
+  mapper: AnyObjectMapper,
+  options: MapOptions,
+): MappingError | AggregateMappingError {
+  const error = new MappingError(
+    [String(discriminant)],
+    mapper,
+    new Error(`No variant for ${String(discriminant)} ${JSON.stringify(tag)}`),
+  );
+  return options.collectErrors ? new AggregateMappingError([error]) : error;
+}
@@ -0,0 +1,68 @@
+import type { MappingLineage } from "./lineage.ts";
+import { isRecordable } from "./lineage-recording.ts";
+
+/**
+ * Used to determine if a path is the same as another, or one is nested in
+ *  the other, like `address` and `address.street`.
+ *
+ * @private
+ */
+function isRelatedPath(path: string, other: string): boolean {
+  const [shorter, longer] = path.length <= other.length
+    ? [path, other]
+    : [other, path];
+  return longer === shorter || longer.startsWith(`${shorter}.`) ||
+    longer.startsWith(`${shorter}[]`);
+}
+
+/**
+ * Return the paths of the properties of some sample input objects that no
+ *  output property read, in any of their lineages. See
+ *  {@linkcode ObjectMapper#findUnusedInputs}.
+ *
+ * If a property was read, but none of its nested properties were, it's
+ *  treated as used as a whole, because the mapper might have copied it into
+ *  the output. Class instances, like `Date`, are treated as a whole too.
+ *
+ * @private
+ */
+export function findUnusedInputPaths(
+  samples: Iterable<object>,
+  lineages: readonly MappingLineage[],
+): string[] {
+  const readPaths = new Set<string>();
+  for (const lineage of lineages) {
+    for (const entry of lineage.entries) {
+      for (const input of entry.inputs) {
+        readPaths.add(input);
+      }
+    }
+  }
+  const unusedPaths = new Set<string>();
+  const visit = (value: object, path: string): void => {
+    const isArray = Array.isArray(value);
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = isArray
+        ? `${path}[]`
+        : path === ""
+        ? key
+        : `${path}.${key}`;
+      const relatedReads = [...readPaths].filter((readPath) =>
+        isRelatedPath(readPath, childPath)
+      );
+      if (relatedReads.length === 0) {
+        unusedPaths.add(childPath);
+      } else if (
+        relatedReads.every((readPath) => readPath.length > childPath.length) &&
+        isRecordable(child)
+      ) {
+        // Only some nested properties were read.
+        visit(child, childPath);
+      }
+    }
+  };
+  for (const sample of samples) {
+    visit(sample, "");
+  }
+  return [...unusedPaths];
+}
@@ -3,8 +3,10 @@ import { describe, it } from "@std/testing/bdd";
 import { expect } from "@std/expect";
 import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
 import { OmitProperty } from "../src/omit-property.ts";
+import { MappingError } from "../src/mapping-error.ts";
 import { mapFromAsync } from "../src/map-from-async.ts";
 import { mapFrom } from "../src/map-from.ts";
+import type { MapOptions } from "../src/types.ts";
 
 function omit<TObject extends object, TKeys extends keyof TObject>(
   obj: TObject,
@@ -159,7 +161,9 @@ describe(AsyncObjectMapper.name, () => {
 
     // Execute
     // @ts-expect-error TS2554 If a context type is not `undefined`, a context must be provided.
-    expect(objectMapper.map(input)).rejects.toThrow(TypeError);
+    const error = await objectMapper.map(input).catch((e) => e);
+    expect(error).toBeInstanceOf(MappingError);
+    expect(error.cause).toBeInstanceOf(TypeError);
     const output = await objectMapper.map(input, context);
 
     // Verify
@@ -746,4 +750,1648 @@ describe(AsyncObjectMapper.name, () => {
       });
     });
   });
+
+  it(`can map values using dotted paths into the input object`, async () => {
+    // Setup
+    interface Input {
+      address: { city: string };
+      manager: { address: { city: string } } | null;
+    }
+
+    interface Output {
+      city: string;
+      managerCity: string | undefined;
+    }
+
+    const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+      city: "address.city",
+      managerCity: "manager.address.city",
+    });
+
+    // Execute
+    const output = await objectMapper.map({
+      address: { city: "Sydney" },
+      manager: null,
+    });
+
+    // Verify
+    expect(output).toStrictEqual({
+      city: "Sydney",
+      managerCity: undefined,
+    });
+  });
+
+  describe(`concurrentProperties option`, () => {
+    interface Input {
+      inFirst: string;
+      inSecond: string;
+    }
+
+    interface Output {
+      outFirst: string;
+      outOptional?: string;
+      outSecond: string;
+      outString: string;
+    }
+
+    const input: Input = { inFirst: "first", inSecond: "second" };
+
+    function delay(ms: number): Promise<void> {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    it(`starts every mapper function at once, and keeps the schema order`, async () => {
+      // Setup
+      const events: string[] = [];
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        outFirst: async (input) => {
+          events.push("start outFirst");
+          await delay(20);
+          events.push("end outFirst");
+          return input.inFirst;
+        },
+        outOptional: async () => {
+          events.push("start outOptional");
+          return OmitProperty;
+        },
+        outSecond: async (input) => {
+          events.push("start outSecond");
+          await delay(5);
+          events.push("end outSecond");
+          return input.inSecond;
+        },
+        outString: "inFirst",
+      });
+
+      // Execute
+      const output = await objectMapper.map(input, undefined, {
+        concurrentProperties: true,
+      });
+
+      // Verify
+      expect(events).toEqual([
+        "start outFirst",
+        "start outOptional",
+        "start outSecond",
+        "end outSecond",
+        "end outFirst",
+      ]);
+      expect(output).toStrictEqual({
+        outFirst: "first",
+        outSecond: "second",
+        outString: "first",
+      });
+      expect(Object.keys(output)).toEqual([
+        "outFirst",
+        "outSecond",
+        "outString",
+      ]);
+    });
+
+    it(`rejects with a MappingError if a mapper function rejects`, async () => {
+      // Setup
+      const cause = new Error("Lookup failed");
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        outFirst: "inFirst",
+        outOptional: mapFromAsync.omit,
+        outSecond: async () => {
+          await delay(5);
+          throw cause;
+        },
+        outString: "inFirst",
+      });
+
+      // Execute
+      const promise = objectMapper.map(input, undefined, {
+        concurrentProperties: true,
+      });
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "outSecond");
+      await expect(promise).rejects.toHaveProperty("cause", cause);
+    });
+
+    it(`collects every error with the collectErrors option`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        outFirst: async () => {
+          await delay(10);
+          throw new Error("First failed");
+        },
+        outOptional: mapFromAsync.omit,
+        outSecond: async () => {
+          throw new Error("Second failed");
+        },
+        outString: "inFirst",
+      });
+
+      // Execute
+      const promise = objectMapper.map(input, undefined, {
+        collectErrors: true,
+        concurrentProperties: true,
+      });
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty(
+        "message",
+        "Failed to map 2 properties: outFirst, outSecond",
+      );
+    });
+  });
+
+  describe(`concurrency option`, () => {
+    interface Input {
+      id: number;
+    }
+
+    interface Output {
+      id: string;
+    }
+
+    function delay(ms: number): Promise<void> {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    function createTrackingMapper() {
+      const tracker = { started: 0, inFlight: 0, maxInFlight: 0 };
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        id: async (input) => {
+          tracker.started++;
+          if (input.id < 0) {
+            throw new Error(`Invalid id ${input.id}`);
+          }
+          tracker.maxInFlight = Math.max(
+            tracker.maxInFlight,
+            ++tracker.inFlight,
+          );
+          // Later elements finish first, to check the output order
+          await delay(10 - input.id);
+          tracker.inFlight--;
+          return String(input.id);
+        },
+      });
+      return { objectMapper, tracker };
+    }
+
+    it(`maps at most the given number of elements at once, in input order`, async () => {
+      const inputs = [0, 1, 2, 3, 4, 5, 6].map((id) => ({ id }));
+      for (const input of [inputs, new Set(inputs)]) {
+        // Setup
+        const { objectMapper, tracker } = createTrackingMapper();
+
+        // Execute
+        const output = await objectMapper.array(input, undefined, {
+          concurrency: 3,
+        });
+
+        // Verify
+        expect(output).toEqual(inputs.map(({ id }) => ({ id: String(id) })));
+        expect(tracker.maxInFlight).toBe(3);
+      }
+    });
+
+    it(`applies to nested array() calls that are passed the options`, async () => {
+      // Setup
+      const { objectMapper, tracker } = createTrackingMapper();
+      const parentMapper = AsyncObjectMapper.create<
+        { children: Input[] },
+        { children: Output[] }
+      >()({
+        children: (input, context, options) =>
+          objectMapper.array(input.children, context, options),
+      });
+
+      // Execute
+      const output = await parentMapper.map(
+        { children: [{ id: 1 }, { id: 2 }, { id: 3 }] },
+        undefined,
+        { concurrency: 1 },
+      );
+
+      // Verify
+      expect(output).toEqual({
+        children: [{ id: "1" }, { id: "2" }, { id: "3" }],
+      });
+      expect(tracker.maxInFlight).toBe(1);
+    });
+
+    it(`rejects with the path of the first element that fails, and starts no more elements`, async () => {
+      // Setup
+      const { objectMapper, tracker } = createTrackingMapper();
+
+      // Execute
+      const promise = objectMapper.array(
+        [{ id: -1 }, { id: 2 }, { id: 3 }],
+        undefined,
+        { concurrency: 1 },
+      );
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "[0].id");
+      expect(tracker.started).toBe(1);
+    });
+
+    it(`closes a lazy iterable after the first element that fails`, async () => {
+      // Setup
+      const { objectMapper, tracker } = createTrackingMapper();
+      const source = { read: 0, closed: false };
+      function* generateInputs(): Generator<Input> {
+        try {
+          for (const id of [-1, -2, 3, 4, 5, 6]) {
+            source.read++;
+            yield { id };
+          }
+        } finally {
+          source.closed = true;
+        }
+      }
+
+      // Execute
+      const promise = objectMapper.array(generateInputs(), undefined, {
+        concurrency: 2,
+      });
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty("path", "[0].id");
+      expect(source.closed).toBe(true);
+      expect(source.read).toBe(2);
+      expect(tracker.started).toBe(2);
+    });
+
+    it(`collects every error with the collectErrors option`, async () => {
+      // Setup
+      const { objectMapper, tracker } = createTrackingMapper();
+
+      // Execute
+      const promise = objectMapper.array(
+        new Set([{ id: -1 }, { id: 2 }, { id: -3 }, { id: 4 }, { id: 5 }]),
+        undefined,
+        { collectErrors: true, concurrency: 2 },
+      );
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty(
+        "message",
+        "Failed to map 2 properties: [0].id, [2].id",
+      );
+      expect(tracker.started).toBe(5);
+      expect(tracker.maxInFlight).toBe(2);
+    });
+
+    it(`rejects if the limit isn't a positive integer`, async () => {
+      // Setup
+      const { objectMapper } = createTrackingMapper();
+
+      for (const concurrency of [0, -1, 1.5, NaN]) {
+        // Execute
+        const promise = objectMapper.array([{ id: 1 }], undefined, {
+          concurrency,
+        });
+
+        // Verify
+        await expect(promise).rejects.toBeInstanceOf(RangeError);
+      }
+    });
+  });
+
+  describe(`signal option`, () => {
+    interface Input {
+      id: number;
+    }
+
+    interface Output {
+      first: string;
+      second: string;
+    }
+
+    function createAbortingMapper(controller: AbortController) {
+      const called: string[] = [];
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        first: (input, _context, options) => {
+          called.push(`first ${input.id}`);
+          expect(options.signal).toBe(controller.signal);
+          if (input.id === 2) {
+            controller.abort(new Error("Client disconnected"));
+          }
+          return Promise.resolve(`${input.id}`);
+        },
+        second: (input) => {
+          called.push(`second ${input.id}`);
+          return Promise.resolve(`${input.id}`);
+        },
+      });
+      return { objectMapper, called };
+    }
+
+    it(`passes the signal to mapper functions, and starts no more of them once it's aborted`, async () => {
+      // Setup
+      const controller = new AbortController();
+      const { objectMapper, called } = createAbortingMapper(controller);
+
+      // Execute
+      const promise = objectMapper.map({ id: 2 }, undefined, {
+        signal: controller.signal,
+      });
+
+      // Verify
+      await expect(promise).rejects.toThrow(new Error("Client disconnected"));
+      expect(called).toStrictEqual(["first 2"]);
+    });
+
+    it(`rejects straight away if the signal is already aborted`, async () => {
+      // Setup
+      const controller = new AbortController();
+      const { objectMapper, called } = createAbortingMapper(controller);
+      controller.abort();
+
+      // Execute
+      const promise = objectMapper.array([{ id: 1 }], undefined, {
+        signal: controller.signal,
+      });
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty("name", "AbortError");
+      expect(called).toStrictEqual([]);
+    });
+
+    it(`starts no more elements once it's aborted`, async () => {
+      for (const input of [[1, 2, 3], new Set([1, 2, 3])]) {
+        // Setup
+        const controller = new AbortController();
+        const { objectMapper, called } = createAbortingMapper(controller);
+
+        // Execute
+        const promise = objectMapper.array(
+          Array.from(input, (id) => ({ id })),
+          undefined,
+          { signal: controller.signal, concurrency: 1 },
+        );
+
+        // Verify
+        await expect(promise).rejects.toThrow(
+          new Error("Client disconnected"),
+        );
+        expect(called).toStrictEqual(["first 1", "second 1", "first 2"]);
+      }
+    });
+
+    it(`rejects with the abort reason from nested mappers, and when collecting errors`, async () => {
+      // Setup
+      const controller = new AbortController();
+      const { objectMapper: childMapper, called } = createAbortingMapper(
+        controller,
+      );
+      const parentMapper = AsyncObjectMapper.create<
+        { children: Input[] },
+        { children: Output[]; after: string }
+      >()({
+        children: (input, context, options) =>
+          childMapper.array(input.children, context, options),
+        after: () => {
+          called.push("after");
+          return Promise.resolve("after");
+        },
+      });
+
+      // Execute
+      const promise = parentMapper.map(
+        { children: [{ id: 1 }, { id: 2 }] },
+        undefined,
+        { signal: controller.signal, collectErrors: true },
+      );
+
+      // Verify
+      await expect(promise).rejects.toThrow(new Error("Client disconnected"));
+      // Both elements start at once, so only their first properties run
+      expect(called).toStrictEqual(["first 1", "first 2"]);
+    });
+  });
+
+  describe(`stream()`, () => {
+    interface Input {
+      id: number;
+    }
+
+    interface Output {
+      id: string;
+    }
+
+    function delay(ms: number): Promise<void> {
+      return new Promise((resolve) => setTimeout(resolve, ms));
+    }
+
+    function createTrackingMapper() {
+      const tracker = { read: 0, closed: false, inFlight: 0, maxInFlight: 0 };
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        id: async (input) => {
+          if (input.id < 0) {
+            throw new Error(`Invalid id ${input.id}`);
+          }
+          tracker.maxInFlight = Math.max(
+            tracker.maxInFlight,
+            ++tracker.inFlight,
+          );
+          // Later elements finish first, to check the output order
+          await delay(10 - input.id);
+          tracker.inFlight--;
+          return String(input.id);
+        },
+      });
+      async function* createSource(ids: number[]) {
+        try {
+          for (const id of ids) {
+            tracker.read++;
+            yield { id };
+          }
+        } finally {
+          tracker.closed = true;
+        }
+      }
+      return { objectMapper, createSource, tracker };
+    }
+
+    it(`maps one element at a time by default`, async () => {
+      // Setup
+      const { objectMapper, createSource, tracker } = createTrackingMapper();
+
+      // Execute
+      const output = await Array.fromAsync(
+        objectMapper.stream(createSource([1, 2, 3])),
+      );
+
+      // Verify
+      expect(output).toStrictEqual([{ id: "1" }, { id: "2" }, { id: "3" }]);
+      expect(tracker.maxInFlight).toBe(1);
+    });
+
+    it(`maps up to the concurrency limit ahead of the consumer, in input order`, async () => {
+      // Setup
+      const { objectMapper, createSource, tracker } = createTrackingMapper();
+      const ids = [0, 1, 2, 3, 4, 5, 6];
+
+      // Execute
+      const output = await Array.fromAsync(
+        objectMapper.stream(createSource(ids), undefined, { concurrency: 3 }),
+      );
+
+      // Verify
+      expect(output).toStrictEqual(ids.map((id) => ({ id: String(id) })));
+      expect(tracker.maxInFlight).toBe(3);
+    });
+
+    it(`reads no further ahead of the consumer than the concurrency limit`, async () => {
+      // Setup
+      const { objectMapper, createSource, tracker } = createTrackingMapper();
+
+      // Execute
+      const stream = objectMapper.stream(
+        createSource([1, 2, 3, 4, 5]),
+        undefined,
+        { concurrency: 2 },
+      );
+      const first = await stream.next();
+      const readAfterFirst = tracker.read;
+      const rest = await Array.fromAsync(stream);
+
+      // Verify
+      expect(first).toStrictEqual({ done: false, value: { id: "1" } });
+      expect(readAfterFirst).toBe(2);
+      expect(rest).toHaveLength(4);
+    });
+
+    it(`closes the source if the consumer stops early`, async () => {
+      // Setup
+      const { objectMapper, createSource, tracker } = createTrackingMapper();
+
+      // Execute
+      const output = [];
+      for await (const item of objectMapper.stream(createSource([1, 2, 3]))) {
+        output.push(item);
+        break;
+      }
+
+      // Verify
+      expect(output).toStrictEqual([{ id: "1" }]);
+      expect(tracker.read).toBe(1);
+      expect(tracker.closed).toBe(true);
+    });
+
+    it(`rejects with the path of an element that fails, and closes the source`, async () => {
+      // Setup
+      const { objectMapper, createSource, tracker } = createTrackingMapper();
+
+      // Execute
+      const promise = Array.fromAsync(
+        objectMapper.stream(createSource([1, -2, 3])),
+      );
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "[1].id");
+      expect(tracker.read).toBe(2);
+      expect(tracker.closed).toBe(true);
+    });
+
+    it(`throws if the limit isn't a positive integer`, async () => {
+      // Setup
+      const { objectMapper } = createTrackingMapper();
+
+      // Execute
+      const promise = Array.fromAsync(
+        objectMapper.stream([{ id: 1 }], undefined, { concurrency: 0 }),
+      );
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(RangeError);
+    });
+  });
+
+  describe(`toTransformStream()`, () => {
+    const objectMapper = AsyncObjectMapper.create<
+      { id: number },
+      { id: string }
+    >()({
+      id: (input) =>
+        input.id < 0
+          ? Promise.reject(new Error(`Invalid id ${input.id}`))
+          : Promise.resolve(String(input.id)),
+    });
+
+    it(`maps each chunk written to the stream, in order`, async () => {
+      // Execute
+      const output = await Array.fromAsync(
+        ReadableStream.from([{ id: 1 }, { id: 2 }, { id: 3 }]).pipeThrough(
+          objectMapper.toTransformStream(),
+        ),
+      );
+
+      // Verify
+      expect(output).toStrictEqual([{ id: "1" }, { id: "2" }, { id: "3" }]);
+    });
+
+    it(`errors the stream with the path of a chunk that fails`, async () => {
+      // Execute
+      const promise = Array.fromAsync(
+        ReadableStream.from([{ id: 1 }, { id: -2 }, { id: 3 }]).pipeThrough(
+          objectMapper.toTransformStream(),
+        ),
+      );
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "[1].id");
+    });
+  });
+
+  describe(`use()`, () => {
+    interface Input {
+      id: number;
+      secret: string;
+    }
+
+    interface Output {
+      id: string;
+      secret?: string;
+    }
+
+    const input: Input = { id: 1, secret: "hunter2" };
+
+    it(`lets an async property hook change or omit values`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        id: async (input) => await Promise.resolve(`#${input.id}`),
+        secret: "secret",
+      }).use({
+        async property(property, next) {
+          const value = await next();
+          return property.key === "secret" ? OmitProperty : `${value}!`;
+        },
+      });
+
+      // Execute
+      const output = await objectMapper.map(input);
+
+      // Verify
+      expect(output).toStrictEqual({ id: "#1!" });
+    });
+
+    it(`passes a promise to property hooks, even for input property names`, async () => {
+      // Setup
+      const values: unknown[] = [];
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        id: async (input) => await Promise.resolve(`#${input.id}`),
+        secret: "secret",
+      }).use({
+        property(_property, next) {
+          const value = next();
+          values.push(value);
+          return value;
+        },
+      });
+
+      // Execute
+      await objectMapper.map(input, undefined, { concurrentProperties: true });
+
+      // Verify
+      expect(values).toHaveLength(2);
+      expect(values[0]).toBeInstanceOf(Promise);
+      expect(values[1]).toBeInstanceOf(Promise);
+    });
+
+    it(`runs the map hooks around the whole call`, async () => {
+      // Setup
+      const calls: unknown[] = [];
+      const objectMapper = AsyncObjectMapper.create<Input, Output, object>()({
+        id: async (input) => {
+          calls.push("id");
+          return await Promise.resolve(`#${input.id}`);
+        },
+        secret: mapFromAsync.omit,
+      }).use({
+        beforeMap: (call) => calls.push(["beforeMap", call.context]),
+        afterMap: (_call, output) => calls.push(["afterMap", output]),
+      });
+      const context = {};
+
+      // Execute
+      await objectMapper.array([input], context);
+
+      // Verify
+      expect(calls).toStrictEqual([
+        ["beforeMap", context],
+        "id",
+        ["afterMap", { id: "#1" }],
+      ]);
+    });
+
+    it(`wraps errors from property hooks in a MappingError`, async () => {
+      // Setup
+      const error = new Error("Not allowed");
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        id: async (input) => await Promise.resolve(`#${input.id}`),
+        secret: "secret",
+      }).use({
+        property: (property, next) =>
+          property.key === "secret" ? Promise.reject(error) : next(),
+      });
+
+      // Execute
+      const promise = objectMapper.map(input);
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "secret");
+      await expect(promise).rejects.toHaveProperty("cause", error);
+    });
+  });
+
+  describe(`describe()`, () => {
+    it(`describes mapFromAsync helpers and nested mappers`, () => {
+      // Setup
+      interface Input {
+        id: number;
+      }
+      const nestedMapper = AsyncObjectMapper.create<Input, { id: number }>()({
+        id: "id",
+      });
+      const objectMapper = AsyncObjectMapper.create<Input, {
+        id: number;
+        kind: string;
+        nickname: undefined;
+        secret?: string;
+        nested: { id: number };
+        shared: string;
+      }>()({
+        id: "id",
+        kind: mapFromAsync.constant("user"),
+        nickname: mapFromAsync.undefined,
+        secret: mapFromAsync.omit,
+        nested: nestedMapper.toFunction(),
+        shared: mapFromAsync.shared(async (input) =>
+          await Promise.resolve(`${input.id}`)
+        ),
+      });
+
+      // Execute
+      const description = objectMapper.describe();
+
+      // Verify
+      expect(description).toStrictEqual({
+        id: { kind: "inputKey", inputKey: "id" },
+        kind: { kind: "constant", value: "user" },
+        nickname: { kind: "constant", value: undefined },
+        secret: { kind: "omit" },
+        nested: { kind: "nested", mapper: nestedMapper },
+        shared: { kind: "function", name: "shared" },
+      });
+    });
+  });
+
+  describe(`mapFromAsync.derived()`, () => {
+    interface Project {
+      name: string;
+      ownerId: string;
+    }
+
+    interface ProjectDto {
+      summary: string;
+      name: string;
+      ownerName: string;
+      ownerInitials?: string;
+    }
+
+    interface Context {
+      getUserName(id: string): Promise<string>;
+    }
+
+    const context: Context = {
+      getUserName: (id) => Promise.resolve(`User ${id}`),
+    };
+
+    const projectMapper = AsyncObjectMapper.create<
+      Project,
+      ProjectDto,
+      Context
+    >()({
+      summary: mapFromAsync.derived(
+        ["name", "ownerName"],
+        async (output) =>
+          await Promise.resolve(`${output.name} by ${output.ownerName}`),
+      ),
+      name: "name",
+      ownerName: (input, context) => context.getUserName(input.ownerId),
+      ownerInitials: mapFromAsync.derived(
+        ["ownerName"],
+        async (output) =>
+          output.ownerName.startsWith("User ")
+            ? await Promise.resolve(OmitProperty)
+            : output.ownerName[0],
+      ),
+    });
+
+    const project: Project = { name: "Engine", ownerId: "a" };
+
+    it(`maps properties from the mapped values of their dependencies`, async () => {
+      // Execute
+      const output = await projectMapper.map(project, context);
+
+      // Verify
+      expect(output).toStrictEqual({
+        name: "Engine",
+        ownerName: "User a",
+        summary: "Engine by User a",
+      });
+    });
+
+    it(`outputs properties in schema order, not the order they're mapped`, async () => {
+      // Setup
+      const expectedKeys = ["summary", "name", "ownerName"];
+
+      // Execute
+      const output = await projectMapper.map(project, context);
+      const concurrentOutput = await projectMapper.map(project, context, {
+        concurrentProperties: true,
+      });
+      const result = await projectMapper.tryMap(project, context);
+
+      // Verify
+      expect(Object.keys(output)).toStrictEqual(expectedKeys);
+      expect(Object.keys(concurrentOutput)).toStrictEqual(expectedKeys);
+      expect(result.ok && Object.keys(result.value)).toStrictEqual(
+        expectedKeys,
+      );
+    });
+
+    it(`starts a derived property once its dependencies resolve, with the concurrentProperties option`, async () => {
+      // Setup
+      const calls: string[] = [];
+      const loggingMapper = AsyncObjectMapper.create<
+        Project,
+        ProjectDto,
+        Context
+      >()({
+        summary: mapFromAsync.derived(["ownerName"], async (output) => {
+          calls.push("summary");
+          return await Promise.resolve(output.ownerName);
+        }),
+        name: async (input) => {
+          calls.push("name");
+          return await Promise.resolve(input.name);
+        },
+        ownerName: async (input, context) => {
+          calls.push("ownerName started");
+          const ownerName = await context.getUserName(input.ownerId);
+          calls.push("ownerName finished");
+          return ownerName;
+        },
+        ownerInitials: mapFromAsync.omit,
+      });
+
+      // Execute
+      const output = await loggingMapper.map(project, context, {
+        concurrentProperties: true,
+      });
+
+      // Verify
+      expect(output).toStrictEqual({
+        name: "Engine",
+        ownerName: "User a",
+        summary: "User a",
+      });
+      expect(calls).toStrictEqual([
+        "ownerName started",
+        "name",
+        "ownerName finished",
+        "summary",
+      ]);
+    });
+
+    it(`rejects with the error of a failed dependency, with the concurrentProperties option`, async () => {
+      // Setup
+      const error = new Error("No such user");
+      const failingContext: Context = {
+        getUserName: () => Promise.reject(error),
+      };
+
+      // Execute
+      const promise = projectMapper.map(project, failingContext, {
+        concurrentProperties: true,
+      });
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "ownerName");
+      await expect(promise).rejects.toHaveProperty("cause", error);
+    });
+
+    for (const concurrentProperties of [false, true]) {
+      it(`only reports the error of a failed dependency, with concurrentProperties: ${concurrentProperties}`, async () => {
+        // Setup
+        const error = new Error("No such user");
+        const failingContext: Context = {
+          getUserName: () => Promise.reject(error),
+        };
+
+        // Execute
+        const promise = projectMapper.map(project, failingContext, {
+          collectErrors: true,
+          concurrentProperties,
+        });
+
+        // Verify
+        await expect(promise).rejects.toHaveProperty(
+          "message",
+          "Failed to map 1 property: ownerName",
+        );
+      });
+    }
+  });
+
+  describe(`mapFromAsync.batched()`, () => {
+    interface Order {
+      orderId: number;
+      customerId: string;
+    }
+
+    interface OrderDto {
+      orderId: number;
+      customerName: string;
+    }
+
+    interface Context {
+      loadCustomerNames(ids: string[]): Promise<(string | Error)[]>;
+    }
+
+    function createContext(): Context & { calls: string[][] } {
+      const calls: string[][] = [];
+      return {
+        calls,
+        loadCustomerNames(ids) {
+          calls.push(ids);
+          return Promise.resolve(
+            ids.map((id) =>
+              id === "missing"
+                ? new Error(`No customer ${id}`)
+                : `Customer ${id}`
+            ),
+          );
+        },
+      };
+    }
+
+    const orderMapper = AsyncObjectMapper.create<Order, OrderDto, Context>()({
+      orderId: "orderId",
+      customerName: mapFromAsync.batched(
+        (input) => input.customerId,
+        (ids, context) => context.loadCustomerNames(ids),
+      ),
+    });
+
+    const orders: Order[] = [
+      { orderId: 1, customerId: "a" },
+      { orderId: 2, customerId: "b" },
+      { orderId: 3, customerId: "a" },
+    ];
+
+    it(`loads the unique keys of every element in one call`, async () => {
+      // Setup
+      const context = createContext();
+
+      // Execute
+      const output = await orderMapper.array(orders, context);
+
+      // Verify
+      expect(output).toStrictEqual([
+        { orderId: 1, customerName: "Customer a" },
+        { orderId: 2, customerName: "Customer b" },
+        { orderId: 3, customerName: "Customer a" },
+      ]);
+      expect(context.calls).toStrictEqual([["a", "b"]]);
+    });
+
+    it(`only rejects the properties whose key loaded an error`, async () => {
+      // Setup
+      const context = createContext();
+
+      // Execute
+      const result = await orderMapper.tryArray([
+        ...orders,
+        { orderId: 4, customerId: "missing" },
+      ], context);
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [
+          { path: "[3].customerName", error: new Error("No customer missing") },
+        ],
+      });
+      expect(context.calls).toStrictEqual([["a", "b", "missing"]]);
+    });
+
+    it(`doesn't share batches between top-level calls`, async () => {
+      // Setup
+      const context = createContext();
+
+      // Execute
+      await Promise.all([
+        orderMapper.map(orders[0], context),
+        orderMapper.map(orders[1], context),
+      ]);
+
+      // Verify
+      expect(context.calls).toStrictEqual([["a"], ["b"]]);
+    });
+
+    it(`shares batches with nested mappers that are passed the options`, async () => {
+      // Setup
+      const context = createContext();
+      const pageMapper = AsyncObjectMapper.create<
+        { orders: Order[] },
+        { orders: OrderDto[] },
+        Context
+      >()({
+        orders: (input, context, options) =>
+          orderMapper.array(input.orders, context, options),
+      });
+
+      // Execute
+      const output = await pageMapper.array([
+        { orders: orders.slice(0, 2) },
+        { orders: [{ orderId: 4, customerId: "c" }] },
+      ], context);
+
+      // Verify
+      expect(output.flatMap((page) => page.orders)).toHaveLength(3);
+      expect(context.calls).toStrictEqual([["a", "b", "c"]]);
+    });
+
+    it(`collects inputs mapped with different contexts into separate batches`, async () => {
+      // Setup
+      const currentContext = createContext();
+      const archiveContext = createContext();
+      const historyMapper = AsyncObjectMapper.create<
+        { current: Order[]; archived: Order[] },
+        { current: OrderDto[]; archived: OrderDto[] }
+      >()({
+        current: (input, _context, options) =>
+          orderMapper.array(input.current, currentContext, options),
+        archived: (input, _context, options) =>
+          orderMapper.array(input.archived, archiveContext, options),
+      });
+
+      // Execute
+      const output = await historyMapper.map(
+        { current: [orders[0]], archived: [orders[1], orders[2]] },
+        undefined,
+        { concurrentProperties: true },
+      );
+
+      // Verify
+      expect(output).toStrictEqual({
+        current: [{ orderId: 1, customerName: "Customer a" }],
+        archived: [
+          { orderId: 2, customerName: "Customer b" },
+          { orderId: 3, customerName: "Customer a" },
+        ],
+      });
+      expect(currentContext.calls).toStrictEqual([["a"]]);
+      expect(archiveContext.calls).toStrictEqual([["b", "a"]]);
+    });
+
+    it(`splits batches larger than maxBatchSize`, async () => {
+      // Setup
+      const context = createContext();
+      const objectMapper = AsyncObjectMapper.create<
+        Order,
+        Pick<OrderDto, "customerName">,
+        Context
+      >()({
+        customerName: mapFromAsync.batched(
+          (input) => input.customerId,
+          (ids, context) => context.loadCustomerNames(ids),
+          { maxBatchSize: 2 },
+        ),
+      });
+
+      // Execute
+      await objectMapper.array(
+        ["a", "b", "c", "b", "d"].map((customerId, orderId) => ({
+          orderId,
+          customerId,
+        })),
+        context,
+      );
+
+      // Verify
+      expect(context.calls).toStrictEqual([["a", "b"], ["c", "b"], ["d"]]);
+    });
+
+    it(`rejects every property in the batch if the load fails`, async () => {
+      // Setup
+      const context: Context = {
+        loadCustomerNames: (ids) => Promise.resolve(ids.slice(1)),
+      };
+
+      // Execute
+      const result = await orderMapper.tryArray(orders, context);
+
+      // Verify
+      expect(result.ok).toBe(false);
+      expect(!result.ok && result.errors.map(({ path }) => path))
+        .toStrictEqual([
+          "[0].customerName",
+          "[1].customerName",
+          "[2].customerName",
+        ]);
+    });
+  });
+
+  describe(`mapFromAsync.shared()`, () => {
+    interface Project {
+      name: string;
+      ownerId: string;
+    }
+
+    interface ProjectDto {
+      name: string;
+      ownerName: string;
+      ownerEmail: string;
+    }
+
+    interface User {
+      name: string;
+      email: string;
+    }
+
+    interface Context {
+      getUser(id: string): Promise<User>;
+    }
+
+    function createContext(): Context & { calls: string[] } {
+      const calls: string[] = [];
+      return {
+        calls,
+        getUser(id) {
+          calls.push(id);
+          return Promise.resolve({ name: `User ${id}`, email: `${id}@x.io` });
+        },
+      };
+    }
+
+    const loadOwner = mapFromAsync.shared(
+      (input: Project, context: Context) => context.getUser(input.ownerId),
+    );
+
+    const projectMapper = AsyncObjectMapper.create<
+      Project,
+      ProjectDto,
+      Context
+    >()({
+      name: "name",
+      ownerName: async (input, context, options) =>
+        (await loadOwner(input, context, options)).name,
+      ownerEmail: async (input, context, options) =>
+        (await loadOwner(input, context, options)).email,
+    });
+
+    it(`calls the loader once per input object`, async () => {
+      // Setup
+      const context = createContext();
+      const projects: Project[] = [
+        { name: "First", ownerId: "a" },
+        { name: "Second", ownerId: "a" },
+      ];
+
+      // Execute
+      const output = await projectMapper.array(projects, context, {
+        concurrentProperties: true,
+      });
+
+      // Verify
+      expect(output).toStrictEqual([
+        { name: "First", ownerName: "User a", ownerEmail: "a@x.io" },
+        { name: "Second", ownerName: "User a", ownerEmail: "a@x.io" },
+      ]);
+      expect(context.calls).toStrictEqual(["a", "a"]);
+    });
+
+    it(`doesn't share results between top-level calls`, async () => {
+      // Setup
+      const context = createContext();
+      const project: Project = { name: "First", ownerId: "b" };
+
+      // Execute
+      await projectMapper.map(project, context);
+      await projectMapper.map(project, context);
+
+      // Verify
+      expect(context.calls).toStrictEqual(["b", "b"]);
+    });
+
+    it(`rejects every property that shares a rejected loader`, async () => {
+      // Setup
+      const error = new Error("No such user");
+      const context: Context = { getUser: () => Promise.reject(error) };
+
+      // Execute
+      const result = await projectMapper.tryMap(
+        { name: "First", ownerId: "c" },
+        context,
+      );
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [
+          { path: "ownerName", error },
+          { path: "ownerEmail", error },
+        ],
+      });
+    });
+  });
+
+  describe(`mapFromAsync.timeout()`, () => {
+    interface Input {
+      ms: number;
+    }
+
+    /**
+     * Resolve with "loaded" after `input.ms`, unless the signal is aborted.
+     */
+    function load(
+      input: Input,
+      _context: unknown,
+      options: MapOptions,
+    ): Promise<string> {
+      return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => resolve("loaded"), input.ms);
+        options.signal?.addEventListener("abort", () => {
+          clearTimeout(timer);
+          reject(options.signal!.reason);
+        });
+      });
+    }
+
+    it(`resolves with the mapper function's value if it's in time`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<Input, { out: string }>()({
+        out: mapFromAsync.timeout(load, 50, "fallback"),
+      });
+
+      // Execute
+      const output = await objectMapper.map({ ms: 1 });
+
+      // Verify
+      expect(output).toStrictEqual({ out: "loaded" });
+    });
+
+    it(`rejects with a TimeoutError, and aborts the mapper function's signal`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<Input, { out: string }>()({
+        out: mapFromAsync.timeout(load, 1),
+      });
+
+      // Execute
+      const promise = objectMapper.map({ ms: 50 });
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty(
+        "cause.name",
+        "TimeoutError",
+      );
+    });
+
+    it(`maps to a fallback value, omits the property, or calls a fallback function`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<
+        Input,
+        { constant: string | null; omitted?: string; called: string }
+      >()({
+        constant: mapFromAsync.timeout(load, 1, null),
+        omitted: mapFromAsync.timeout(load, 1, OmitProperty),
+        called: mapFromAsync.timeout(
+          load,
+          1,
+          (error) => (error as DOMException).name,
+        ),
+      });
+
+      // Execute
+      const output = await objectMapper.map({ ms: 50 });
+
+      // Verify
+      expect(output).toStrictEqual({ constant: null, called: "TimeoutError" });
+    });
+
+    it(`maps to a fallback of undefined, rather than rejecting`, async () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<
+        Input,
+        { out: string | undefined }
+      >()({
+        out: mapFromAsync.timeout(load, 1, undefined),
+      });
+
+      // Execute
+      const output = await objectMapper.map({ ms: 50 });
+
+      // Verify
+      expect(output).toStrictEqual({ out: undefined });
+    });
+
+    it(`only allows fallbacks that the output property accepts`, () => {
+      AsyncObjectMapper.create<Input, { out: string }>()({
+        // @ts-expect-error TS2322 `out` isn't optional, so it can't be omitted
+        out: mapFromAsync.timeout(load, 1, OmitProperty),
+      });
+
+      AsyncObjectMapper.create<Input, { out: string }>()({
+        // @ts-expect-error TS2322 `out` can't be `null`
+        out: mapFromAsync.timeout(load, 1, () => null),
+      });
+    });
+  });
+
+  describe(`mapFromAsync.retry()`, () => {
+    function createFlakyFunction(failures: number) {
+      const calls = { count: 0 };
+      const flakyFunction = (input: { id: number }): Promise<string> => {
+        if (++calls.count <= failures) {
+          return Promise.reject(new Error(`Attempt ${calls.count} failed`));
+        }
+        return Promise.resolve(String(input.id));
+      };
+      return { flakyFunction, calls };
+    }
+
+    it(`retries until the mapper function resolves`, async () => {
+      // Setup
+      const { flakyFunction, calls } = createFlakyFunction(2);
+      const backoffs: number[] = [];
+      const objectMapper = AsyncObjectMapper.create<
+        { id: number },
+        { id: string }
+      >()({
+        id: mapFromAsync.retry(flakyFunction, {
+          attempts: 3,
+          backoff: (attempt) => {
+            backoffs.push(attempt);
+            return attempt;
+          },
+        }),
+      });
+
+      // Execute
+      const output = await objectMapper.map({ id: 1 });
+
+      // Verify
+      expect(output).toStrictEqual({ id: "1" });
+      expect(calls.count).toBe(3);
+      expect(backoffs).toStrictEqual([1, 2]);
+    });
+
+    it(`rejects with the last error once every attempt fails`, async () => {
+      // Setup
+      const { flakyFunction, calls } = createFlakyFunction(5);
+      const objectMapper = AsyncObjectMapper.create<
+        { id: number },
+        { id: string }
+      >()({
+        id: mapFromAsync.retry(flakyFunction, { attempts: 3 }),
+      });
+
+      // Execute
+      const promise = objectMapper.map({ id: 1 });
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty(
+        "cause",
+        new Error("Attempt 3 failed"),
+      );
+      expect(calls.count).toBe(3);
+    });
+
+    it(`stops retrying if retryIf returns false`, async () => {
+      // Setup
+      const { flakyFunction, calls } = createFlakyFunction(5);
+      const objectMapper = AsyncObjectMapper.create<
+        { id: number },
+        { id: string }
+      >()({
+        id: mapFromAsync.retry(flakyFunction, {
+          attempts: 10,
+          retryIf: (_error, attempt) => attempt < 2,
+        }),
+      });
+
+      // Execute
+      const promise = objectMapper.map({ id: 1 });
+
+      // Verify
+      await expect(promise).rejects.toHaveProperty(
+        "cause",
+        new Error("Attempt 2 failed"),
+      );
+      expect(calls.count).toBe(2);
+    });
+
+    it(`stops retrying once the signal is aborted`, async () => {
+      // Setup
+      const { flakyFunction, calls } = createFlakyFunction(5);
+      const controller = new AbortController();
+      const objectMapper = AsyncObjectMapper.create<
+        { id: number },
+        { id: string }
+      >()({
+        id: mapFromAsync.retry(flakyFunction, {
+          attempts: 3,
+          backoff: 1000,
+        }),
+      });
+
+      // Execute
+      const promise = objectMapper.map({ id: 1 }, undefined, {
+        signal: controller.signal,
+      });
+      controller.abort(new Error("Cancelled"));
+
+      // Verify
+      await expect(promise).rejects.toThrow(new Error("Cancelled"));
+      expect(calls.count).toBe(1);
+    });
+
+    it(`throws if attempts isn't a positive integer`, () => {
+      const { flakyFunction } = createFlakyFunction(0);
+      expect(() => mapFromAsync.retry(flakyFunction, { attempts: 0 }))
+        .toThrow(RangeError);
+    });
+  });
+
+  describe(`errors`, () => {
+    interface LineItemInput {
+      price: number;
+    }
+
+    interface LineItemOutput {
+      price: string;
+    }
+
+    interface OrderInput {
+      lineItems: LineItemInput[];
+    }
+
+    interface OrderOutput {
+      lineItems: LineItemOutput[];
+    }
+
+    interface CustomerInput {
+      orders: OrderInput[];
+    }
+
+    interface CustomerOutput {
+      orders: OrderOutput[];
+    }
+
+    const priceError = new Error("Negative price");
+
+    const lineItemMapper = AsyncObjectMapper.create<
+      LineItemInput,
+      LineItemOutput
+    >()({
+      price: async (input) => {
+        if (input.price < 0) {
+          throw priceError;
+        }
+        return input.price.toFixed(2);
+      },
+    });
+
+    const orderMapper = AsyncObjectMapper.create<OrderInput, OrderOutput>()({
+      lineItems: (input) => lineItemMapper.array(input.lineItems),
+    });
+
+    async function catchMappingError(
+      promise: Promise<unknown>,
+    ): Promise<MappingError> {
+      try {
+        await promise;
+      } catch (error) {
+        if (error instanceof MappingError) {
+          return error;
+        }
+        throw error;
+      }
+      throw new Error(`Expected a MappingError to be thrown`);
+    }
+
+    it(`wraps errors thrown by mapper functions in a MappingError`, async () => {
+      // Execute
+      const error = await catchMappingError(lineItemMapper.map({ price: -1 }));
+
+      // Verify
+      expect(error.path).toEqual("price");
+      expect(error.mapper).toBe(lineItemMapper);
+      expect(error.cause).toBe(priceError);
+    });
+
+    it(`records the path through nested mappers and arrays`, async () => {
+      // Setup
+      const customerMapper = AsyncObjectMapper.create<
+        CustomerInput,
+        CustomerOutput
+      >()({
+        orders: (input) => orderMapper.array(input.orders),
+      });
+      const input: CustomerInput = {
+        orders: [
+          { lineItems: [] },
+          { lineItems: [{ price: 1 }, { price: 2 }, { price: -3 }] },
+        ],
+      };
+
+      // Execute
+      const error = await catchMappingError(customerMapper.map(input));
+
+      // Verify
+      expect(error.path).toEqual("orders[1].lineItems[2].price");
+      expect(error.pathSegments).toEqual([
+        "orders",
+        1,
+        "lineItems",
+        2,
+        "price",
+      ]);
+      expect(error.mapper).toBe(lineItemMapper);
+      expect(error.cause).toBe(priceError);
+    });
+
+    it(`records the index of elements from non-array iterables`, async () => {
+      // Execute
+      const error = await catchMappingError(
+        lineItemMapper.array(new Set([{ price: 1 }, { price: -2 }])),
+      );
+
+      // Verify
+      expect(error.path).toEqual("[1].price");
+    });
+
+    describe(`tryMap()`, () => {
+      interface Input {
+        name: string;
+        lineItems: LineItemInput[];
+      }
+
+      interface Output {
+        name: string;
+        total: number;
+        lineItems: LineItemOutput[];
+      }
+
+      const totalError = new Error("Empty order");
+
+      const objectMapper = AsyncObjectMapper.create<Input, Output>()({
+        name: "name",
+        total: async (input) => {
+          if (input.lineItems.length === 0) {
+            throw totalError;
+          }
+          return input.lineItems.reduce((sum, item) => sum + item.price, 0);
+        },
+        lineItems: (input, context, options) =>
+          lineItemMapper.array(input.lineItems, context, options),
+      });
+
+      it(`returns the output if every property maps`, async () => {
+        // Execute
+        const result = await objectMapper.tryMap({
+          name: "foo",
+          lineItems: [{ price: 1 }],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: true,
+          value: {
+            name: "foo",
+            total: 1,
+            lineItems: [{ price: "1.00" }],
+          },
+        });
+      });
+
+      it(`returns every error, including those from nested mappers`, async () => {
+        // Execute
+        const result = await objectMapper.tryMap({
+          name: "foo",
+          lineItems: [{ price: -1 }, { price: 2 }, { price: -3 }],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "lineItems[0].price", error: priceError },
+            { path: "lineItems[2].price", error: priceError },
+          ],
+        });
+      });
+
+      it(`keeps mapping after a property fails`, async () => {
+        // Execute
+        const result = await objectMapper.tryMap({
+          name: "foo",
+          lineItems: [],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "total", error: totalError },
+          ],
+        });
+      });
+    });
+
+    describe(`tryArray()`, () => {
+      it(`returns the output if every element maps`, async () => {
+        // Execute
+        const result = await lineItemMapper.tryArray([
+          { price: 1 },
+          { price: 2 },
+        ]);
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: true,
+          value: [{ price: "1.00" }, { price: "2.00" }],
+        });
+      });
+
+      it(`returns an error for every element that fails, with its index`, async () => {
+        for (
+          const input of [
+            [{ price: -1 }, { price: 2 }, { price: -3 }],
+            new Set([{ price: -1 }, { price: 2 }, { price: -3 }]),
+          ]
+        ) {
+          // Execute
+          const result = await lineItemMapper.tryArray(input);
+
+          // Verify
+          expect(result).toStrictEqual({
+            ok: false,
+            errors: [
+              { path: "[0].price", error: priceError },
+              { path: "[2].price", error: priceError },
+            ],
+          });
+        }
+      });
+    });
+  });
 });
@@ -0,0 +1,182 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { AsyncUnionObjectMapper } from "../src/async-union-object-mapper.ts";
+import { MappingError } from "../src/mapping-error.ts";
+
+describe(AsyncUnionObjectMapper.name, () => {
+  interface Circle {
+    type: "circle";
+    radius: number;
+  }
+
+  interface Square {
+    type: "square";
+    size: number;
+  }
+
+  type Shape = Circle | Square;
+
+  interface Output {
+    type: string;
+    area: number;
+  }
+
+  const circle: Circle = { type: "circle", radius: 2 };
+  const square: Square = { type: "square", size: 3 };
+
+  it(`maps each input using the schema or mapper for its variant`, async () => {
+    // Setup
+    const squareMapper = AsyncObjectMapper.create<Square, Output>()({
+      type: "type",
+      area: (input) => Promise.resolve(input.size ** 2),
+    });
+
+    const shapeMapper = AsyncObjectMapper.union<Shape, Output>()("type", {
+      circle: {
+        type: "type",
+        area: (input) => Promise.resolve(input.radius * 3),
+      },
+      square: squareMapper,
+    });
+
+    // Execute
+    const output = await shapeMapper.array([circle, square]);
+
+    // Verify
+    expect(shapeMapper).toBeInstanceOf(AsyncUnionObjectMapper);
+    expect(output).toStrictEqual([
+      { type: "circle", area: 6 },
+      { type: "square", area: 9 },
+    ]);
+  });
+
+  it(`requires every variant to be mapped`, () => {
+    AsyncObjectMapper.union<Shape, Output>()(
+      "type",
+      // @ts-expect-error TS2741 The "square" variant is missing
+      {
+        circle: {
+          type: "type",
+          area: (input) => Promise.resolve(input.radius * 3),
+        },
+      },
+    );
+  });
+
+  it(`can convert an AsyncUnionObjectMapper instance into a function`, async () => {
+    // Setup
+    const shapeMapper = AsyncObjectMapper.union<Shape, { type: string }>()(
+      "type",
+      {
+        circle: { type: "type" },
+        square: { type: (input) => Promise.resolve(input.type.toUpperCase()) },
+      },
+    );
+
+    // Execute
+    const mapShape = shapeMapper.toFunction();
+
+    // Verify
+    expect(await mapShape(square)).toStrictEqual({ type: "SQUARE" });
+    expect(mapShape.discriminant).toBe("type");
+    expect(mapShape.variants).toBe(shapeMapper.variants);
+  });
+
+  it(`rejects with the path of errors from the variant's mapper`, async () => {
+    // Setup
+    const shapeMapper = AsyncObjectMapper.union<Shape, { area: number }>()(
+      "type",
+      {
+        circle: { area: () => Promise.reject(new Error("Not supported")) },
+        square: { area: (input) => Promise.resolve(input.size ** 2) },
+      },
+    );
+
+    // Execute
+    const promise = shapeMapper.array([square, circle]);
+    const result = await shapeMapper.tryArray([circle, square, circle]);
+
+    // Verify
+    await expect(promise).rejects.toBeInstanceOf(MappingError);
+    await expect(promise).rejects.toHaveProperty("path", "[1].area");
+    expect(result).toStrictEqual({
+      ok: false,
+      errors: [
+        { path: "[0].area", error: new Error("Not supported") },
+        { path: "[2].area", error: new Error("Not supported") },
+      ],
+    });
+  });
+
+  it(`matches string discriminants that look like numbers`, async () => {
+    // Setup
+    type Input = { v: "1"; a: string } | { v: "2"; b: string };
+    const objectMapper = AsyncObjectMapper.union<Input, { out: string }>()(
+      "v",
+      {
+        "1": { out: "a" },
+        "2": { out: async (input) => await Promise.resolve(input.b) },
+      },
+    );
+
+    // Execute
+    const output = await objectMapper.array([
+      { v: "1", a: "x" },
+      { v: "2", b: "y" },
+    ]);
+
+    // Verify
+    expect(output).toStrictEqual([{ out: "x" }, { out: "y" }]);
+  });
+
+  it(`rejects if the input doesn't match any variant`, async () => {
+    // Setup
+    const shapeMapper = AsyncObjectMapper.union<Shape, { type: string }>()(
+      "type",
+      {
+        circle: { type: "type" },
+        square: { type: "type" },
+      },
+    );
+    const triangle = { type: "triangle" } as unknown as Shape;
+
+    // Execute & Verify
+    await expect(shapeMapper.map(triangle)).rejects.toThrow(
+      `No variant for type "triangle"`,
+    );
+  });
+
+  it(`returns a failure from tryMap() and tryArray(), if the input doesn't match any variant`, async () => {
+    // Setup
+    const shapeMapper = AsyncObjectMapper.union<Shape, { type: string }>()(
+      "type",
+      {
+        circle: { type: "type" },
+        square: { type: "type" },
+      },
+    );
+    const triangle = { type: "triangle" } as unknown as Shape;
+
+    // Execute
+    const mapResult = await shapeMapper.tryMap(triangle);
+    const arrayResult = await shapeMapper.tryArray([circle, triangle]);
+
+    // Verify
+    expect(mapResult).toStrictEqual({
+      ok: false,
+      errors: [
+        { path: "type", error: new Error(`No variant for type "triangle"`) },
+      ],
+    });
+    expect(arrayResult).toStrictEqual({
+      ok: false,
+      errors: [
+        {
+          path: "[1].type",
+          error: new Error(`No variant for type "triangle"`),
+        },
+      ],
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { BidirectionalMapper } from "../src/bidirectional-mapper.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+
+describe(BidirectionalMapper.name, () => {
+  interface UserEntity {
+    firstName: string;
+    lastName: string;
+    username: string;
+    age: number;
+  }
+
+  interface UserDto {
+    fullName: string;
+    login: string;
+    age: number;
+  }
+
+  const userEntity: UserEntity = {
+    firstName: "Bob",
+    lastName: "Terwilliger",
+    username: "bterwilliger",
+    age: 42,
+  };
+
+  const userDto: UserDto = {
+    fullName: "Bob Terwilliger",
+    login: "bterwilliger",
+    age: 42,
+  };
+
+  it(`can map in both directions`, () => {
+    // Setup
+    const mapper = BidirectionalMapper.create<UserEntity, UserDto>()({
+      fullName: {
+        to: (input) => `${input.firstName} ${input.lastName}`,
+        from: {
+          firstName: (output) => output.fullName.split(" ")[0],
+          lastName: (output) => output.fullName.split(" ").slice(1).join(" "),
+        },
+      },
+      login: "username",
+      age: "age",
+    });
+
+    // Execute
+    const forwardOutput = mapper.forward.map(userEntity);
+    const reverseOutput = mapper.reverse.map(userDto);
+
+    // Verify
+    expect(mapper.forward).toBeInstanceOf(ObjectMapper);
+    expect(mapper.reverse).toBeInstanceOf(ObjectMapper);
+    expect(forwardOutput).toStrictEqual(userDto);
+    expect(reverseOutput).toStrictEqual(userEntity);
+    expect(mapper.reverse.schema).toStrictEqual({
+      firstName: expect.any(Function),
+      lastName: expect.any(Function),
+      username: "login",
+      age: "age",
+    });
+  });
+
+  it(`passes the context in both directions`, () => {
+    // Setup
+    interface Context {
+      separator: string;
+    }
+
+    const mapper = BidirectionalMapper.create<
+      Pick<UserEntity, "firstName" | "lastName">,
+      Pick<UserDto, "fullName">,
+      Context
+    >()({
+      fullName: {
+        to: (input, context) =>
+          `${input.firstName}${context.separator}${input.lastName}`,
+        from: {
+          firstName: (output, context) =>
+            output.fullName.split(context.separator)[0],
+          lastName: (output, context) =>
+            output.fullName.split(context.separator)[1],
+        },
+      },
+    });
+    const context = { separator: "_" };
+
+    // Execute
+    const output = mapper.forward.map(
+      { firstName: "Bob", lastName: "Terwilliger" },
+      context,
+    );
+
+    // Verify
+    expect(output).toStrictEqual({ fullName: "Bob_Terwilliger" });
+    expect(mapper.reverse.map(output, context)).toStrictEqual({
+      firstName: "Bob",
+      lastName: "Terwilliger",
+    });
+  });
+
+  it(`requires every input property to be mapped back`, () => {
+    // @ts-expect-error TS2554 Nothing maps back to "lastName"
+    BidirectionalMapper.create<UserEntity, UserDto>()({
+      fullName: {
+        to: (input) => `${input.firstName} ${input.lastName}`,
+        from: {
+          firstName: (output) => output.fullName,
+        },
+      },
+      login: "username",
+      age: "age",
+    });
+  });
+
+  it(`infers input properties mapped back by several mapper function pairs`, () => {
+    // Setup
+    const mapper = BidirectionalMapper.create<UserEntity, UserDto>()({
+      fullName: {
+        to: (input) => `${input.firstName} ${input.lastName}`,
+        from: {
+          firstName: (output) => output.fullName.split(" ")[0],
+          lastName: (output) => output.fullName.split(" ").slice(1).join(" "),
+        },
+      },
+      login: {
+        to: (input) => input.username,
+        from: { username: (output) => output.login },
+      },
+      age: "age",
+    });
+
+    // Execute
+    const output = mapper.reverse.map(userDto);
+
+    // Verify
+    expect(output).toStrictEqual(userEntity);
+  });
+
+  it(`only allows properties from the output type`, () => {
+    BidirectionalMapper.create<
+      Pick<UserEntity, "age" | "username">,
+      Pick<UserDto, "age">
+    >()({
+      age: "age",
+      // @ts-expect-error TS2322 "login" isn't in the output type
+      login: "username",
+    });
+  });
+
+  it(`requires input property names to be compatible in both directions`, () => {
+    // Setup
+    interface Input {
+      inString: string;
+      inStringOptional?: string;
+    }
+
+    interface Output {
+      outStringOptional?: string;
+      outString: string;
+    }
+
+    BidirectionalMapper.create<Input, Output>()({
+      // @ts-expect-error TS2322 An optional string can't be mapped back to a string
+      outStringOptional: "inString",
+      // @ts-expect-error TS2322 An optional string can't be mapped to a string
+      outString: "inStringOptional",
+    });
+  });
+
+  it(`maps input properties named after Object.prototype members`, () => {
+    // Setup
+    const mapper = BidirectionalMapper.create<
+      { constructor: string; toString: string; id: number },
+      { ctor: string; text: string; id: number }
+    >()({
+      ctor: "constructor",
+      text: "toString",
+      id: "id",
+    });
+
+    // Execute
+    const reverseOutput = mapper.reverse.map({ ctor: "a", text: "b", id: 1 });
+
+    // Verify
+    expect(reverseOutput).toStrictEqual({
+      constructor: "a",
+      toString: "b",
+      id: 1,
+    });
+  });
+
+  it(`throws if an input property is mapped back more than once`, () => {
+    // Setup
+    interface Output {
+      login: string;
+      username: string;
+    }
+
+    // Execute
+    const createMapper = () =>
+      BidirectionalMapper.create<Pick<UserEntity, "username">, Output>()({
+        login: "username",
+        username: "username",
+      });
+
+    // Verify
+    expect(createMapper).toThrow(
+      `Input property "username" is mapped back from more than one output property`,
+    );
+  });
+});
@@ -0,0 +1,222 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { MapperDocumentation } from "../src/documentation.ts";
+import { mapFrom } from "../src/map-from.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+
+interface UserEntity {
+  id: number;
+  firstName: string;
+  lastName: string;
+  passwordHash: string;
+  address: { line1: string; city: string };
+}
+
+interface AddressDto {
+  street: string;
+  city: string;
+}
+
+interface UserDto {
+  userId: number;
+  fullName: string;
+  kind: string;
+  password?: string;
+  address: AddressDto;
+  label: string;
+}
+
+const addressMapper = ObjectMapper.create<UserEntity, AddressDto>()({
+  street: "address.line1",
+  city: "address.city",
+});
+
+const userMapper = ObjectMapper.create<UserEntity, UserDto>()({
+  userId: "id",
+  fullName: (input) => `${input.firstName} ${input.lastName}`,
+  kind: mapFrom.constant("user"),
+  password: mapFrom.omit,
+  address: addressMapper.toFunction(),
+  label: mapFrom.derived(
+    ["fullName", "userId"],
+    (output) => `${output.fullName} (#${output.userId})`,
+  ),
+});
+
+describe(`MapperDocumentation`, () => {
+  describe(`toMarkdown()`, () => {
+    it(`formats a table of the output properties of each mapper`, () => {
+      // Setup
+      const documentation = new MapperDocumentation({
+        "User DTO": userMapper,
+        AddressDto: addressMapper,
+      });
+
+      // Execute
+      const markdown = documentation.toMarkdown();
+
+      // Verify
+      expect(markdown).toBe(
+        [
+          "## User DTO",
+          "",
+          "| Output key | Source                                  |",
+          "| ---------- | --------------------------------------- |",
+          "| `userId`   | Input key `id`                          |",
+          "| `fullName` | Function `fullName`                     |",
+          '| `kind`     | Constant `"user"`                       |',
+          "| `password` | Omitted                                 |",
+          "| `address`  | Nested mapper [AddressDto](#addressdto) |",
+          "| `label`    | Derived from `fullName`, `userId`       |",
+          "",
+          "## AddressDto",
+          "",
+          "| Output key | Source                    |",
+          "| ---------- | ------------------------- |",
+          "| `street`   | Input key `address.line1` |",
+          "| `city`     | Input key `address.city`  |",
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it(`numbers the anchors of headings with the same slug`, () => {
+      // Setup
+      const cityMapper = ObjectMapper.create<UserEntity, { city: string }>()({
+        city: "address.city",
+      });
+      const documentation = new MapperDocumentation({
+        "Address!": cityMapper,
+        Address: addressMapper,
+        "User DTO": userMapper,
+      });
+
+      // Execute
+      const markdown = documentation.toMarkdown();
+
+      // Verify
+      expect(markdown).toContain("| Nested mapper [Address](#address-1) |");
+    });
+
+    it(`doesn't link to nested mappers that aren't documented`, () => {
+      // Setup
+      const documentation = new MapperDocumentation({ UserDto: userMapper });
+
+      // Execute
+      const markdown = documentation.toMarkdown();
+
+      // Verify
+      expect(markdown).toContain("| `address`  | Nested mapper ");
+      expect(markdown).not.toContain("AddressDto");
+    });
+
+    it(`uses the given heading level, and escapes table cells`, () => {
+      // Setup
+      const objectMapper = ObjectMapper.create<
+        { id: number },
+        { separator: string }
+      >()({
+        separator: mapFrom.constant("a|b"),
+      });
+      const documentation = new MapperDocumentation({
+        Separator: objectMapper,
+      });
+
+      // Execute
+      const markdown = documentation.toMarkdown(3);
+
+      // Verify
+      expect(markdown).toBe(
+        [
+          "### Separator",
+          "",
+          "| Output key  | Source            |",
+          "| ----------- | ----------------- |",
+          '| `separator` | Constant `"a\\|b"` |',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it(`documents async mappers`, () => {
+      // Setup
+      const objectMapper = AsyncObjectMapper.create<
+        UserEntity,
+        { userId: number }
+      >()({
+        userId: "id",
+      });
+      const documentation = new MapperDocumentation({ UserDto: objectMapper });
+
+      // Execute
+      const markdown = documentation.toMarkdown();
+
+      // Verify
+      expect(markdown).toContain("| `userId`   | Input key `id` |");
+    });
+  });
+
+  describe(`toMermaid()`, () => {
+    it(`draws an arrow from each mapper to the mappers nested in it`, () => {
+      // Setup
+      const documentation = new MapperDocumentation({
+        UserDto: userMapper,
+        AddressDto: addressMapper,
+      });
+
+      // Execute
+      const mermaid = documentation.toMermaid();
+
+      // Verify
+      expect(mermaid).toBe(
+        [
+          "flowchart LR",
+          '  mapper0["UserDto"]',
+          '  mapper1["AddressDto"]',
+          '  mapper0 -->|"address"| mapper1',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it(`quotes names and labels, and escapes them with entity codes`, () => {
+      // Setup
+      const objectMapper = ObjectMapper.create<
+        UserEntity,
+        { 'a|b"]\n#c': AddressDto }
+      >()({
+        'a|b"]\n#c': addressMapper.toFunction(),
+      });
+      const documentation = new MapperDocumentation({
+        'Odd "name"': objectMapper,
+        "[Address]": addressMapper,
+      });
+
+      // Execute
+      const mermaid = documentation.toMermaid();
+
+      // Verify
+      expect(mermaid).toBe(
+        [
+          "flowchart LR",
+          '  mapper0["Odd #quot;name#quot;"]',
+          '  mapper1["#91;Address#93;"]',
+          '  mapper0 -->|"a#124;b#quot;#93;#10;#35;c"| mapper1',
+          "",
+        ].join("\n"),
+      );
+    });
+
+    it(`leaves out nested mappers that aren't documented`, () => {
+      // Setup
+      const documentation = new MapperDocumentation({ UserDto: userMapper });
+
+      // Execute
+      const mermaid = documentation.toMermaid();
+
+      // Verify
+      expect(mermaid).toBe('flowchart LR\n  mapper0["UserDto"]\n');
+    });
+  });
+});
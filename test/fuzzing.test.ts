@@ -0,0 +1,236 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import {
+  arbitrary,
+  assertFuzzPasses,
+  fuzzMapper,
+  FuzzRandom,
+  MapperAssertionError,
+} from "../testing.ts";
+
+interface UserEntity {
+  name: string;
+  age?: number;
+  tags: string[];
+}
+
+interface UserDto {
+  initial: string;
+  age: string;
+  tagCount: number;
+}
+
+const userInput = arbitrary.object<UserEntity>({
+  name: arbitrary.string(),
+  age: arbitrary.optional(arbitrary.integer({ min: 0, max: 150 })),
+  tags: arbitrary.array(arbitrary.string()),
+});
+
+describe(`FuzzRandom`, () => {
+  it(`returns the same numbers for the same seed`, () => {
+    // Setup
+    const first = new FuzzRandom(123);
+    const second = new FuzzRandom(123);
+
+    // Execute
+    const firstNumbers = Array.from({ length: 5 }, () => first.next());
+    const secondNumbers = Array.from({ length: 5 }, () => second.next());
+
+    // Verify
+    expect(firstNumbers).toStrictEqual(secondNumbers);
+    expect(new Set(firstNumbers).size).toBe(5);
+    for (const number of firstNumbers) {
+      expect(number).toBeGreaterThanOrEqual(0);
+      expect(number).toBeLessThan(1);
+    }
+  });
+
+  it(`returns integers within the range`, () => {
+    // Setup
+    const random = new FuzzRandom(1);
+
+    // Execute
+    const integers = Array.from({ length: 100 }, () => random.integer(-2, 2));
+
+    // Verify
+    expect(new Set(integers)).toStrictEqual(new Set([-2, -1, 0, 1, 2]));
+  });
+});
+
+describe(`arbitrary`, () => {
+  it(`generates values that match the descriptors`, () => {
+    // Setup
+    const random = new FuzzRandom(7);
+
+    // Execute
+    const inputs = Array.from({ length: 50 }, () => userInput.generate(random));
+
+    // Verify
+    for (const input of inputs) {
+      expect(typeof input.name).toBe("string");
+      expect(input.name.length).toBeLessThanOrEqual(20);
+      if ("age" in input) {
+        expect(Number.isInteger(input.age)).toBe(true);
+        expect(input.age).toBeGreaterThanOrEqual(0);
+        expect(input.age).toBeLessThanOrEqual(150);
+      }
+      expect(Array.isArray(input.tags)).toBe(true);
+    }
+    expect(inputs.some((input) => input.name === "")).toBe(true);
+    expect(inputs.some((input) => !("age" in input))).toBe(true);
+  });
+
+  it(`shrinks values towards simpler values`, () => {
+    // Execute
+    const strings = [...arbitrary.string().shrink("abcd")];
+    const integers = [...arbitrary.integer().shrink(-10)];
+    const arrays = [...arbitrary.array(arbitrary.boolean()).shrink([true])];
+    const optionals = [
+      ...arbitrary.optional(arbitrary.string()).shrink("ab"),
+    ];
+
+    // Verify
+    expect(strings).toStrictEqual(["", "ab", "abc"]);
+    expect(integers).toStrictEqual([0, -5, -9]);
+    expect(arrays).toStrictEqual([[], [false]]);
+    expect(optionals).toStrictEqual([undefined, "", "a"]);
+  });
+
+  it(`generates and shrinks one of the given values`, () => {
+    // Setup
+    const status = arbitrary.oneOf("active", "suspended", "deleted");
+    const random = new FuzzRandom(3);
+
+    // Execute
+    const values = new Set(
+      Array.from({ length: 30 }, () => status.generate(random)),
+    );
+
+    // Verify
+    expect(values).toStrictEqual(new Set(["active", "suspended", "deleted"]));
+    expect([...status.shrink("deleted")]).toStrictEqual([
+      "active",
+      "suspended",
+    ]);
+  });
+});
+
+describe(`fuzzMapper()`, () => {
+  const userMapper = ObjectMapper.create<UserEntity, UserDto>()({
+    initial: (input) => input.name[0].toUpperCase(),
+    age: (input) => input.age?.toFixed(0) ?? "unknown",
+    tagCount: (input) => input.tags.length,
+  });
+
+  it(`reports the simplest failing input, and the output property that threw`, async () => {
+    // Execute
+    const result = await fuzzMapper(userMapper, { input: userInput, seed: 42 });
+
+    // Verify
+    expect(result.seed).toBe(42);
+    expect(result.failure).toMatchObject({
+      input: { name: "", tags: [] },
+      context: undefined,
+      path: "initial",
+    });
+    expect(result.failure!.error).toBeInstanceOf(Error);
+    expect(result.runs).toBe(result.failure!.run);
+  });
+
+  it(`reproduces the same failure for the same seed`, async () => {
+    // Execute
+    const first = await fuzzMapper(userMapper, { input: userInput, seed: 9 });
+    const second = await fuzzMapper(userMapper, { input: userInput, seed: 9 });
+
+    // Verify
+    expect(second.failure!.run).toBe(first.failure!.run);
+    expect(second.failure!.input).toStrictEqual(first.failure!.input);
+  });
+
+  it(`runs every input, if none fail`, async () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<UserEntity, { name: string }>()({
+      name: "name",
+    });
+
+    // Execute
+    const result = await fuzzMapper(objectMapper, {
+      input: userInput,
+      runs: 25,
+      seed: 1,
+    });
+
+    // Verify
+    expect(result).toStrictEqual({ seed: 1, runs: 25, failure: undefined });
+  });
+
+  it(`accepts generator functions for the input and context, without shrinking`, async () => {
+    // Setup
+    const objectMapper = AsyncObjectMapper.create<
+      { amount: number },
+      { formatted: string },
+      { currency: string }
+    >()({
+      formatted: async (input, context) => {
+        await Promise.resolve();
+        if (input.amount > 900) {
+          throw new RangeError(`Amount too large: ${input.amount}`);
+        }
+        return `${input.amount} ${context.currency}`;
+      },
+    });
+
+    // Execute
+    const result = await fuzzMapper(objectMapper, {
+      input: (random) => ({ amount: random.integer(0, 1000) }),
+      context: (random) => ({ currency: random.pick(["AUD", "USD"]) }),
+      seed: 5,
+    });
+
+    // Verify
+    expect(result.failure!.path).toBe("formatted");
+    expect(result.failure!.input.amount).toBeGreaterThan(900);
+    expect(["AUD", "USD"]).toContain(result.failure!.context.currency);
+    expect(result.failure!.shrinks).toBe(0);
+  });
+});
+
+describe(`assertFuzzPasses()`, () => {
+  it(`throws with the seed, the output property and the simplest failing input`, async () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<UserEntity, { initial: string }>()(
+      {
+        initial: (input) => input.name[0].toUpperCase(),
+      },
+    );
+
+    // Execute
+    const assertion = assertFuzzPasses(objectMapper, {
+      input: userInput,
+      seed: 42,
+    });
+
+    // Verify
+    await expect(assertion).rejects.toThrow(MapperAssertionError);
+    await expect(
+      assertFuzzPasses(objectMapper, { input: userInput, seed: 42 }),
+    ).rejects.toThrow(
+      /with seed 42 .*\n {2}path: {2}initial\n {2}error: .*toUpperCase.*\n {2}input: \{"name":"","tags":\[\]\}$/,
+    );
+  });
+
+  it(`doesn't throw if every input is mapped`, async () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<UserEntity, { name: string }>()({
+      name: "name",
+    });
+
+    // Execute
+    const assertion = assertFuzzPasses(objectMapper, { input: userInput });
+
+    // Verify
+    await expect(assertion).resolves.toBeUndefined();
+  });
+});
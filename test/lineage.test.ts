@@ -0,0 +1,395 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { MappingLineage } from "../src/lineage.ts";
+import { mapFrom } from "../src/map-from.ts";
+import { mapFromAsync } from "../src/map-from-async.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import type { ObjectMapperSchema, UnmappedInputKeys } from "../src/types.ts";
+
+interface Address {
+  line1: string;
+  city: string;
+  postcode: string;
+}
+
+interface Customer {
+  id: number;
+  name: { first: string; last: string };
+  email: string;
+  addresses: Address[];
+  createdAt: Date;
+}
+
+interface AddressDto {
+  street: string;
+  location: string;
+}
+
+interface CustomerDto {
+  customerId: number;
+  fullName: string;
+  firstName: string;
+  contact: string;
+  addresses: AddressDto[];
+  label: string;
+  since: string;
+  kind: string;
+}
+
+const customer: Customer = {
+  id: 1,
+  name: { first: "Ada", last: "Lovelace" },
+  email: "ada@example.com",
+  addresses: [
+    { line1: "12 St James's Square", city: "London", postcode: "SW1Y 4JH" },
+    { line1: "Ockham Park", city: "Ockham", postcode: "GU23 6NQ" },
+  ],
+  createdAt: new Date("1815-12-10"),
+};
+
+describe(`ObjectMapper#traceLineage()`, () => {
+  const addressMapper = ObjectMapper.create<Address, AddressDto>()({
+    street: "line1",
+    location: (input) => `${input.city} ${input.postcode}`,
+  });
+
+  const customerMapper = ObjectMapper.create<Customer, CustomerDto>()({
+    customerId: "id",
+    fullName: (input) => `${input.name.first} ${input.name.last}`,
+    firstName: "name.first",
+    contact: (input) => input.email,
+    addresses: (input, context, options) =>
+      addressMapper.array(input.addresses, context, options),
+    label: mapFrom.derived(
+      ["fullName", "customerId"],
+      (output) => `${output.fullName} (#${output.customerId})`,
+    ),
+    since: (input) => input.createdAt.toISOString(),
+    kind: mapFrom.constant("customer"),
+  });
+
+  it(`records the input properties read for each output property`, () => {
+    // Execute
+    const lineage = customerMapper.traceLineage(customer);
+
+    // Verify
+    expect(lineage).toBeInstanceOf(MappingLineage);
+    expect(lineage.entries).toStrictEqual([
+      { output: "customerId", inputs: ["id"], dependencies: [] },
+      {
+        output: "fullName",
+        inputs: ["name.first", "name.last"],
+        dependencies: [],
+      },
+      { output: "firstName", inputs: ["name.first"], dependencies: [] },
+      { output: "contact", inputs: ["email"], dependencies: [] },
+      { output: "addresses", inputs: ["addresses[]"], dependencies: [] },
+      {
+        output: "addresses[].street",
+        inputs: ["addresses[].line1"],
+        dependencies: [],
+      },
+      {
+        output: "addresses[].location",
+        inputs: ["addresses[].city", "addresses[].postcode"],
+        dependencies: [],
+      },
+      {
+        output: "label",
+        inputs: ["name.first", "name.last", "id"],
+        dependencies: ["fullName", "customerId"],
+      },
+      { output: "since", inputs: ["createdAt"], dependencies: [] },
+      { output: "kind", inputs: [], dependencies: [] },
+    ]);
+  });
+
+  it(`looks up the inputs of an output property`, () => {
+    // Setup
+    const lineage = customerMapper.traceLineage(customer);
+
+    // Execute
+    const inputs = lineage.getInputs("addresses[].location");
+
+    // Verify
+    expect(inputs).toStrictEqual(["addresses[].city", "addresses[].postcode"]);
+    expect(lineage.getInputs("missing")).toStrictEqual([]);
+  });
+
+  it(`can be exported as JSON`, () => {
+    // Setup
+    const lineage = ObjectMapper.create<Customer, { contact: string }>()({
+      contact: "email",
+    }).traceLineage(customer);
+
+    // Execute
+    const json = JSON.stringify(lineage);
+
+    // Verify
+    expect(JSON.parse(json)).toStrictEqual({
+      entries: [{ output: "contact", inputs: ["email"], dependencies: [] }],
+    });
+  });
+
+  it(`records nested properties as depending on the parent property, if the nested input is created by the parent`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      Customer,
+      { address: AddressDto }
+    >()({
+      address: (input, context, options) =>
+        addressMapper.map(
+          { line1: input.email, city: "", postcode: "" },
+          context,
+          options,
+        ),
+    });
+
+    // Execute
+    const lineage = objectMapper.traceLineage(customer);
+
+    // Verify
+    expect(lineage.entries).toStrictEqual([
+      { output: "address", inputs: ["email"], dependencies: [] },
+      {
+        output: "address.street",
+        inputs: ["email"],
+        dependencies: ["address"],
+      },
+      {
+        output: "address.location",
+        inputs: ["email"],
+        dependencies: ["address"],
+      },
+    ]);
+  });
+
+  it(`doesn't change the mapper's normal output`, () => {
+    // Setup
+    customerMapper.traceLineage(customer);
+
+    // Execute
+    const output = customerMapper.map(customer);
+
+    // Verify
+    expect(output.addresses[0]).toStrictEqual({
+      street: "12 St James's Square",
+      location: "London SW1Y 4JH",
+    });
+  });
+
+  it(`records the input properties of a frozen input object`, () => {
+    // Setup
+    const frozenCustomer: Customer = Object.freeze({
+      ...customer,
+      name: Object.freeze({ ...customer.name }),
+      addresses: Object.freeze(
+        customer.addresses.map((address) => Object.freeze({ ...address })),
+      ) as Address[],
+    });
+
+    // Execute
+    const lineage = customerMapper.traceLineage(frozenCustomer);
+
+    // Verify
+    expect(lineage.getInputs("fullName")).toStrictEqual([
+      "name.first",
+      "name.last",
+    ]);
+    expect(lineage.getInputs("addresses[].street")).toStrictEqual([
+      "addresses[].line1",
+    ]);
+  });
+
+  it(`records lineage for a compiled mapper`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<Customer, { contact: string }>()({
+      contact: (input) => input.email,
+    }).compile();
+
+    // Execute
+    const lineage = objectMapper.traceLineage(customer);
+
+    // Verify
+    expect(lineage.getInputs("contact")).toStrictEqual(["email"]);
+  });
+});
+
+describe(`AsyncObjectMapper#traceLineage()`, () => {
+  it(`records the input properties read for each output property, through nested mappers`, async () => {
+    // Setup
+    const addressMapper = AsyncObjectMapper.create<
+      Address,
+      { street: string }
+    >()({
+      street: async (input) => await Promise.resolve(input.line1),
+    });
+    const customerMapper = AsyncObjectMapper.create<
+      Customer,
+      { contact: string; addresses: { street: string }[] }
+    >()({
+      contact: "email",
+      addresses: (input, context, options) =>
+        addressMapper.array(input.addresses, context, options),
+    });
+
+    // Execute
+    const lineage = await customerMapper.traceLineage(customer);
+
+    // Verify
+    expect(lineage.entries).toStrictEqual([
+      { output: "contact", inputs: ["email"], dependencies: [] },
+      { output: "addresses", inputs: ["addresses[]"], dependencies: [] },
+      {
+        output: "addresses[].street",
+        inputs: ["addresses[].line1"],
+        dependencies: [],
+      },
+    ]);
+  });
+
+  it(`calls the loader of a shared mapper function once per input object`, async () => {
+    // Setup
+    let loads = 0;
+    const loadEmail = mapFromAsync.shared(async (input: Customer) => {
+      loads++;
+      return await Promise.resolve(input.email);
+    });
+    const customerMapper = AsyncObjectMapper.create<
+      Customer,
+      { contact: string; domain: string }
+    >()({
+      contact: loadEmail,
+      domain: async (input, context, options) =>
+        (await loadEmail(input, context, options)).split("@")[1],
+    });
+
+    // Execute
+    const lineage = await customerMapper.traceLineage(customer);
+
+    // Verify
+    expect(loads).toBe(1);
+    expect(lineage.getInputs("contact")).toStrictEqual(["email"]);
+  });
+});
+
+describe(`ObjectMapper#findUnusedInputs()`, () => {
+  const customerMapper = ObjectMapper.create<
+    Customer,
+    { customerId: number; firstName: string; cities: string[]; since: string }
+  >()({
+    customerId: "id",
+    firstName: (input) => input.name.first,
+    cities: (input) => input.addresses.map((address) => address.city),
+    since: (input) => input.createdAt.toISOString(),
+  });
+
+  it(`reports the input properties that no output property reads`, () => {
+    // Execute
+    const unused = customerMapper.findUnusedInputs([customer]);
+
+    // Verify
+    expect(unused).toStrictEqual([
+      "name.last",
+      "email",
+      "addresses[].line1",
+      "addresses[].postcode",
+    ]);
+  });
+
+  it(`only reports input properties that aren't read for any sample`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      Customer,
+      { contact: string }
+    >()({
+      contact: (input) => input.id > 1 ? input.email : input.name.first,
+    });
+
+    // Execute
+    const unused = objectMapper.findUnusedInputs([
+      customer,
+      { ...customer, id: 2 },
+    ]);
+
+    // Verify
+    expect(unused).toStrictEqual(["name.last", "addresses", "createdAt"]);
+  });
+
+  it(`reports the unused input properties of frozen input objects`, () => {
+    // Setup
+    const frozenCustomer: Customer = Object.freeze({
+      ...customer,
+      name: Object.freeze({ ...customer.name }),
+    });
+
+    // Execute
+    const unused = customerMapper.findUnusedInputs([frozenCustomer]);
+
+    // Verify
+    expect(unused).toStrictEqual([
+      "name.last",
+      "email",
+      "addresses[].line1",
+      "addresses[].postcode",
+    ]);
+  });
+
+  it(`treats an object that's read as a whole as used`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<Customer, { name: string }>()({
+      name: (input) => JSON.stringify(input.name),
+    });
+
+    // Execute
+    const unused = objectMapper.findUnusedInputs([customer]);
+
+    // Verify
+    expect(unused).toStrictEqual(["id", "email", "addresses", "createdAt"]);
+  });
+});
+
+describe(`AsyncObjectMapper#findUnusedInputs()`, () => {
+  it(`reports the input properties that no output property reads, for async samples`, async () => {
+    // Setup
+    const objectMapper = AsyncObjectMapper.create<
+      Customer,
+      { contact: string }
+    >()({
+      contact: async (input) => await Promise.resolve(input.email),
+    });
+    async function* readSamples() {
+      yield customer;
+    }
+
+    // Execute
+    const unused = await objectMapper.findUnusedInputs(readSamples());
+
+    // Verify
+    expect(unused).toStrictEqual(["id", "name", "addresses", "createdAt"]);
+  });
+});
+
+describe(`UnmappedInputKeys`, () => {
+  it(`lists the input keys that the schema doesn't name`, () => {
+    const schema = {
+      customerId: "id",
+      firstName: "name.first",
+      label: (input: Customer) => input.email,
+    } as const satisfies ObjectMapperSchema<
+      Customer,
+      { customerId: number; firstName: string; label: string }
+    >;
+
+    type Unmapped = UnmappedInputKeys<Customer, typeof schema>;
+
+    const _addresses: Unmapped = "addresses";
+    // Keys read by mapper functions aren't detected.
+    const _email: Unmapped = "email";
+    // @ts-expect-error TS2322 `id` is named by the schema
+    const _id: Unmapped = "id";
+    // @ts-expect-error TS2322 `name` is named by the "name.first" path
+    const _name: Unmapped = "name";
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import {
+  NdjsonParseError,
+  NdjsonParseStream,
+  NdjsonStringifyStream,
+} from "../src/ndjson.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+
+describe(NdjsonParseStream.name, () => {
+  it(`parses one value per line, including lines split across chunks`, async () => {
+    // Setup
+    const chunks = ['{"id":1}\n{"id"', ':2}\r\n\n  \n{"id":3}'];
+
+    // Execute
+    const output = await Array.fromAsync(
+      ReadableStream.from(chunks).pipeThrough(new NdjsonParseStream()),
+    );
+
+    // Verify
+    expect(output).toStrictEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  it(`errors the stream with the line number of invalid JSON`, async () => {
+    // Setup
+    const chunks = ['{"id":1}\n\n{"id":', "}\n"];
+
+    // Execute
+    const output: unknown[] = [];
+    let error: unknown;
+    try {
+      for await (
+        const value of ReadableStream.from(chunks).pipeThrough(
+          new NdjsonParseStream(),
+        )
+      ) {
+        output.push(value);
+      }
+    } catch (caught) {
+      error = caught;
+    }
+
+    // Verify
+    expect(output).toStrictEqual([{ id: 1 }]);
+    expect(error).toBeInstanceOf(NdjsonParseError);
+    expect(error).toBeInstanceOf(SyntaxError);
+    expect((error as NdjsonParseError).lineNumber).toBe(3);
+    expect((error as NdjsonParseError).cause).toBeInstanceOf(SyntaxError);
+  });
+});
+
+describe(NdjsonStringifyStream.name, () => {
+  it(`serializes one value per line`, async () => {
+    // Execute
+    const output = await Array.fromAsync(
+      ReadableStream.from([{ id: 1 }, "two", null]).pipeThrough(
+        new NdjsonStringifyStream(),
+      ),
+    );
+
+    // Verify
+    expect(output.join("")).toBe('{"id":1}\n"two"\nnull\n');
+  });
+
+  it(`errors the stream if a value can't be serialized`, async () => {
+    // Execute
+    const promise = Array.fromAsync(
+      ReadableStream.from([{ id: 1 }, undefined]).pipeThrough(
+        new NdjsonStringifyStream(),
+      ),
+    );
+
+    // Verify
+    await expect(promise).rejects.toThrow(
+      new TypeError("Can't serialize undefined as JSON"),
+    );
+  });
+
+  it(`round-trips through a mapper`, async () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      { id: number },
+      { userId: number }
+    >()({
+      userId: "id",
+    });
+
+    // Execute
+    const output = await Array.fromAsync(
+      ReadableStream.from(['{"id":1}\n{"id":2}\n'])
+        .pipeThrough(new NdjsonParseStream<{ id: number }>())
+        .pipeThrough(objectMapper.toTransformStream())
+        .pipeThrough(new NdjsonStringifyStream()),
+    );
+
+    // Verify
+    expect(output.join("")).toBe('{"userId":1}\n{"userId":2}\n');
+  });
+});
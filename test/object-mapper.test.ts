@@ -1,8 +1,11 @@
 import { describe, it } from "@std/testing/bdd";
 import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
 import { ObjectMapper } from "../src/object-mapper.ts";
 import { mapFrom } from "../src/map-from.ts";
 import { OmitProperty } from "../src/omit-property.ts";
+import { MappingError } from "../src/mapping-error.ts";
+import type { MapperMiddleware } from "../src/types.ts";
 
 function omit<TObject extends object, TKeys extends keyof TObject>(
   obj: TObject,
@@ -156,7 +159,12 @@ describe(ObjectMapper.name, () => {
     // Execute
     // @ts-expect-error TS2554 If a context type is not `undefined`, a context must be provided.
     const failingCall = () => objectMapper.map(input);
-    expect(failingCall).toThrow(TypeError);
+    expect(failingCall).toThrow(MappingError);
+    try {
+      failingCall();
+    } catch (error) {
+      expect((error as MappingError).cause).toBeInstanceOf(TypeError);
+    }
     const output = objectMapper.map(input, context);
 
     // Verify
@@ -739,4 +747,1278 @@ describe(ObjectMapper.name, () => {
       });
     });
   });
+
+  describe(`input paths`, () => {
+    interface Address {
+      city: string;
+      postcode: number;
+    }
+
+    interface Input {
+      address: Address;
+      billingAddress?: Address;
+      manager: { address: Address } | null;
+      items: { sku: string }[];
+      coordinates: [number, number];
+    }
+
+    it(`can map values using dotted paths into the input object`, () => {
+      // Setup
+      interface Output {
+        city: string;
+        billingCity: string | undefined;
+        managerPostcode?: number;
+        firstSku: string | undefined;
+        latitude: number;
+      }
+
+      const objectMapper = ObjectMapper.create<Input, Output>()({
+        city: "address.city",
+        billingCity: "billingAddress.city",
+        managerPostcode: "manager.address.postcode",
+        firstSku: "items.0.sku",
+        latitude: "coordinates.0",
+      });
+
+      // Execute
+      const output = objectMapper.map({
+        address: { city: "Sydney", postcode: 2000 },
+        manager: { address: { city: "Perth", postcode: 6000 } },
+        items: [{ sku: "ABC-123" }],
+        coordinates: [-33.87, 151.21],
+      });
+
+      // Verify
+      expect(output).toStrictEqual({
+        city: "Sydney",
+        billingCity: undefined,
+        managerPostcode: 6000,
+        firstSku: "ABC-123",
+        latitude: -33.87,
+      });
+    });
+
+    it(`maps to undefined if an object along the path is missing`, () => {
+      // Setup
+      interface Output {
+        managerCity: string | undefined;
+        secondSku: string | undefined;
+      }
+
+      const objectMapper = ObjectMapper.create<Input, Output>()({
+        managerCity: "manager.address.city",
+        secondSku: "items.1.sku",
+      }).compile();
+
+      // Execute
+      const output = objectMapper.map({
+        address: { city: "Sydney", postcode: 2000 },
+        manager: null,
+        items: [{ sku: "ABC-123" }],
+        coordinates: [-33.87, 151.21],
+      });
+
+      // Verify
+      expect(output).toStrictEqual({
+        managerCity: undefined,
+        secondSku: undefined,
+      });
+    });
+
+    it(`prefers an input property named after the entire path`, () => {
+      // Setup
+      interface Input {
+        "address.city": string;
+        address: { city: string };
+      }
+
+      const objectMapper = ObjectMapper.create<Input, { city: string }>()({
+        city: "address.city",
+      });
+
+      // Execute
+      const output = objectMapper.map({
+        "address.city": "Sydney",
+        address: { city: "Perth" },
+      });
+
+      // Verify
+      expect(output).toStrictEqual({ city: "Sydney" });
+    });
+
+    it(`prefers an own input property named after the entire path, when compiled`, () => {
+      // Setup
+      interface Input {
+        "address.city"?: string;
+        address: { city: string };
+      }
+
+      const objectMapper = ObjectMapper.create<Input, { city?: string }>()({
+        city: "address.city",
+      }).compile();
+      const inherited: Input = Object.assign(
+        Object.create({ "address.city": "Hobart" }),
+        { address: { city: "Perth" } },
+      );
+
+      // Execute
+      const ownOutput = objectMapper.map({
+        "address.city": "Sydney",
+        address: { city: "Perth" },
+      });
+      const inheritedOutput = objectMapper.map(inherited);
+
+      // Verify
+      expect(ownOutput).toStrictEqual({ city: "Sydney" });
+      expect(inheritedOutput).toStrictEqual({ city: "Perth" });
+    });
+
+    it(`cannot use paths to values that are incompatible with the output property`, () => {
+      // Setup
+      interface Output {
+        city: string;
+        postcode: string;
+        managerCity: string;
+        firstSku: string;
+        longitude: string;
+      }
+
+      ObjectMapper.create<Input, Output>()({
+        city: "address.city",
+        // @ts-expect-error TS2322 `postcode` is a number, not a string
+        postcode: "address.postcode",
+        // @ts-expect-error TS2322 `manager` can be `null`, so the city can be `undefined`
+        managerCity: "manager.address.city",
+        // @ts-expect-error TS2322 The array might be empty, so the SKU can be `undefined`
+        firstSku: "items.0.sku",
+        // @ts-expect-error TS2322 Tuple elements keep their exact type
+        longitude: "coordinates.1",
+      });
+
+      ObjectMapper.create<Input, Pick<Output, "city">>()({
+        // @ts-expect-error TS2322 `town` doesn't exist in the input
+        city: "address.town",
+      });
+    });
+  });
+
+  describe(`mapFrom.derived()`, () => {
+    interface Person {
+      firstName: string;
+      lastName: string;
+      active: boolean;
+      nickname?: string;
+    }
+
+    interface PersonDto {
+      displayLabel: string;
+      fullName: string;
+      status: "active" | "inactive";
+      nickname?: string;
+      greeting: string;
+    }
+
+    interface Context {
+      locale: string;
+    }
+
+    const personMapper = ObjectMapper.create<Person, PersonDto, Context>()({
+      // Declared before its dependencies, to show they're mapped first
+      displayLabel: mapFrom.derived(
+        ["fullName", "status"],
+        (output, _input, context) =>
+          `${output.fullName} (${output.status}, ${context.locale})`,
+      ),
+      fullName: (input) => `${input.firstName} ${input.lastName}`,
+      status: (input) => input.active ? "active" : "inactive",
+      nickname: (input) => input.nickname ?? OmitProperty,
+      greeting: mapFrom.derived(
+        ["nickname"],
+        (output, input) => `Hello, ${output.nickname ?? input.firstName}`,
+      ),
+    });
+
+    const input: Person = {
+      firstName: "Ada",
+      lastName: "Lovelace",
+      active: true,
+    };
+
+    it(`maps properties from the mapped values of their dependencies`, () => {
+      // Execute
+      const output = personMapper.map(input, { locale: "en-GB" });
+
+      // Verify
+      expect(output).toStrictEqual({
+        fullName: "Ada Lovelace",
+        status: "active",
+        displayLabel: "Ada Lovelace (active, en-GB)",
+        greeting: "Hello, Ada",
+      });
+    });
+
+    it(`outputs properties in schema order, not the order they're mapped`, () => {
+      // Setup
+      const compiledMapper = ObjectMapper.create<
+        Person,
+        PersonDto,
+        Context
+      >()(personMapper.schema).compile();
+      const expectedKeys = [
+        "displayLabel",
+        "fullName",
+        "status",
+        "nickname",
+        "greeting",
+      ];
+
+      const countess = { ...input, nickname: "Countess" };
+
+      // Execute
+      const output = personMapper.map(countess, { locale: "en-GB" });
+      const compiledOutput = compiledMapper.map(countess, { locale: "en-GB" });
+      const result = personMapper.tryMap(countess, { locale: "en-GB" });
+
+      // Verify
+      expect(Object.keys(output)).toStrictEqual(expectedKeys);
+      expect(Object.keys(compiledOutput)).toStrictEqual(expectedKeys);
+      expect(result.ok && Object.keys(result.value)).toStrictEqual(
+        expectedKeys,
+      );
+    });
+
+    it(`leaves out omitted dependencies named after Object.prototype members`, () => {
+      // Setup
+      interface Output {
+        toString?: string;
+        label: string;
+      }
+      const objectMapper = ObjectMapper.create<Person, Output>()({
+        toString: (input) => input.nickname ?? OmitProperty,
+        label: mapFrom.derived(
+          ["toString"],
+          (output) => Object.hasOwn(output, "toString") ? "mapped" : "omitted",
+        ),
+      });
+
+      // Execute
+      const output = objectMapper.map(input);
+      const compiledOutput = ObjectMapper.create<Person, Output>()(
+        objectMapper.schema,
+      ).compile().map(input);
+
+      // Verify
+      expect(output).toStrictEqual({ label: "omitted" });
+      expect(compiledOutput).toStrictEqual({ label: "omitted" });
+    });
+
+    it(`passes dependencies that weren't omitted`, () => {
+      // Execute
+      const output = personMapper.map(
+        { ...input, nickname: "Countess" },
+        { locale: "en-GB" },
+      );
+
+      // Verify
+      expect(output.greeting).toBe("Hello, Countess");
+    });
+
+    it(`behaves the same when compiled`, () => {
+      // Setup
+      const compiledMapper = ObjectMapper.create<
+        Person,
+        PersonDto,
+        Context
+      >()(personMapper.schema).compile();
+
+      // Execute
+      const output = compiledMapper.map(input, { locale: "en-GB" });
+
+      // Verify
+      expect(output).toStrictEqual(
+        personMapper.map(input, { locale: "en-GB" }),
+      );
+    });
+
+    it(`records the path of a derived property that throws`, () => {
+      // Setup
+      const error = new Error("Can't derive");
+      const throwingMapper = ObjectMapper.create<Person, PersonDto, Context>()({
+        ...personMapper.schema,
+        greeting: mapFrom.derived([], () => {
+          throw error;
+        }),
+      });
+
+      // Execute
+      const result = throwingMapper.tryMap(input, { locale: "en-GB" });
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [{ path: "greeting", error }],
+      });
+    });
+
+    it(`only reports the error of a failed dependency`, () => {
+      // Setup
+      const error = new Error("No name");
+      const throwingMapper = ObjectMapper.create<Person, PersonDto, Context>()({
+        ...personMapper.schema,
+        fullName: () => {
+          throw error;
+        },
+      });
+
+      // Execute
+      const result = throwingMapper.tryMap(input, { locale: "en-GB" });
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [{ path: "fullName", error }],
+      });
+    });
+
+    it(`throws when the mapper is created, if dependencies form a cycle`, () => {
+      // Setup
+      interface Output {
+        first: string;
+        second: string;
+        third: string;
+      }
+
+      // Execute
+      const create = () =>
+        ObjectMapper.create<Person, Output>()({
+          first: mapFrom.derived(["third"], (output) => output.third),
+          second: mapFrom.derived(["first"], (output) => output.first),
+          third: mapFrom.derived(["second"], (output) => output.second),
+        });
+
+      // Verify
+      expect(create).toThrow(
+        "Derived properties can't depend on each other in a cycle: first -> third -> second -> first",
+      );
+    });
+  });
+
+  describe(`stream()`, () => {
+    interface Input {
+      id: number;
+    }
+
+    interface Output {
+      id: string;
+    }
+
+    const objectMapper = ObjectMapper.create<Input, Output>()({
+      id: (input) => {
+        if (input.id < 0) {
+          throw new Error(`Invalid id ${input.id}`);
+        }
+        return String(input.id);
+      },
+    });
+
+    function createTrackingSource(ids: number[]) {
+      const tracker = { read: 0, closed: false };
+      async function* source() {
+        try {
+          for (const id of ids) {
+            tracker.read++;
+            yield { id };
+          }
+        } finally {
+          tracker.closed = true;
+        }
+      }
+      return { source: source(), tracker };
+    }
+
+    it(`maps each element of an iterable or async iterable, in order`, async () => {
+      const inputs = [{ id: 1 }, { id: 2 }, { id: 3 }];
+      for (const source of [inputs, createTrackingSource([1, 2, 3]).source]) {
+        // Execute
+        const output = await Array.fromAsync(objectMapper.stream(source));
+
+        // Verify
+        expect(output).toStrictEqual([{ id: "1" }, { id: "2" }, { id: "3" }]);
+      }
+    });
+
+    it(`reads the source as the output is consumed`, async () => {
+      // Setup
+      const { source, tracker } = createTrackingSource([1, 2, 3]);
+
+      // Execute
+      const stream = objectMapper.stream(source);
+      const readBeforeStart = tracker.read;
+      const first = await stream.next();
+      const readAfterFirst = tracker.read;
+      await stream.return();
+
+      // Verify
+      expect(readBeforeStart).toBe(0);
+      expect(first).toStrictEqual({ done: false, value: { id: "1" } });
+      expect(readAfterFirst).toBe(1);
+    });
+
+    it(`closes the source if the consumer stops early`, async () => {
+      // Setup
+      const { source, tracker } = createTrackingSource([1, 2, 3]);
+
+      // Execute
+      const output = [];
+      for await (const item of objectMapper.stream(source)) {
+        output.push(item);
+        break;
+      }
+
+      // Verify
+      expect(output).toStrictEqual([{ id: "1" }]);
+      expect(tracker.read).toBe(1);
+      expect(tracker.closed).toBe(true);
+    });
+
+    it(`throws with the path of an element that fails, and closes the source`, async () => {
+      // Setup
+      const { source, tracker } = createTrackingSource([1, -2, 3]);
+
+      // Execute
+      const promise = Array.fromAsync(objectMapper.stream(source));
+
+      // Verify
+      await expect(promise).rejects.toBeInstanceOf(MappingError);
+      await expect(promise).rejects.toHaveProperty("path", "[1].id");
+      expect(tracker.read).toBe(2);
+      expect(tracker.closed).toBe(true);
+    });
+  });
+
+  describe(`toTransformStream()`, () => {
+    interface Input {
+      id: number;
+    }
+
+    interface Output {
+      id: string;
+    }
+
+    interface Context {
+      prefix: string;
+    }
+
+    const objectMapper = ObjectMapper.create<Input, Output, Context>()({
+      id: (input, context) => {
+        if (input.id < 0) {
+          throw new Error(`Invalid id ${input.id}`);
+        }
+        return `${context.prefix}${input.id}`;
+      },
+    });
+
+    it(`maps each chunk written to the stream, in order`, async () => {
+      // Execute
+      const output = await Array.fromAsync(
+        ReadableStream.from([{ id: 1 }, { id: 2 }, { id: 3 }]).pipeThrough(
+          objectMapper.toTransformStream({ prefix: "#" }),
+        ),
+      );
+
+      // Verify
+      expect(output).toStrictEqual([{ id: "#1" }, { id: "#2" }, { id: "#3" }]);
+    });
+
+    it(`errors the stream with the path of a chunk that fails`, async () => {
+      // Setup
+      const stream = objectMapper.toTransformStream({ prefix: "#" });
+      const writer = stream.writable.getWriter();
+      const reader = stream.readable.getReader();
+
+      // Execute
+      const firstWrite = writer.write({ id: 1 });
+      const first = await reader.read();
+      const second = reader.read();
+      await writer.write({ id: -2 });
+
+      // Verify
+      await firstWrite;
+      expect(first).toStrictEqual({ done: false, value: { id: "#1" } });
+      await expect(second).rejects.toBeInstanceOf(MappingError);
+      await expect(second).rejects.toHaveProperty("path", "[1].id");
+      await expect(writer.closed).rejects.toBeInstanceOf(MappingError);
+    });
+
+    it(`uses the given high-water marks`, async () => {
+      // Setup
+      const stream = objectMapper.toTransformStream({ prefix: "#" }, {
+        writableHighWaterMark: 5,
+        readableHighWaterMark: 3,
+      });
+      const writer = stream.writable.getWriter();
+      const desiredSizeBeforeWrites = writer.desiredSize;
+
+      // Execute
+      // With nothing reading, these only resolve if the readable side queues
+      //  every output.
+      await Promise.all([1, 2, 3].map((id) => writer.write({ id })));
+      await writer.close();
+      const output = await Array.fromAsync(stream.readable);
+
+      // Verify
+      expect(desiredSizeBeforeWrites).toBe(5);
+      expect(output).toStrictEqual([{ id: "#1" }, { id: "#2" }, { id: "#3" }]);
+    });
+  });
+
+  describe(`toAsync()`, () => {
+    interface UserInput {
+      id: number;
+      name: string;
+      nickname?: string;
+    }
+
+    interface UserOutput {
+      id: number;
+      displayName: string;
+      nickname?: string;
+    }
+
+    const userMapper = ObjectMapper.create<UserInput, UserOutput>()({
+      id: "id",
+      displayName: (input) => input.name.toUpperCase(),
+      nickname: (input) => input.nickname ?? OmitProperty,
+    });
+
+    it(`returns an AsyncObjectMapper that produces the same output`, async () => {
+      // Setup
+      const input: UserInput = { id: 1, name: "ada" };
+
+      // Execute
+      const asyncMapper = userMapper.toAsync();
+      const output = await asyncMapper.map(input);
+
+      // Verify
+      expect(asyncMapper).toBeInstanceOf(AsyncObjectMapper);
+      expect(output).toStrictEqual(userMapper.map(input));
+    });
+
+    it(`doesn't await values returned by mapper functions`, async () => {
+      // Setup
+      let microtaskRan = false;
+      const microtaskRanBeforeProperty: boolean[] = [];
+      const countingMapper = ObjectMapper.create<UserInput, UserOutput>()({
+        id: (input) => {
+          microtaskRanBeforeProperty.push(microtaskRan);
+          return input.id;
+        },
+        displayName: (input) => {
+          microtaskRanBeforeProperty.push(microtaskRan);
+          return input.name;
+        },
+        nickname: "nickname",
+      }).toAsync();
+
+      // Execute
+      queueMicrotask(() => {
+        microtaskRan = true;
+      });
+      await countingMapper.map({ id: 4, name: "edsger" });
+
+      // Verify
+      expect(microtaskRanBeforeProperty).toStrictEqual([false, false]);
+    });
+
+    it(`can have its schema reused alongside async mapper functions`, async () => {
+      // Setup
+      interface UserWithAvatarOutput extends UserOutput {
+        avatarUrl: string;
+      }
+
+      const userWithAvatarMapper = AsyncObjectMapper.create<
+        UserInput,
+        UserWithAvatarOutput
+      >()(
+        // @ts-expect-error TS2345 Sync mapper functions aren't accepted by AsyncObjectMapperSchema yet
+        {
+          ...userMapper.toAsync().schema,
+          avatarUrl: async (input) =>
+            await Promise.resolve(`/avatars/${input.id}.png`),
+        },
+      );
+
+      // Execute
+      const output = await userWithAvatarMapper.map({
+        id: 2,
+        name: "grace",
+        nickname: "amazing grace",
+      });
+
+      // Verify
+      expect(output).toStrictEqual({
+        id: 2,
+        displayName: "GRACE",
+        nickname: "amazing grace",
+        avatarUrl: "/avatars/2.png",
+      });
+    });
+
+    it(`rejects with a MappingError when a mapper function throws`, async () => {
+      // Setup
+      const error = new Error("Bad name");
+      const throwingMapper = ObjectMapper.create<UserInput, UserOutput>()({
+        id: "id",
+        displayName: () => {
+          throw error;
+        },
+        nickname: "nickname",
+      });
+
+      // Execute
+      const result = throwingMapper.toAsync().map({ id: 3, name: "alan" });
+
+      // Verify
+      await expect(result).rejects.toBeInstanceOf(MappingError);
+      await expect(result).rejects.toHaveProperty("path", "displayName");
+      await expect(result).rejects.toHaveProperty("cause", error);
+    });
+  });
+
+  describe(`use()`, () => {
+    interface User {
+      id: number;
+      email: string;
+      password: string;
+    }
+
+    interface UserDto {
+      id: string;
+      email: string;
+      password?: string;
+    }
+
+    function createUserMapper() {
+      return ObjectMapper.create<User, UserDto>()({
+        id: (input) => `#${input.id}`,
+        email: "email",
+        password: "password",
+      });
+    }
+
+    const user: User = { id: 1, email: "ada@example.com", password: "hunter2" };
+
+    it(`lets a property hook change or omit values`, () => {
+      // Setup
+      const userMapper = createUserMapper().use({
+        property(property, next) {
+          if (property.key === "password") {
+            return OmitProperty;
+          }
+          const value = next();
+          return property.key === "email"
+            ? String(value).replace(/^[^@]+/, "***")
+            : value;
+        },
+      });
+
+      // Execute
+      const output = userMapper.map(user);
+
+      // Verify
+      expect(output).toStrictEqual({ id: "#1", email: "***@example.com" });
+    });
+
+    it(`runs hooks with the key, input, context and value`, () => {
+      // Setup
+      const calls: unknown[] = [];
+      const userMapper = createUserMapper().use({
+        beforeMap(call) {
+          calls.push(["beforeMap", call.input, call.context]);
+        },
+        property(property, next) {
+          const value = next();
+          calls.push(["property", property.key, property.input, value]);
+          return value;
+        },
+        afterMap(call, output) {
+          calls.push(["afterMap", call.mapper === userMapper, output]);
+        },
+      });
+
+      // Execute
+      const output = userMapper.map(user);
+
+      // Verify
+      expect(calls).toStrictEqual([
+        ["beforeMap", user, undefined],
+        ["property", "id", user, "#1"],
+        ["property", "email", user, user.email],
+        ["property", "password", user, user.password],
+        ["afterMap", true, output],
+      ]);
+    });
+
+    it(`runs middleware in the order it was added`, () => {
+      // Setup
+      const calls: string[] = [];
+      const logging = (name: string): MapperMiddleware => ({
+        beforeMap: () => calls.push(`${name} before`),
+        property(property, next) {
+          if (property.key === "id") {
+            calls.push(`${name} property`);
+          }
+          return next();
+        },
+        afterMap: () => calls.push(`${name} after`),
+      });
+      const userMapper = createUserMapper()
+        .use(logging("first"))
+        .use(logging("second"));
+
+      // Execute
+      userMapper.map(user);
+
+      // Verify
+      expect(calls).toStrictEqual([
+        "first before",
+        "second before",
+        "first property",
+        "second property",
+        "second after",
+        "first after",
+      ]);
+    });
+
+    it(`lets a property hook translate errors`, () => {
+      // Setup
+      const error = new Error("Invalid ID");
+      const userMapper = ObjectMapper.create<User, UserDto>()({
+        ...createUserMapper().schema,
+        id: () => {
+          throw error;
+        },
+      }).use({
+        property(property, next) {
+          try {
+            return next();
+          } catch (cause) {
+            throw new TypeError(`Couldn't map ${property.key}`, { cause });
+          }
+        },
+      });
+
+      // Execute
+      const result = userMapper.tryMap(user);
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [
+          {
+            path: "id",
+            error: new TypeError("Couldn't map id", { cause: error }),
+          },
+        ],
+      });
+    });
+
+    it(`applies to a compiled mapper`, () => {
+      // Setup
+      const userMapper = createUserMapper().compile().use({
+        property: (property, next) =>
+          property.key === "password" ? OmitProperty : next(),
+      });
+
+      // Execute
+      const output = userMapper.map(user);
+
+      // Verify
+      expect(output).toStrictEqual({ id: "#1", email: user.email });
+    });
+
+    it(`runs the middleware of nested mappers for their own properties`, () => {
+      // Setup
+      const keys: string[] = [];
+      const logKeys: MapperMiddleware = {
+        property(property, next) {
+          keys.push(property.key);
+          return next();
+        },
+      };
+      const userMapper = createUserMapper().use(logKeys);
+      const teamMapper = ObjectMapper.create<
+        { members: User[] },
+        { members: UserDto[] }
+      >()({
+        members: (input, context, options) =>
+          userMapper.array(input.members, context, options),
+      }).use(logKeys);
+
+      // Execute
+      teamMapper.map({ members: [user] });
+
+      // Verify
+      expect(keys).toStrictEqual(["members", "id", "email", "password"]);
+    });
+  });
+
+  describe(`describe()`, () => {
+    interface User {
+      id: number;
+      name: { first: string; last: string };
+      password: string;
+    }
+
+    interface AuditDto {
+      createdBy: string;
+    }
+
+    interface UserDto {
+      userId: number;
+      firstName: string;
+      fullName: string;
+      kind: string;
+      nickname: string | null;
+      password?: string;
+      audit: AuditDto;
+      label: string;
+    }
+
+    it(`describes where each output property gets its value from`, () => {
+      // Setup
+      const auditMapper = ObjectMapper.create<User, AuditDto>()({
+        createdBy: (input) => `user-${input.id}`,
+      });
+      const objectMapper = ObjectMapper.create<User, UserDto>()({
+        userId: "id",
+        firstName: "name.first",
+        fullName: (input) => `${input.name.first} ${input.name.last}`,
+        kind: mapFrom.constant("user"),
+        nickname: mapFrom.null,
+        password: mapFrom.omit,
+        audit: auditMapper.toFunction(),
+        label: mapFrom.derived(
+          ["fullName", "kind"],
+          (output) => `${output.fullName} (${output.kind})`,
+        ),
+      });
+
+      // Execute
+      const description = objectMapper.describe();
+
+      // Verify
+      expect(description).toStrictEqual({
+        userId: { kind: "inputKey", inputKey: "id" },
+        firstName: { kind: "inputKey", inputKey: "name.first" },
+        fullName: { kind: "function", name: "fullName" },
+        kind: { kind: "constant", value: "user" },
+        nickname: { kind: "constant", value: null },
+        password: { kind: "omit" },
+        audit: { kind: "nested", mapper: auditMapper },
+        label: { kind: "derived", dependencies: ["fullName", "kind"] },
+      });
+      expect(description.audit).toHaveProperty("mapper", auditMapper);
+    });
+
+    it(`describes properties picked with mapFrom.pick() as input keys`, () => {
+      // Setup
+      const objectMapper = ObjectMapper.create<
+        { a: string; b: number },
+        { a: string; b: number }
+      >()({
+        ...mapFrom.pick("a", "b"),
+      });
+
+      // Execute
+      const description = objectMapper.describe();
+
+      // Verify
+      expect(description).toStrictEqual({
+        a: { kind: "inputKey", inputKey: "a" },
+        b: { kind: "inputKey", inputKey: "b" },
+      });
+    });
+
+    it(`describes the schema, not the middleware`, () => {
+      // Setup
+      const objectMapper = ObjectMapper.create<{ a: string }, { b: string }>()({
+        b: "a",
+      }).use({ property: (_property, next) => next() });
+
+      // Execute
+      const description = objectMapper.describe();
+
+      // Verify
+      expect(description).toStrictEqual({
+        b: { kind: "inputKey", inputKey: "a" },
+      });
+    });
+  });
+
+  describe(`compile()`, () => {
+    it(`produces the same output as the uncompiled mapper`, () => {
+      // Setup
+      interface Context {
+        omitOptional: boolean;
+      }
+
+      const schema = {
+        outString: "inString",
+        outStringConstant: mapFrom.constant("someConstantValue"),
+        outStringNullable: mapFrom.null,
+        outStringNullableUndefined: mapFrom.undefined,
+        outStringOptional: (input: Input, context: Context) =>
+          context.omitOptional ? OmitProperty : input.inStringOptional,
+        outStringOptionalNullable: mapFrom.omit,
+        outStringOptionalNullableUndefined: "inStringOptionalNullableUndefined",
+        outStringUndefined: "inStringUndefined",
+      } as const;
+      const objectMapper = ObjectMapper.create<Input, Output, Context>()(
+        schema,
+      );
+      const compiledMapper = ObjectMapper.create<Input, Output, Context>()(
+        schema,
+      ).compile();
+
+      const nextString = stringCounter();
+      const input: Input = {
+        inString: nextString(),
+        inStringNullable: nextString(),
+        inStringNullableUndefined: nextString(),
+        inStringOptional: nextString(),
+        inStringOptionalNullable: nextString(),
+        inStringOptionalNullableUndefined: nextString(),
+        inStringUndefined: nextString(),
+      };
+
+      // Execute & Verify
+      for (const omitOptional of [true, false]) {
+        const context = { omitOptional };
+        const expected = objectMapper.map(input, context);
+        expect(compiledMapper.map(input, context)).toStrictEqual(expected);
+        expect(Object.keys(compiledMapper.map(input, context))).toEqual(
+          Object.keys(expected),
+        );
+        expect(compiledMapper.array([input, input], context)).toStrictEqual(
+          [expected, expected],
+        );
+        expect(compiledMapper.array(new Set([input]), context))
+          .toStrictEqual([expected]);
+        expect(compiledMapper.toFunction()(input, context)).toStrictEqual(
+          expected,
+        );
+      }
+      expect(compiledMapper.map(null, { omitOptional: false })).toBeNull();
+      expect(compiledMapper.map(undefined, { omitOptional: false }))
+        .toBeUndefined();
+    });
+
+    it(`supports property names that are not valid identifiers`, () => {
+      // Setup
+      interface Input {
+        "in-string": string;
+        'in"quoted"': string;
+      }
+
+      interface Output {
+        "out string": string;
+        "out\nline": string;
+      }
+
+      const objectMapper = ObjectMapper.create<Input, Output>()({
+        "out string": "in-string",
+        "out\nline": 'in"quoted"',
+      }).compile();
+
+      // Execute
+      const output = objectMapper.map({
+        "in-string": "foo",
+        'in"quoted"': "bar",
+      });
+
+      // Verify
+      expect(output).toStrictEqual({
+        "out string": "foo",
+        "out\nline": "bar",
+      });
+    });
+
+    it(`is used by functions created before compiling`, () => {
+      // Setup
+      const objectMapper = ObjectMapper.create<
+        Input,
+        Pick<Output, "outString">
+      >()({
+        outString: (input) => input.inString.toUpperCase(),
+      });
+      const mapObject = objectMapper.toFunction();
+
+      // Execute
+      objectMapper.compile();
+      const output = mapObject({
+        inString: "foo",
+        inStringNullable: null,
+        inStringNullableUndefined: undefined,
+        inStringUndefined: undefined,
+      });
+
+      // Verify
+      expect(output).toStrictEqual({ outString: "FOO" });
+    });
+  });
+
+  describe(`errors`, () => {
+    interface LineItemInput {
+      price: number;
+    }
+
+    interface LineItemOutput {
+      price: string;
+    }
+
+    interface OrderInput {
+      lineItems: LineItemInput[];
+    }
+
+    interface OrderOutput {
+      lineItems: LineItemOutput[];
+    }
+
+    interface CustomerInput {
+      orders: OrderInput[];
+    }
+
+    interface CustomerOutput {
+      orders: OrderOutput[];
+    }
+
+    const priceError = new Error("Negative price");
+
+    const lineItemMapper = ObjectMapper.create<LineItemInput, LineItemOutput>()(
+      {
+        price: (input) => {
+          if (input.price < 0) {
+            throw priceError;
+          }
+          return input.price.toFixed(2);
+        },
+      },
+    );
+
+    const orderMapper = ObjectMapper.create<OrderInput, OrderOutput>()({
+      lineItems: (input) => lineItemMapper.array(input.lineItems),
+    });
+
+    function catchMappingError(fn: () => unknown): MappingError {
+      try {
+        fn();
+      } catch (error) {
+        if (error instanceof MappingError) {
+          return error;
+        }
+        throw error;
+      }
+      throw new Error(`Expected a MappingError to be thrown`);
+    }
+
+    it(`wraps errors thrown by mapper functions in a MappingError`, () => {
+      // Execute
+      const error = catchMappingError(() => lineItemMapper.map({ price: -1 }));
+
+      // Verify
+      expect(error.path).toEqual("price");
+      expect(error.mapper).toBe(lineItemMapper);
+      expect(error.cause).toBe(priceError);
+    });
+
+    it(`records the path through nested mappers and arrays`, () => {
+      // Setup
+      const customerMapper = ObjectMapper.create<
+        CustomerInput,
+        CustomerOutput
+      >()({
+        orders: (input) => orderMapper.array(input.orders),
+      });
+      const input: CustomerInput = {
+        orders: [
+          { lineItems: [] },
+          { lineItems: [{ price: 1 }, { price: 2 }, { price: -3 }] },
+        ],
+      };
+
+      // Execute
+      const error = catchMappingError(() => customerMapper.map(input));
+
+      // Verify
+      expect(error.path).toEqual("orders[1].lineItems[2].price");
+      expect(error.pathSegments).toEqual([
+        "orders",
+        1,
+        "lineItems",
+        2,
+        "price",
+      ]);
+      expect(error.mapper).toBe(lineItemMapper);
+      expect(error.cause).toBe(priceError);
+      expect(error.message).toEqual(
+        `Failed to map property "orders[1].lineItems[2].price": Negative price`,
+      );
+    });
+
+    it(`records the index of elements from non-array iterables`, () => {
+      // Execute
+      const error = catchMappingError(() =>
+        lineItemMapper.array(new Set([{ price: 1 }, { price: -2 }]))
+      );
+
+      // Verify
+      expect(error.path).toEqual("[1].price");
+    });
+
+    it(`records the path when the mapper is compiled`, () => {
+      // Setup
+      const compiledMapper = ObjectMapper.create<OrderInput, OrderOutput>()({
+        lineItems: (input) => lineItemMapper.array(input.lineItems),
+      }).compile();
+
+      // Execute
+      const error = catchMappingError(() =>
+        compiledMapper.map({ lineItems: [{ price: -1 }] })
+      );
+
+      // Verify
+      expect(error.path).toEqual("lineItems[0].price");
+      expect(error.cause).toBe(priceError);
+    });
+
+    describe(`tryMap()`, () => {
+      interface Input {
+        name: string;
+        lineItems: LineItemInput[];
+      }
+
+      interface Output {
+        name: string;
+        total: number;
+        lineItems: LineItemOutput[];
+      }
+
+      const totalError = new Error("Empty order");
+
+      const objectMapper = ObjectMapper.create<Input, Output>()({
+        name: "name",
+        total: (input) => {
+          if (input.lineItems.length === 0) {
+            throw totalError;
+          }
+          return input.lineItems.reduce((sum, item) => sum + item.price, 0);
+        },
+        lineItems: (input, context, options) =>
+          lineItemMapper.array(input.lineItems, context, options),
+      });
+
+      it(`returns the output if every property maps`, () => {
+        // Execute
+        const result = objectMapper.tryMap({
+          name: "foo",
+          lineItems: [{ price: 1 }],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: true,
+          value: {
+            name: "foo",
+            total: 1,
+            lineItems: [{ price: "1.00" }],
+          },
+        });
+      });
+
+      it(`returns every error, including those from nested mappers`, () => {
+        // Execute
+        const result = objectMapper.tryMap({
+          name: "foo",
+          lineItems: [{ price: -1 }, { price: 2 }, { price: -3 }],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "lineItems[0].price", error: priceError },
+            { path: "lineItems[2].price", error: priceError },
+          ],
+        });
+      });
+
+      it(`keeps mapping after a property fails`, () => {
+        // Execute
+        const result = objectMapper.tryMap({
+          name: "foo",
+          lineItems: [],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "total", error: totalError },
+          ],
+        });
+      });
+
+      it(`works when the mapper is compiled`, () => {
+        // Setup
+        const compiledMapper = ObjectMapper.create<OrderInput, OrderOutput>()({
+          lineItems: (input, context, options) =>
+            lineItemMapper.array(input.lineItems, context, options),
+        }).compile();
+
+        // Execute
+        const result = compiledMapper.tryMap({
+          lineItems: [{ price: -1 }, { price: -2 }],
+        });
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "lineItems[0].price", error: priceError },
+            { path: "lineItems[1].price", error: priceError },
+          ],
+        });
+      });
+    });
+
+    describe(`tryArray()`, () => {
+      it(`returns the output if every element maps`, () => {
+        // Execute
+        const result = lineItemMapper.tryArray([{ price: 1 }, { price: 2 }]);
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: true,
+          value: [{ price: "1.00" }, { price: "2.00" }],
+        });
+      });
+
+      it(`returns an error for every element that fails, with its index`, () => {
+        // Execute
+        const result = lineItemMapper.tryArray(
+          new Set([{ price: -1 }, { price: 2 }, { price: -3 }]),
+        );
+
+        // Verify
+        expect(result).toStrictEqual({
+          ok: false,
+          errors: [
+            { path: "[0].price", error: priceError },
+            { path: "[2].price", error: priceError },
+          ],
+        });
+      });
+    });
+  });
 });
@@ -0,0 +1,285 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { MappingError } from "../src/mapping-error.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import {
+  MapperProfile,
+  type MapperProfileEntry,
+  MapperProfiler,
+} from "../src/profiler.ts";
+
+function findEntry(
+  profile: MapperProfile,
+  mapper: string,
+  key: string | null,
+): MapperProfileEntry | undefined {
+  return profile.entries.find((entry) =>
+    entry.mapper === mapper && entry.key === key
+  );
+}
+
+describe(MapperProfiler.name, () => {
+  interface User {
+    id: number;
+    name: string;
+  }
+
+  interface UserDto {
+    userId: string;
+    name: string;
+  }
+
+  const users: User[] = [
+    { id: 1, name: "Ada" },
+    { id: 2, name: "Grace" },
+    { id: 3, name: "Hedy" },
+  ];
+
+  it(`records calls to each mapper and output property`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => String(input.id),
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+
+    // Execute
+    userMapper.array(users);
+    userMapper.map(users[0]);
+    const profile = profiler.getProfile();
+
+    // Verify
+    expect(profile.entries).toHaveLength(3);
+    for (const key of [null, "userId", "name"]) {
+      const entry = findEntry(profile, "UserDto", key)!;
+      expect(entry.calls).toBe(4);
+      expect(entry.totalMs).toBeGreaterThanOrEqual(0);
+      expect(entry.meanMs).toBeCloseTo(entry.totalMs / 4);
+      expect(entry.p50Ms).toBeLessThanOrEqual(entry.p95Ms);
+      expect(entry.p95Ms).toBeLessThanOrEqual(entry.p99Ms);
+      expect(entry.p99Ms).toBeLessThanOrEqual(entry.maxMs);
+    }
+  });
+
+  it(`sorts entries by their total duration, slowest first`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => {
+        const end = performance.now() + 5;
+        while (performance.now() < end) {
+          // Busy-wait, so this property is the slowest.
+        }
+        return String(input.id);
+      },
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+
+    // Execute
+    userMapper.map(users[0]);
+    const profile = profiler.getProfile();
+
+    // Verify
+    expect(profile.entries.map((entry) => entry.key)).toStrictEqual([
+      null,
+      "userId",
+      "name",
+    ]);
+    expect(findEntry(profile, "UserDto", "userId")!.totalMs)
+      .toBeGreaterThanOrEqual(5);
+  });
+
+  it(`records nested mappers separately, by name`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => String(input.id),
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+    const teamMapper = ObjectMapper.create<
+      { members: User[] },
+      { members: UserDto[] }
+    >()({
+      members: (input, context, options) =>
+        userMapper.array(input.members, context, options),
+    }).use(profiler.middleware("TeamDto"));
+
+    // Execute
+    teamMapper.map({ members: users });
+    const profile = profiler.getProfile();
+
+    // Verify
+    expect(findEntry(profile, "TeamDto", null)?.calls).toBe(1);
+    expect(findEntry(profile, "TeamDto", "members")?.calls).toBe(1);
+    expect(findEntry(profile, "UserDto", null)?.calls).toBe(3);
+    expect(findEntry(profile, "UserDto", "name")?.calls).toBe(3);
+  });
+
+  it(`records properties that throw, but not the failed map() call`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: () => {
+        throw new Error("Invalid ID");
+      },
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+
+    // Execute
+    const execute = () => userMapper.map(users[0]);
+
+    // Verify
+    expect(execute).toThrow(MappingError);
+    const profile = profiler.getProfile();
+    expect(findEntry(profile, "UserDto", "userId")?.calls).toBe(1);
+    expect(findEntry(profile, "UserDto", null)).toBeUndefined();
+  });
+
+  it(`waits for async properties to settle`, async () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = AsyncObjectMapper.create<User, UserDto>()({
+      userId: async (input) => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return String(input.id);
+      },
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+
+    // Execute
+    const output = await userMapper.array(users, undefined, {
+      concurrentProperties: true,
+    });
+    const profile = profiler.getProfile();
+
+    // Verify
+    expect(output).toHaveLength(3);
+    expect(findEntry(profile, "UserDto", null)?.calls).toBe(3);
+    const userId = findEntry(profile, "UserDto", "userId")!;
+    expect(userId.calls).toBe(3);
+    expect(userId.p50Ms).toBeGreaterThanOrEqual(4);
+  });
+
+  it(`keeps at most maxSamples durations for percentiles, but exact totals`, () => {
+    // Setup
+    const profiler = new MapperProfiler({ maxSamples: 1 });
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => {
+        const end = performance.now() + (input.id === 1 ? 5 : 0);
+        while (performance.now() < end) {
+          // Busy-wait, so the first user is the slowest.
+        }
+        return String(input.id);
+      },
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+
+    // Execute
+    userMapper.array(users);
+    const profile = profiler.getProfile();
+
+    // Verify
+    const userId = findEntry(profile, "UserDto", "userId")!;
+    expect(userId.calls).toBe(3);
+    expect(userId.totalMs).toBeGreaterThanOrEqual(5);
+    expect(userId.meanMs).toBeCloseTo(userId.totalMs / 3);
+    expect(userId.maxMs).toBeGreaterThanOrEqual(5);
+    // Every percentile comes from the single sample that was kept.
+    expect(userId.p50Ms).toBe(userId.p99Ms);
+  });
+
+  it(`throws a RangeError for an invalid maxSamples option`, () => {
+    for (const maxSamples of [0, -1, 1.5, NaN]) {
+      // Execute
+      const create = () => new MapperProfiler({ maxSamples });
+
+      // Verify
+      expect(create).toThrow(RangeError);
+    }
+  });
+
+  it(`discards its timings when reset`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => String(input.id),
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+    userMapper.map(users[0]);
+
+    // Execute
+    profiler.reset();
+
+    // Verify
+    expect(profiler.getProfile().entries).toStrictEqual([]);
+  });
+
+  it(`produces a JSON report`, () => {
+    // Setup
+    const profiler = new MapperProfiler();
+    const userMapper = ObjectMapper.create<User, UserDto>()({
+      userId: (input) => String(input.id),
+      name: "name",
+    }).use(profiler.middleware("UserDto"));
+    userMapper.map(users[0]);
+
+    // Execute
+    const json = JSON.parse(JSON.stringify(profiler.getProfile()));
+
+    // Verify
+    expect(json.entries).toHaveLength(3);
+    expect(Object.keys(json.entries[0])).toStrictEqual([
+      "mapper",
+      "key",
+      "calls",
+      "totalMs",
+      "meanMs",
+      "p50Ms",
+      "p95Ms",
+      "p99Ms",
+      "maxMs",
+    ]);
+  });
+});
+
+describe(MapperProfile.name, () => {
+  it(`formats its entries as a table`, () => {
+    // Setup
+    const profile = new MapperProfile([
+      {
+        mapper: "UserDto",
+        key: null,
+        calls: 2,
+        totalMs: 12.5,
+        meanMs: 6.25,
+        p50Ms: 6,
+        p95Ms: 6.5,
+        p99Ms: 6.5,
+        maxMs: 6.5,
+      },
+      {
+        mapper: "UserDto",
+        key: "userId",
+        calls: 2,
+        totalMs: 10,
+        meanMs: 5,
+        p50Ms: 5,
+        p95Ms: 5,
+        p99Ms: 5,
+        maxMs: 5,
+      },
+    ]);
+
+    // Execute
+    const table = profile.toTable();
+
+    // Verify
+    expect(table.split("\n")).toStrictEqual([
+      "Mapper   Property  Calls  Total ms  Mean ms  p50 ms  p95 ms  p99 ms  Max ms",
+      "-------  --------  -----  --------  -------  ------  ------  ------  ------",
+      "UserDto  (map)         2    12.500    6.250   6.000   6.500   6.500   6.500",
+      "UserDto  userId        2    10.000    5.000   5.000   5.000   5.000   5.000",
+    ]);
+  });
+});
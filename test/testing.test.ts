@@ -0,0 +1,358 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { mapFromAsync } from "../src/map-from-async.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import { OmitProperty } from "../src/omit-property.ts";
+import {
+  assertFullCoverage,
+  assertMapsTo,
+  MapperAssertionError,
+  recordCoverage,
+} from "../testing.ts";
+
+interface UserEntity {
+  id: number;
+  firstName: string;
+  lastName: string;
+  isAdmin: boolean;
+  nickname?: string;
+}
+
+interface UserDto {
+  userId: number;
+  fullName: string;
+  role?: string;
+  nickname: string | undefined;
+}
+
+function createUserMapper() {
+  return ObjectMapper.create<UserEntity, UserDto>()({
+    userId: "id",
+    fullName: (input) => `${input.firstName} ${input.lastName}`,
+    role: (input) => input.isAdmin ? "admin" : OmitProperty,
+    nickname: "nickname",
+  });
+}
+
+const user: UserEntity = {
+  id: 1,
+  firstName: "Bob",
+  lastName: "Terwilliger",
+  isAdmin: false,
+};
+
+describe(`assertMapsTo()`, () => {
+  it(`doesn't throw if the output matches the expected output`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+
+    // Execute
+    const assertion = () =>
+      assertMapsTo(userMapper, user, undefined, {
+        userId: 1,
+        fullName: "Bob Terwilliger",
+        nickname: undefined,
+      });
+
+    // Verify
+    expect(assertion).not.toThrow();
+  });
+
+  it(`throws with a list of the properties that don't match`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+
+    // Execute
+    let error: unknown;
+    try {
+      assertMapsTo(userMapper, { ...user, isAdmin: true }, undefined, {
+        userId: 2,
+        fullName: "Bob Terwilliger",
+        nickname: undefined,
+      });
+    } catch (e) {
+      error = e;
+    }
+
+    // Verify
+    expect(error).toBeInstanceOf(MapperAssertionError);
+    expect((error as Error).message).toBe(
+      [
+        "The mapped output doesn't match the expected output:",
+        "  userId:",
+        "    - expected: 2",
+        "    + actual:   1",
+        "  role:",
+        "    - expected: (missing)",
+        '    + actual:   "admin"',
+      ].join("\n"),
+    );
+  });
+
+  it(`distinguishes a missing property from an undefined property`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+
+    // Execute
+    const assertion = () =>
+      assertMapsTo(userMapper, user, undefined, {
+        userId: 1,
+        fullName: "Bob Terwilliger",
+        role: undefined,
+        nickname: undefined,
+      });
+
+    // Verify
+    expect(assertion).toThrow(
+      [
+        "The mapped output doesn't match the expected output:",
+        "  role:",
+        "    - expected: undefined",
+        "    + actual:   (missing)",
+      ].join("\n"),
+    );
+  });
+
+  it(`compares nested objects, arrays and dates deeply`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      { tags: string[]; createdAt: Date },
+      { tags: string[]; meta: { createdAt: Date } }
+    >()({
+      tags: "tags",
+      meta: (input) => ({ createdAt: input.createdAt }),
+    });
+
+    // Execute
+    const assertion = () =>
+      assertMapsTo(
+        objectMapper,
+        { tags: ["a", "b"], createdAt: new Date("2024-01-02") },
+        undefined,
+        { tags: ["a", "b"], meta: { createdAt: new Date("2024-01-03") } },
+      );
+
+    // Verify
+    expect(assertion).toThrow(
+      [
+        "The mapped output doesn't match the expected output:",
+        "  meta:",
+        '    - expected: {"createdAt":"2024-01-03T00:00:00.000Z"}',
+        '    + actual:   {"createdAt":"2024-01-02T00:00:00.000Z"}',
+      ].join("\n"),
+    );
+  });
+
+  it(`compares the entries of maps and sets`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      { id: number },
+      { ids: Set<number>; byName: Map<string, number> }
+    >()({
+      ids: (input) => new Set([input.id]),
+      byName: (input) => new Map([["x", input.id]]),
+    });
+
+    // Execute
+    const failing = () =>
+      assertMapsTo(objectMapper, { id: 1 }, undefined, {
+        ids: new Set([999]),
+        byName: new Map(),
+      });
+    const passing = () =>
+      assertMapsTo(objectMapper, { id: 1 }, undefined, {
+        ids: new Set([1]),
+        byName: new Map([["x", 1]]),
+      });
+
+    // Verify
+    expect(failing).toThrow(
+      [
+        "The mapped output doesn't match the expected output:",
+        "  ids:",
+        "    - expected: Set {999}",
+        "    + actual:   Set {1}",
+        "  byName:",
+        "    - expected: Map {}",
+        '    + actual:   Map {"x" => 1}',
+      ].join("\n"),
+    );
+    expect(passing).not.toThrow();
+  });
+
+  it(`compares the contents of typed arrays and regular expressions`, () => {
+    // Setup
+    const objectMapper = ObjectMapper.create<
+      { bytes: number[]; pattern: string },
+      { bytes: Uint8Array; pattern: RegExp }
+    >()({
+      bytes: (input) => new Uint8Array(input.bytes),
+      pattern: (input) => new RegExp(input.pattern, "i"),
+    });
+    const input = { bytes: [1, 2], pattern: "a+" };
+
+    // Execute
+    const failing = () =>
+      assertMapsTo(objectMapper, input, undefined, {
+        bytes: new Uint8Array([1, 3]),
+        pattern: /a+/g,
+      });
+    const passing = () =>
+      assertMapsTo(objectMapper, input, undefined, {
+        bytes: new Uint8Array([1, 2]),
+        pattern: /a+/i,
+      });
+
+    // Verify
+    expect(failing).toThrow(
+      [
+        "The mapped output doesn't match the expected output:",
+        "  bytes:",
+        "    - expected: Uint8Array [1, 3]",
+        "    + actual:   Uint8Array [1, 2]",
+        "  pattern:",
+        "    - expected: /a+/g",
+        "    + actual:   /a+/i",
+      ].join("\n"),
+    );
+    expect(passing).not.toThrow();
+  });
+
+  it(`returns a promise for an async mapper, which rejects if the output doesn't match`, async () => {
+    // Setup
+    const objectMapper = AsyncObjectMapper.create<
+      UserEntity,
+      { userId: number }
+    >()({
+      userId: async (input) => await Promise.resolve(input.id),
+    });
+
+    // Execute
+    const passing = assertMapsTo(objectMapper, user, undefined, { userId: 1 });
+    const failing = assertMapsTo(objectMapper, user, undefined, { userId: 2 });
+
+    // Verify
+    await expect(passing).resolves.toBeUndefined();
+    await expect(failing).rejects.toThrow(MapperAssertionError);
+  });
+});
+
+describe(`recordCoverage()`, () => {
+  it(`counts what each output property was mapped to`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+    const coverage = recordCoverage(userMapper);
+
+    // Execute
+    userMapper.map(user);
+    userMapper.map({ ...user, isAdmin: true, nickname: "Sideshow" });
+
+    // Verify
+    expect(coverage.entries).toStrictEqual([
+      { key: "userId", values: 2, undefinedValues: 0, omitted: 0 },
+      { key: "fullName", values: 2, undefinedValues: 0, omitted: 0 },
+      { key: "role", values: 1, undefinedValues: 0, omitted: 1 },
+      { key: "nickname", values: 1, undefinedValues: 1, omitted: 0 },
+    ]);
+    expect(coverage.getUncoveredKeys()).toStrictEqual([]);
+  });
+
+  it(`lists the output properties that were never run, or always omitted`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+    const coverage = recordCoverage(userMapper);
+    userMapper.map(user);
+
+    // Execute
+    const uncoveredKeys = coverage.getUncoveredKeys();
+
+    // Verify
+    expect(uncoveredKeys).toStrictEqual(["role"]);
+  });
+
+  it(`records async mappers`, async () => {
+    // Setup
+    const objectMapper = AsyncObjectMapper.create<
+      UserEntity,
+      { userId: number; role?: string }
+    >()({
+      userId: async (input) => await Promise.resolve(input.id),
+      role: mapFromAsync.omit,
+    });
+    const coverage = recordCoverage(objectMapper);
+
+    // Execute
+    await objectMapper.map(user);
+
+    // Verify
+    expect(coverage.entries).toStrictEqual([
+      { key: "userId", values: 1, undefinedValues: 0, omitted: 0 },
+      { key: "role", values: 0, undefinedValues: 0, omitted: 1 },
+    ]);
+  });
+
+  it(`clears the counts when reset`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+    const coverage = recordCoverage(userMapper);
+    userMapper.map(user);
+
+    // Execute
+    coverage.reset();
+
+    // Verify
+    expect(coverage.getUncoveredKeys()).toStrictEqual([
+      "userId",
+      "fullName",
+      "role",
+      "nickname",
+    ]);
+  });
+});
+
+describe(`assertFullCoverage()`, () => {
+  it(`throws with a list of the output properties that were never mapped to a value`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+    const coverage = recordCoverage(userMapper);
+    userMapper.map(user);
+    userMapper.map(user);
+
+    // Execute
+    const assertion = () => assertFullCoverage(coverage);
+
+    // Verify
+    expect(assertion).toThrow(MapperAssertionError);
+    expect(assertion).toThrow(
+      [
+        "Some output properties were never mapped to a value:",
+        "  role: omitted 2 times",
+      ].join("\n"),
+    );
+  });
+
+  it(`lists output properties that never ran`, () => {
+    // Setup
+    const coverage = recordCoverage(createUserMapper());
+
+    // Execute
+    const assertion = () => assertFullCoverage(coverage);
+
+    // Verify
+    expect(assertion).toThrow("  userId: never mapped");
+  });
+
+  it(`doesn't throw if every output property was mapped to a value`, () => {
+    // Setup
+    const userMapper = createUserMapper();
+    const coverage = recordCoverage(userMapper);
+    userMapper.map({ ...user, isAdmin: true });
+
+    // Execute
+    const assertion = () => assertFullCoverage(coverage);
+
+    // Verify
+    expect(assertion).not.toThrow();
+  });
+});
@@ -0,0 +1,266 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { AsyncObjectMapper } from "../src/async-object-mapper.ts";
+import { AggregateMappingError, MappingError } from "../src/mapping-error.ts";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import {
+  ConsoleSpanExporter,
+  InMemorySpanExporter,
+  LocalTracer,
+  type RecordedSpan,
+} from "../src/tracing.ts";
+import type { MapperSpan, MapperSpanOptions } from "../src/types.ts";
+
+/**
+ * Summarise spans as `[id, parentId, kind, path, status]`, in the order they
+ *  started.
+ */
+function summarise(spans: readonly RecordedSpan[]) {
+  return spans.toSorted((a, b) => a.id - b.id).map((span) => [
+    span.id,
+    span.parentId,
+    span.kind,
+    span.path,
+    span.status,
+  ]);
+}
+
+describe(LocalTracer.name, () => {
+  interface LineItem {
+    sku: string;
+  }
+
+  interface LineItemDto {
+    sku: string;
+    price: number;
+  }
+
+  const lineItemMapper = AsyncObjectMapper.create<LineItem, LineItemDto>()({
+    sku: "sku",
+    price: async (input) => {
+      if (input.sku === "invalid") {
+        throw new Error("Unknown SKU");
+      }
+      return await Promise.resolve(10);
+    },
+  });
+
+  const orderMapper = AsyncObjectMapper.create<
+    { lineItems: LineItem[] },
+    { lineItems: LineItemDto[] }
+  >()({
+    lineItems: (input, context, options) =>
+      lineItemMapper.array(input.lineItems, context, options),
+  });
+
+  it(`records a span for each map() call and mapper function, nested through nested mappers`, async () => {
+    // Setup
+    const exporter = new InMemorySpanExporter();
+    const tracer = new LocalTracer(exporter);
+
+    // Execute
+    await orderMapper.map(
+      { lineItems: [{ sku: "a" }, { sku: "b" }] },
+      undefined,
+      { tracer },
+    );
+
+    // Verify
+    expect(summarise(exporter.spans)).toStrictEqual([
+      [1, undefined, "map", "", "ok"],
+      [2, 1, "property", "lineItems", "ok"],
+      [3, 2, "map", "lineItems[0]", "ok"],
+      [4, 3, "property", "lineItems[0].price", "ok"],
+      [5, 2, "map", "lineItems[1]", "ok"],
+      [6, 5, "property", "lineItems[1].price", "ok"],
+    ]);
+    expect(exporter.spans.map((span) => span.name).toSorted()).toStrictEqual([
+      "lineItems",
+      "map",
+      "map",
+      "map",
+      "price",
+      "price",
+    ]);
+    // Nested spans end first.
+    expect(exporter.spans.at(-1)?.id).toBe(1);
+  });
+
+  it(`records the duration of each span`, async () => {
+    // Setup
+    const exporter = new InMemorySpanExporter();
+    const objectMapper = AsyncObjectMapper.create<object, { slow: string }>()({
+      slow: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        return "done";
+      },
+    });
+    const before = Date.now();
+
+    // Execute
+    await objectMapper.map({}, undefined, {
+      tracer: new LocalTracer(exporter),
+    });
+
+    // Verify
+    const [propertySpan, mapSpan] = exporter.spans;
+    expect(propertySpan.durationMs).toBeGreaterThanOrEqual(4);
+    expect(mapSpan.durationMs).toBeGreaterThanOrEqual(propertySpan.durationMs);
+    expect(mapSpan.startTime).toBeGreaterThanOrEqual(before - 1);
+    expect(propertySpan.startTime).toBeGreaterThanOrEqual(mapSpan.startTime);
+  });
+
+  it(`records the error status of failed spans`, async () => {
+    // Setup
+    const exporter = new InMemorySpanExporter();
+
+    // Execute
+    const promise = orderMapper.map(
+      { lineItems: [{ sku: "invalid" }] },
+      undefined,
+      { tracer: new LocalTracer(exporter) },
+    );
+
+    // Verify
+    await expect(promise).rejects.toBeInstanceOf(MappingError);
+    expect(summarise(exporter.spans)).toStrictEqual([
+      [1, undefined, "map", "", "error"],
+      [2, 1, "property", "lineItems", "error"],
+      [3, 2, "map", "lineItems[0]", "error"],
+      [4, 3, "property", "lineItems[0].price", "error"],
+    ]);
+    expect(exporter.spans[0].error).toStrictEqual(new Error("Unknown SKU"));
+    expect(exporter.spans[3].error).toBeInstanceOf(MappingError);
+  });
+
+  it(`records spans with the collectErrors option`, async () => {
+    // Setup
+    const exporter = new InMemorySpanExporter();
+
+    // Execute
+    const promise = lineItemMapper.array(
+      [{ sku: "a" }, { sku: "invalid" }],
+      undefined,
+      { collectErrors: true, tracer: new LocalTracer(exporter) },
+    );
+
+    // Verify
+    await expect(promise).rejects.toBeInstanceOf(AggregateMappingError);
+    expect(
+      exporter.spans.map((span) => [span.path, span.status]).toSorted(),
+    ).toStrictEqual([
+      ["[0]", "ok"],
+      ["[0].price", "ok"],
+      ["[1]", "error"],
+      ["[1].price", "error"],
+    ]);
+  });
+
+  it(`passes through nested ObjectMappers`, async () => {
+    // Setup
+    const exporter = new InMemorySpanExporter();
+    const syncMapper = ObjectMapper.create<
+      { lineItem: LineItem },
+      { lineItem: Promise<LineItemDto> }
+    >()({
+      lineItem: (input, context, options) =>
+        lineItemMapper.map(input.lineItem, context, options),
+    });
+    const objectMapper = AsyncObjectMapper.create<
+      { wrapper: { lineItem: LineItem } },
+      { lineItem: LineItemDto }
+    >()({
+      lineItem: (input, context, options) =>
+        syncMapper.map(input.wrapper, context, options).lineItem,
+    });
+
+    // Execute
+    await objectMapper.map(
+      { wrapper: { lineItem: { sku: "a" } } },
+      undefined,
+      { tracer: new LocalTracer(exporter) },
+    );
+
+    // Verify
+    expect(summarise(exporter.spans)).toStrictEqual([
+      [1, undefined, "map", "", "ok"],
+      [2, 1, "property", "lineItem", "ok"],
+      [3, 2, "map", "lineItem", "ok"],
+      [4, 3, "property", "lineItem.price", "ok"],
+    ]);
+  });
+});
+
+describe(`MapperTracer`, () => {
+  it(`can be implemented to adapt another tracing library`, async () => {
+    // Setup
+    const events: string[] = [];
+    interface WrappedSpan extends MapperSpan {
+      readonly label: string;
+    }
+    const tracer = {
+      startSpan(
+        name: string,
+        { parent }: MapperSpanOptions<WrappedSpan>,
+      ): WrappedSpan {
+        const label = parent ? `${parent.label} > ${name}` : name;
+        events.push(`start ${label}`);
+        return {
+          label,
+          setError: () => events.push(`error ${label}`),
+          end: () => events.push(`end ${label}`),
+        };
+      },
+    };
+    const objectMapper = AsyncObjectMapper.create<object, { id: number }>()({
+      id: async () => await Promise.resolve(1),
+    });
+
+    // Execute
+    await objectMapper.map({}, undefined, { tracer });
+
+    // Verify
+    expect(events).toStrictEqual([
+      "start map",
+      "start map > id",
+      "end map > id",
+      "end map",
+    ]);
+  });
+});
+
+describe(ConsoleSpanExporter.name, () => {
+  it(`logs a line for each span`, () => {
+    // Setup
+    const lines: string[] = [];
+    const exporter = new ConsoleSpanExporter((line) => lines.push(line));
+    const span: RecordedSpan = {
+      id: 2,
+      parentId: 1,
+      name: "price",
+      kind: "property",
+      path: "lineItems[0].price",
+      startTime: 0,
+      durationMs: 1.5,
+      status: "ok",
+    };
+
+    // Execute
+    exporter.export(span);
+    exporter.export({
+      ...span,
+      id: 1,
+      parentId: undefined,
+      kind: "map",
+      path: "",
+      status: "error",
+      error: new Error("Unknown SKU"),
+    });
+
+    // Verify
+    expect(lines).toStrictEqual([
+      'span 2 (parent 1) property "lineItems[0].price": 1.500 ms',
+      'span 1 map "": 1.500 ms, error: Unknown SKU',
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import { describe, it } from "@std/testing/bdd";
+import { expect } from "@std/expect";
+import { ObjectMapper } from "../src/object-mapper.ts";
+import { UnionObjectMapper } from "../src/union-object-mapper.ts";
+import { MappingError } from "../src/mapping-error.ts";
+
+describe(UnionObjectMapper.name, () => {
+  interface Cat {
+    kind: "cat";
+    name: string;
+    livesLeft: number;
+  }
+
+  interface Dog {
+    kind: "dog";
+    name: string;
+    goodBoy: boolean;
+  }
+
+  type Pet = Cat | Dog;
+
+  interface CatDto {
+    kind: "cat";
+    name: string;
+    lives: number;
+  }
+
+  interface DogDto {
+    kind: "dog";
+    name: string;
+    isGood: boolean;
+  }
+
+  type PetDto = CatDto | DogDto;
+
+  const cat: Cat = { kind: "cat", name: "Tom", livesLeft: 9 };
+  const dog: Dog = { kind: "dog", name: "Rex", goodBoy: true };
+
+  const catDto: CatDto = { kind: "cat", name: "Tom", lives: 9 };
+  const dogDto: DogDto = { kind: "dog", name: "Rex", isGood: true };
+
+  it(`maps each input using the schema for its variant`, () => {
+    // Setup
+    const petMapper = ObjectMapper.union<Pet, PetDto>()("kind", {
+      cat: {
+        kind: "kind",
+        name: "name",
+        lives: "livesLeft",
+      },
+      dog: {
+        kind: "kind",
+        name: "name",
+        isGood: (input) => input.goodBoy,
+      },
+    });
+
+    // Execute
+    const catOutput = petMapper.map(cat);
+    const dogOutput = petMapper.map(dog);
+
+    // Verify
+    expect(petMapper).toBeInstanceOf(UnionObjectMapper);
+    expect(catOutput).toStrictEqual(catDto);
+    expect(dogOutput).toStrictEqual(dogDto);
+  });
+
+  it(`can use an ObjectMapper instance for a variant`, () => {
+    // Setup
+    const dogMapper = ObjectMapper.create<Dog, DogDto>()({
+      kind: "kind",
+      name: "name",
+      isGood: "goodBoy",
+    });
+
+    const petMapper = ObjectMapper.union<Pet, PetDto>()("kind", {
+      cat: {
+        kind: "kind",
+        name: "name",
+        lives: "livesLeft",
+      },
+      dog: dogMapper,
+    });
+
+    // Execute
+    const output = petMapper.map(dog);
+
+    // Verify
+    expect(output).toStrictEqual(dogDto);
+  });
+
+  it(`maps every variant to the whole output type, if it isn't discriminated by the same property`, () => {
+    // Setup
+    interface Context {
+      prefix: string;
+    }
+
+    const petMapper = ObjectMapper.union<
+      Pet,
+      { description: string },
+      Context
+    >()(
+      "kind",
+      {
+        cat: {
+          description: (input, context) =>
+            `${context.prefix}${input.name} has ${input.livesLeft} lives left`,
+        },
+        dog: {
+          description: (input, context) =>
+            `${context.prefix}${input.name} is a good boy: ${input.goodBoy}`,
+        },
+      },
+    );
+
+    // Execute
+    const output = petMapper.array([cat, dog], { prefix: "> " });
+
+    // Verify
+    expect(output).toStrictEqual([
+      { description: "> Tom has 9 lives left" },
+      { description: "> Rex is a good boy: true" },
+    ]);
+  });
+
+  it(`requires every variant to be mapped`, () => {
+    ObjectMapper.union<Pet, PetDto>()(
+      "kind",
+      // @ts-expect-error TS2741 The "dog" variant is missing
+      {
+        cat: {
+          kind: "kind",
+          name: "name",
+          lives: "livesLeft",
+        },
+      },
+    );
+  });
+
+  it(`narrows the input and output types for each variant`, () => {
+    ObjectMapper.union<Pet, PetDto>()("kind", {
+      cat: {
+        kind: "kind",
+        name: "name",
+        // @ts-expect-error TS2339 `goodBoy` doesn't exist on a cat
+        lives: (input) => input.goodBoy,
+      },
+      dog: {
+        kind: "kind",
+        name: "name",
+        isGood: "goodBoy",
+        // @ts-expect-error TS2353 `lives` doesn't exist on a dog DTO
+        lives: "livesLeft",
+      },
+    });
+  });
+
+  it(`passes through null and undefined`, () => {
+    // Setup
+    const petMapper = ObjectMapper.union<Pet, { name: string }>()("kind", {
+      cat: { name: "name" },
+      dog: { name: "name" },
+    });
+
+    // Execute & Verify
+    expect(petMapper.map(null)).toBeNull();
+    expect(petMapper.map(undefined)).toBeUndefined();
+    expect(petMapper.array(null)).toBeNull();
+    expect(petMapper.array(undefined)).toBeUndefined();
+  });
+
+  it(`can convert a UnionObjectMapper instance into a function`, () => {
+    // Setup
+    const petMapper = ObjectMapper.union<Pet, { name: string }>()("kind", {
+      cat: { name: "name" },
+      dog: { name: (input) => input.name.toUpperCase() },
+    });
+
+    // Execute
+    const mapPet = petMapper.toFunction();
+
+    // Verify
+    expect(mapPet(dog)).toStrictEqual({ name: "REX" });
+    expect(mapPet.discriminant).toBe("kind");
+    expect(mapPet.variants).toBe(petMapper.variants);
+  });
+
+  it(`matches numeric discriminants by their digits`, () => {
+    // Setup
+    type Message = { version: 1; text: string } | { version: 2; body: string };
+    const messageMapper = ObjectMapper.union<Message, { text: string }>()(
+      "version",
+      {
+        1: { text: "text" },
+        2: { text: "body" },
+      },
+    );
+
+    // Execute
+    const output = messageMapper.array([
+      { version: 1, text: "Hi" },
+      { version: 2, body: "Bye" },
+    ]);
+
+    // Verify
+    expect(output).toStrictEqual([{ text: "Hi" }, { text: "Bye" }]);
+  });
+
+  it(`matches string discriminants that look like numbers`, () => {
+    // Setup
+    type Input = { v: "1"; a: string } | { v: "2"; b: string };
+    const objectMapper = ObjectMapper.union<Input, { out: string }>()("v", {
+      "1": { out: "a" },
+      "2": { out: "b" },
+    });
+
+    // Execute
+    const output = objectMapper.array([{ v: "1", a: "x" }, { v: "2", b: "y" }]);
+
+    // Verify
+    expect(output).toStrictEqual([{ out: "x" }, { out: "y" }]);
+  });
+
+  describe(`errors`, () => {
+    const petMapper = ObjectMapper.union<Pet, { name: string }>()("kind", {
+      cat: { name: "name" },
+      dog: {
+        name: (input) => {
+          throw new Error(`Can't name ${input.name}`);
+        },
+      },
+    });
+
+    it(`throws if the input doesn't match any variant`, () => {
+      // Setup
+      const bird = { kind: "bird", name: "Tweety" } as unknown as Pet;
+
+      // Execute & Verify
+      expect(() => petMapper.map(bird)).toThrow(`No variant for kind "bird"`);
+    });
+
+    it(`throws a MappingError for the discriminant, if the input doesn't match any variant`, () => {
+      // Setup
+      const bird = { kind: "bird", name: "Tweety" } as unknown as Pet;
+
+      // Execute
+      let error: unknown;
+      try {
+        petMapper.array([cat, bird]);
+      } catch (caught) {
+        error = caught;
+      }
+
+      // Verify
+      expect(error).toBeInstanceOf(MappingError);
+      expect((error as MappingError).path).toBe("[1].kind");
+    });
+
+    it(`returns a failure from tryMap() and tryArray(), if the input doesn't match any variant`, () => {
+      // Setup
+      const bird = { kind: "bird", name: "Tweety" } as unknown as Pet;
+
+      // Execute
+      const mapResult = petMapper.tryMap(bird);
+      const arrayResult = petMapper.tryArray([cat, bird]);
+
+      // Verify
+      expect(mapResult).toStrictEqual({
+        ok: false,
+        errors: [
+          { path: "kind", error: new Error(`No variant for kind "bird"`) },
+        ],
+      });
+      expect(arrayResult).toStrictEqual({
+        ok: false,
+        errors: [
+          { path: "[1].kind", error: new Error(`No variant for kind "bird"`) },
+        ],
+      });
+    });
+
+    it(`records the path of errors from the variant's mapper`, () => {
+      // Execute
+      let error: unknown;
+      try {
+        petMapper.array([cat, dog]);
+      } catch (caught) {
+        error = caught;
+      }
+
+      // Verify
+      expect(error).toBeInstanceOf(MappingError);
+      expect((error as MappingError).path).toBe("[1].name");
+    });
+
+    it(`returns every error from tryArray()`, () => {
+      // Execute
+      const result = petMapper.tryArray([dog, cat, dog]);
+
+      // Verify
+      expect(result).toStrictEqual({
+        ok: false,
+        errors: [
+          { path: "[0].name", error: new Error("Can't name Rex") },
+          { path: "[2].name", error: new Error("Can't name Rex") },
+        ],
+      });
+    });
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * Helpers for testing mappers, imported from `lynx-mapper/testing`. They throw
+ *  a {@linkcode MapperAssertionError} when an assertion fails, so they work
+ *  with `Deno.test`, `@std/testing/bdd` and other test runners.
+ *
+ * - {@linkcode assertMapsTo} maps an input object, and lists each output
+ *   property that doesn't match the expected output.
+ * - {@linkcode recordCoverage} records what each output property of a mapper
+ *   is mapped to, across a test run, and {@linkcode assertFullCoverage} fails
+ *   if any property was never mapped to a value.
+ *
+ * @example ```ts
+ * import { ObjectMapper } from "./src/object-mapper.ts";
+ * import { assertFullCoverage, assertMapsTo, recordCoverage } from "./testing.ts";
+ *
+ * const userMapper = ObjectMapper.create<{ id: number }, { userId: number }>()({
+ *   userId: "id",
+ * });
+ * const coverage = recordCoverage(userMapper);
+ *
+ * Deno.test("maps the user ID", () => {
+ *   assertMapsTo(userMapper, { id: 1 }, undefined, { userId: 1 });
+ * });
+ *
+ * Deno.test("maps every property", () => {
+ *   assertFullCoverage(coverage);
+ * });
+ * ```
+ *
+ * @module
+ */
+
+export * from "./src/fuzzing.ts";
+export * from "./src/testing.ts";